@@ -0,0 +1,50 @@
+// Разбор командной строки: позиционные аргументы и опции вида --name value / --flag
+
+export interface ParsedArgs {
+  positional: string[];
+  options: Map<string, string | true>;
+}
+
+export class UsageError extends Error {}
+
+export function parseArgs(argv: string[], flags: ReadonlySet<string>): ParsedArgs {
+  const positional: string[] = [];
+  const options = new Map<string, string | true>();
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i]!;
+    if (arg === '--') {
+      positional.push(...argv.slice(i + 1));
+      break;
+    }
+    if (!arg.startsWith('--')) {
+      positional.push(arg);
+      continue;
+    }
+    const eq = arg.indexOf('=');
+    const name = arg.slice(2, eq === -1 ? undefined : eq);
+    if (eq !== -1) {
+      options.set(name, arg.slice(eq + 1));
+    } else if (flags.has(name)) {
+      options.set(name, true);
+    } else {
+      const value = argv[++i];
+      if (value === undefined) throw new UsageError(`Option --${name} requires a value`);
+      options.set(name, value);
+    }
+  }
+  return { positional, options };
+}
+
+export function optionString(args: ParsedArgs, name: string): string | undefined {
+  const value = args.options.get(name);
+  if (value === true) throw new UsageError(`Option --${name} requires a value`);
+  return value;
+}
+
+export function optionInteger(args: ParsedArgs, name: string, fallback: number): number {
+  const value = optionString(args, name);
+  if (value === undefined) return fallback;
+  const number = Number(value);
+  if (!Number.isInteger(number) || number < 0) throw new UsageError(`Option --${name} must be a non-negative integer`);
+  return number;
+}
@@ -0,0 +1,374 @@
+import { homedir } from 'os';
+import { basename, join, resolve } from 'path';
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import {
+  NodeClient, FileStorage, ContentType, DeliveryStatus, CAP_RECEIPTS, CAP_ENCRYPTION, silentLogger,
+} from '../sdk/node';
+import type { ClientOptions, HexString, Logger, PublicKey } from '../sdk/node';
+import { ParsedArgs, UsageError, optionInteger, optionString, parseArgs } from './args';
+
+const USAGE = `Usage: exvia <command> [options]
+
+Identity:
+  identity show                     print the public key
+  identity new [--force]            generate a new identity (--force replaces an existing one)
+  identity export [file]            write keys as JSON to file (mode 0600) or stdout
+  identity import <file>            replace the identity with keys from an export
+
+Servers:
+  servers list                      known servers, the selected one marked with *
+  servers add <url>
+  servers remove <url>
+  servers select <url>
+
+Messaging:
+  connect                           authenticate to the server and print its key and protocol
+  send <publicKey> <text...>        send a text message
+  send <publicKey> --text <text> | --json <json> | --file <path> [--name <name>]
+  listen [--save-dir <dir>]         print incoming messages until interrupted
+
+Options:
+  --state <file>    client state (keys, servers); default $EXVIA_STATE or ~/.exvia/state.json
+  --server <url>    server to use instead of the selected one
+  --timeout <ms>    handshake, delivery receipt and file transfer timeout (default 10000)
+  --no-wait         do not wait for the delivery receipt or file completion
+  --plain           send signed plaintext instead of end-to-end encrypted messages
+  --format <f>      output format: text (default) or json – one JSON object per line
+  --verbose         SDK logs to stderr
+`;
+
+const FLAGS = new Set(['verbose', 'force', 'no-wait', 'plain', 'help']);
+
+// Выход: 0 – успех, 1 – ошибка или недоставка, 2 – неверные аргументы
+const EXIT_FAILURE = 1;
+const EXIT_USAGE = 2;
+
+interface Context {
+  args: ParsedArgs;
+  client: NodeClient;
+  statePath: string;
+  hadIdentity: boolean; // ключи были в состоянии до запуска (иначе их только что создал init())
+  json: boolean;
+  timeoutMs: number;
+}
+
+function output(ctx: Context, human: string, record: Record<string, unknown>): void {
+  process.stdout.write((ctx.json ? JSON.stringify(record) : human) + '\n');
+}
+
+function toHex(bytes: Uint8Array): HexString {
+  return Buffer.from(bytes).toString('hex');
+}
+
+// Логи SDK идут в stderr, чтобы не смешиваться с выводом команд
+function stderrLogger(): Logger {
+  const write = (level: string) => (message: string, ...args: unknown[]) => {
+    const extra = args.map(arg => arg instanceof Error ? arg.message : typeof arg === 'string' ? arg : JSON.stringify(arg));
+    process.stderr.write(`[${level}] ${[message, ...extra].join(' ')}\n`);
+  };
+  return { debug: write('debug'), info: write('info'), warn: write('warn'), error: write('error') };
+}
+
+async function resolveServer(ctx: Context): Promise<string> {
+  const server = optionString(ctx.args, 'server') ??
+    (await ctx.client.getSelectedServer()) ??
+    (await ctx.client.getServers())[0];
+  if (!server) {
+    throw new UsageError('No server: pass --server <url> or run "exvia servers add <url>"');
+  }
+  return server;
+}
+
+async function connect(ctx: Context): Promise<string> {
+  const server = await resolveServer(ctx);
+  await ctx.client.connect(server);
+  return server;
+}
+
+// --- identity ---
+
+async function identityCommand(ctx: Context, action: string | undefined, arg: string | undefined): Promise<number> {
+  switch (action) {
+    case 'show':
+      output(ctx, ctx.client.getPublicKeyHex(), { publicKey: ctx.client.getPublicKeyHex() });
+      return 0;
+    case 'new':
+      // init() уже создал ключи, если их не было; существующие заменяем только явно
+      if (ctx.hadIdentity && !ctx.args.options.has('force')) {
+        throw new UsageError(`Identity already exists in ${ctx.statePath}; use --force to replace it`);
+      }
+      await ctx.client.generateIdentity();
+      output(ctx, ctx.client.getPublicKeyHex(), { publicKey: ctx.client.getPublicKeyHex() });
+      return 0;
+    case 'export': {
+      const keys = ctx.client.exportIdentity();
+      const text = JSON.stringify(keys, null, 2) + '\n';
+      if (arg) {
+        await writeFile(resolve(arg), text, { mode: 0o600, flag: ctx.args.options.has('force') ? 'w' : 'wx' });
+        output(ctx, `Exported ${keys.publicKey} to ${arg}`, { exported: resolve(arg) });
+      } else {
+        process.stdout.write(text);
+      }
+      return 0;
+    }
+    case 'import': {
+      if (!arg) throw new UsageError('identity import requires a file');
+      let keys: { publicKey?: unknown; privateKey?: unknown };
+      try {
+        keys = JSON.parse(await readFile(resolve(arg), 'utf8'));
+      } catch (err) {
+        throw new Error(`Failed to read identity from ${arg}: ${(err as Error).message}`);
+      }
+      if (typeof keys.publicKey !== 'string' || typeof keys.privateKey !== 'string') {
+        throw new Error(`${arg} has no publicKey/privateKey fields`);
+      }
+      await ctx.client.importIdentity(keys.publicKey, keys.privateKey);
+      output(ctx, ctx.client.getPublicKeyHex(), { publicKey: ctx.client.getPublicKeyHex() });
+      return 0;
+    }
+    default:
+      throw new UsageError('identity: expected show, new, export or import');
+  }
+}
+
+// --- servers ---
+
+async function serversCommand(ctx: Context, action: string | undefined, url: string | undefined): Promise<number> {
+  if (action !== 'list' && !url) throw new UsageError(`servers ${action ?? ''}: expected a server url`);
+  switch (action) {
+    case 'list': {
+      const selected = await ctx.client.getSelectedServer();
+      for (const server of await ctx.client.getServers()) {
+        output(ctx, `${server === selected ? '*' : ' '} ${server}`, { server, selected: server === selected });
+      }
+      return 0;
+    }
+    case 'add':
+      await ctx.client.addServer(url!);
+      return 0;
+    case 'remove':
+      await ctx.client.removeServer(url!);
+      return 0;
+    case 'select':
+      await ctx.client.addServer(url!);
+      await ctx.client.selectServer(url!);
+      return 0;
+    default:
+      throw new UsageError('servers: expected list, add, remove or select');
+  }
+}
+
+// --- connect / send / listen ---
+
+async function connectCommand(ctx: Context): Promise<number> {
+  const server = await connect(ctx);
+  const negotiated = ctx.client.getNegotiatedProtocol();
+  const capabilities = [
+    ctx.client.serverSupports(CAP_ENCRYPTION) && 'encryption',
+    ctx.client.serverSupports(CAP_RECEIPTS) && 'receipts',
+  ].filter(Boolean);
+  output(ctx, `Connected to ${server}\nserver key: ${ctx.client.getServerKey()}\n` +
+    `protocol: v${negotiated?.version}, capabilities: ${capabilities.join(', ') || 'none'}`, {
+    server,
+    serverKey: ctx.client.getServerKey(),
+    protocolVersion: negotiated?.version,
+    capabilities,
+  });
+  return 0;
+}
+
+// Ждёт итоговую квитанцию по msgId; ACCEPTED – промежуточный статус ретранслятора
+function waitForReceipt(ctx: Context, msgId: HexString): Promise<DeliveryStatus | null> {
+  return new Promise(resolvePromise => {
+    const onDelivery = (id: HexString, status: DeliveryStatus) => {
+      if (id !== msgId || status === DeliveryStatus.ACCEPTED) return;
+      finish(status);
+    };
+    const timer = setTimeout(() => finish(null), ctx.timeoutMs);
+    const finish = (status: DeliveryStatus | null) => {
+      clearTimeout(timer);
+      ctx.client.off('delivery', onDelivery);
+      resolvePromise(status);
+    };
+    ctx.client.on('delivery', onDelivery);
+  });
+}
+
+// null – файл отправлен, 'timeout' – не успели за --timeout
+function waitForFile(ctx: Context, transferId: HexString): Promise<Error | 'timeout' | null> {
+  return new Promise(resolvePromise => {
+    const onSent = (id: HexString) => { if (id === transferId) finish(null); };
+    const onFailed = (id: HexString, error: Error) => { if (id === transferId) finish(error); };
+    const timer = setTimeout(() => finish('timeout'), ctx.timeoutMs);
+    const finish = (error: Error | 'timeout' | null) => {
+      clearTimeout(timer);
+      ctx.client.off('fileSent', onSent);
+      ctx.client.off('fileTransferFailed', onFailed);
+      resolvePromise(error);
+    };
+    ctx.client.on('fileSent', onSent);
+    ctx.client.on('fileTransferFailed', onFailed);
+  });
+}
+
+async function sendCommand(ctx: Context, target: string | undefined, words: string[]): Promise<number> {
+  if (!target || !/^[0-9a-fA-F]{64}$/.test(target)) throw new UsageError('send: expected a 64-character hex public key');
+  const text = optionString(ctx.args, 'text') ?? (words.length > 0 ? words.join(' ') : undefined);
+  const json = optionString(ctx.args, 'json');
+  const file = optionString(ctx.args, 'file');
+  if ([text, json, file].filter(v => v !== undefined).length !== 1) {
+    throw new UsageError('send: expected exactly one of <text>, --text, --json or --file');
+  }
+  let parsedJson: unknown;
+  if (json !== undefined) {
+    try {
+      parsedJson = JSON.parse(json);
+    } catch (err) {
+      throw new UsageError(`send: --json is not valid JSON: ${(err as Error).message}`);
+    }
+  }
+
+  await connect(ctx);
+  const wait = !ctx.args.options.has('no-wait');
+
+  if (file !== undefined) {
+    const name = optionString(ctx.args, 'name');
+    const transferId = await ctx.client.sendFile(target, file, name);
+    output(ctx, `File transfer ${transferId} started`, { transferId, status: 'STARTED' });
+    if (!wait) return 0;
+    const error = await waitForFile(ctx, transferId);
+    if (error === 'timeout') {
+      ctx.client.cancelFileTransfer(transferId);
+      output(ctx, `File transfer ${transferId} not finished within ${ctx.timeoutMs} ms`, { transferId, status: 'TIMEOUT' });
+      return EXIT_FAILURE;
+    }
+    output(ctx, error ? `File transfer failed: ${error.message}` : 'File sent', {
+      transferId, status: error ? 'FAILED' : 'SENT', ...(error ? { error: error.message } : {}),
+    });
+    return error ? EXIT_FAILURE : 0;
+  }
+
+  const msgId = json !== undefined ? ctx.client.sendJSON(target, parsedJson) : ctx.client.sendText(target, text!);
+  // Без CAP_RECEIPTS сервер квитанций не пришлёт – ждать нечего
+  if (!wait || !ctx.client.serverSupports(CAP_RECEIPTS)) {
+    output(ctx, `Sent ${msgId}`, { msgId, status: 'SENT' });
+    return 0;
+  }
+  const status = await waitForReceipt(ctx, msgId);
+  if (status === null) {
+    output(ctx, `No delivery receipt for ${msgId} within ${ctx.timeoutMs} ms`, { msgId, status: 'TIMEOUT' });
+    return EXIT_FAILURE;
+  }
+  output(ctx, `${DeliveryStatus[status]} ${msgId}`, { msgId, status: DeliveryStatus[status] });
+  return status === DeliveryStatus.DELIVERED || status === DeliveryStatus.QUEUED ? 0 : EXIT_FAILURE;
+}
+
+async function listenCommand(ctx: Context): Promise<number> {
+  const saveDir = optionString(ctx.args, 'save-dir');
+  if (saveDir) await mkdir(resolve(saveDir), { recursive: true });
+
+  ctx.client.on('message', (from: PublicKey, content: Uint8Array, contentType?: ContentType, parsed?: any) => {
+    handleIncoming(ctx, toHex(from), content, contentType ?? ContentType.RAW, parsed, saveDir)
+      .catch(err => process.stderr.write(`Failed to handle message: ${(err as Error).message}\n`));
+  });
+  ctx.client.on('disconnected', () => process.stderr.write('Disconnected, reconnecting...\n'));
+  ctx.client.on('reconnected', (server: string) => process.stderr.write(`Reconnected to ${server}\n`));
+
+  const server = await connect(ctx);
+  process.stderr.write(`Listening on ${server} as ${ctx.client.getPublicKeyHex()}\n`);
+
+  return new Promise(resolvePromise => {
+    const stop = () => resolvePromise(0);
+    process.once('SIGINT', stop);
+    process.once('SIGTERM', stop);
+  });
+}
+
+async function handleIncoming(
+  ctx: Context, from: HexString, content: Uint8Array, contentType: ContentType, parsed: any, saveDir: string | undefined
+): Promise<void> {
+  const time = new Date().toISOString();
+  const prefix = `${time} ${from.slice(0, 8)}`;
+  switch (contentType) {
+    case ContentType.TEXT:
+      output(ctx, `${prefix} ${parsed}`, { time, from, type: 'text', text: parsed });
+      break;
+    case ContentType.JSON:
+      output(ctx, `${prefix} ${JSON.stringify(parsed)}`, { time, from, type: 'json', data: parsed });
+      break;
+    case ContentType.FILE: {
+      // Имя приходит от отправителя: только базовое имя, без путей
+      const name = basename(String(parsed?.name ?? 'file')) || 'file';
+      let savedTo: string | undefined;
+      if (saveDir) {
+        savedTo = join(resolve(saveDir), `${Date.now()}-${name}`);
+        await writeFile(savedTo, content);
+      }
+      output(ctx, `${prefix} file ${name} (${content.length} bytes)${savedTo ? ` saved to ${savedTo}` : ''}`, {
+        time, from, type: 'file', name, size: content.length, ...(savedTo ? { savedTo } : {}),
+      });
+      break;
+    }
+    default:
+      output(ctx, `${prefix} ${content.length} raw bytes`, {
+        time, from, type: 'raw', data: Buffer.from(content).toString('base64'),
+      });
+  }
+}
+
+// --- main ---
+
+async function main(argv: string[]): Promise<number> {
+  const args = parseArgs(argv, FLAGS);
+  const [command, ...rest] = args.positional;
+  if (!command || args.options.has('help')) {
+    process.stdout.write(USAGE);
+    return command ? 0 : EXIT_USAGE;
+  }
+
+  const statePath = resolve(optionString(args, 'state') ?? process.env.EXVIA_STATE ?? join(homedir(), '.exvia', 'state.json'));
+  const storage = new FileStorage(statePath);
+  const timeoutMs = optionInteger(args, 'timeout', 10000);
+  const format = optionString(args, 'format') ?? 'text';
+  if (format !== 'text' && format !== 'json') throw new UsageError('--format must be text or json');
+  const options: ClientOptions = {
+    logger: args.options.has('verbose') ? stderrLogger() : silentLogger,
+    encryption: !args.options.has('plain'),
+    handshakeTimeoutMs: timeoutMs,
+    reconnect: command === 'listen',
+  };
+  // Ключи создаются при первом init(); для "identity new" важно, были ли они до запуска
+  const hadIdentity = (await storage.getItem('sdk:publicKey')) !== null;
+
+  const client = new NodeClient(storage, options);
+  await client.init();
+  const ctx: Context = { args, client, statePath, hadIdentity, json: format === 'json', timeoutMs };
+
+  try {
+    switch (command) {
+      case 'identity':
+        return await identityCommand(ctx, rest[0], rest[1]);
+      case 'servers':
+        return await serversCommand(ctx, rest[0], rest[1]);
+      case 'connect':
+        return await connectCommand(ctx);
+      case 'send':
+        return await sendCommand(ctx, rest[0], rest.slice(1));
+      case 'listen':
+        return await listenCommand(ctx);
+      default:
+        throw new UsageError(`Unknown command: ${command}`);
+    }
+  } finally {
+    client.disconnect();
+  }
+}
+
+main(process.argv.slice(2)).then(
+  code => process.exit(code),
+  err => {
+    process.stderr.write(`exvia: ${(err as Error).message}\n`);
+    if (err instanceof UsageError) process.stderr.write('Run "exvia --help" for usage\n');
+    process.exit(err instanceof UsageError ? EXIT_USAGE : EXIT_FAILURE);
+  }
+);
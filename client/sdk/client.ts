@@ -3,68 +3,284 @@ import { Ed25519KeyManager, IKeyManager } from './key-manager';
 import { WebSocketConnectionManager, IConnectionManager } from './connection-manager';
 import { LocalServerManager, IServerManager } from './server-manager';
 import { MessageHandler, IMessageHandler } from './message-handler';
-import { PublicKey, HexString, ContentType } from './types';
+import { PublicKey, HexString, ContentType, DeliveryStatus, CAP_ENCRYPTION, CAP_GROUPS, CAP_PUBSUB, Negotiated } from './types';
+import { encodeTopic } from '../../shared/protocol';
 import { TypedEventEmitter, EventMap } from './events';
+import { FileTransferManager, FileTransferLimits, TransferDirection } from './file-transfer';
+import { Logger, createConsoleLogger } from './logger';
+import { FileSource, toFileSource } from './file-source';
+import { GroupManager, GroupInfo } from './group-manager';
+import { ProfileManager, Profile, ProfileChanges } from './profile-manager';
+import { ContactBook, Contact, ContactChanges } from './contact-book';
+import { IMessageStore, NewHistoryMessage, HistoryMessage, HistoryQuery, HistorySearch, ConversationSummary } from './message-store';
 
 export interface ClientEvents extends EventMap {
   connected: [serverUrl: string];
   disconnected: [];
-  message: [from: PublicKey, content: Uint8Array, contentType?: ContentType, parsed?: any];
+  message: [from: PublicKey, content: Uint8Array, contentType?: ContentType, parsed?: any, msgId?: HexString];
   error: [error: Error];
   serversChanged: [servers: string[]];
   serversDiscovered: [addresses: string[]];
+  // Квитанция по msgId, который вернул sendText / sendJSON / sendFileAsync:
+  // ACCEPTED – принято ретранслятором, DELIVERED – передано получателю,
+  // QUEUED – получатель не в сети, FAILED – не доставлено
+  delivery: [msgId: HexString, status: DeliveryStatus, recipient: PublicKey];
+  // Автоматическое переподключение (если включено в ClientOptions.reconnect)
+  reconnecting: [attempt: number, delayMs: number, serverUrl: string];
+  reconnected: [serverUrl: string];
+  // Сервер предъявил ключ, отличный от закреплённого; подключение отклонено.
+  // Принять новый ключ – forgetServerKey(serverUrl) и connect() заново
+  serverKeyChanged: [serverUrl: string, pinnedKey: HexString, presentedKey: HexString];
+  // Передача файлов по частям (sendFile)
+  fileProgress: [transferId: HexString, direction: TransferDirection, transferred: number, total: number];
+  fileSent: [transferId: HexString];
+  fileTransferFailed: [transferId: HexString, error: Error];
+  // Группы: сообщение участника, новый состав (создание, приглашение, изменение), исключение из группы
+  groupMessage: [groupId: HexString, from: PublicKey, content: Uint8Array, contentType?: ContentType, parsed?: any, msgId?: HexString];
+  groupUpdated: [group: GroupInfo];
+  groupLeft: [groupId: HexString];
+  // Публикация по теме, на которую есть подписка (вместе с вызовом обработчиков subscribe)
+  publication: [topic: string, from: PublicKey, content: Uint8Array, contentType?: ContentType, parsed?: any];
+  // Собеседник прислал новую версию своего профиля
+  profileUpdated: [key: HexString, profile: Profile];
 }
 
+// Что известно о сообщении до разбора содержимого для истории
+type HistoryEntry = Pick<NewHistoryMessage, 'conversation' | 'group' | 'direction' | 'from' | 'contentType'> & { id: HexString | undefined };
+
+function toHex(bytes: Uint8Array): HexString {
+  return Array.from(bytes).map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+// Содержимое для истории: текст и JSON – строкой, у файла – только имя и размер
+function historyBody(contentType: ContentType, content: Uint8Array, parsed?: any): Pick<NewHistoryMessage, 'text' | 'file' | 'raw'> {
+  switch (contentType) {
+    case ContentType.TEXT:
+    case ContentType.JSON:
+      return { text: new TextDecoder().decode(content) };
+    case ContentType.FILE:
+      return { file: { name: parsed?.name ?? 'file', size: parsed?.size ?? content.length } };
+    default:
+      return { raw: toHex(content) };
+  }
+}
+
+export type TopicHandler = (from: PublicKey, content: Uint8Array, contentType?: ContentType, parsed?: any) => void;
+
+export interface ReconnectOptions {
+  initialDelayMs?: number; // задержка перед первой попыткой
+  maxDelayMs?: number;     // потолок экспоненциальной задержки
+  multiplier?: number;
+  jitter?: number;         // доля случайного разброса задержки, 0..1
+  maxAttempts?: number;    // после исчерпания – событие error
+}
+
+export interface ClientOptions {
+  // Шифровать исходящие сообщения (ENCRYPTED_DATA) вместо отправки подписанного открытого текста
+  encryption?: boolean;
+  // Переподключаться после обрыва, перебирая известные серверы; true – параметры по умолчанию
+  reconnect?: boolean | ReconnectOptions;
+  handshakeTimeoutMs?: number;
+  // Куда писать логи SDK; по умолчанию – console без покадровых debug-сообщений.
+  // silentLogger отключает логи полностью
+  logger?: Logger;
+  // Транспорт; по умолчанию – браузерный WebSocket. В Node – WsConnectionManager из client/sdk/node
+  connectionManager?: IConnectionManager;
+  // Ограничения входящих файлов (sendFile): размер, число одновременных передач, таймауты
+  fileTransfers?: Partial<FileTransferLimits>;
+  // Принимать личные сообщения только от контактов (addContact); см. также setContactsOnly
+  contactsOnly?: boolean;
+  // Сохранять входящие и исходящие сообщения (личные и групповые): IndexedDBMessageStore в браузере,
+  // FileMessageStore в Node. Без неё сообщения нигде не хранятся
+  history?: IMessageStore;
+}
+
+const DEFAULT_RECONNECT: Required<ReconnectOptions> = {
+  initialDelayMs: 1000,
+  maxDelayMs: 30000,
+  multiplier: 2,
+  jitter: 0.2,
+  maxAttempts: Infinity,
+};
+
+// sendFileAsync отправляет файл одним кадром, а сервер по умолчанию закрывает соединение
+// на кадре больше 1 МБ (connectionLimits.maxFrameBytes); запас – на заголовок, подпись и шифрование
+const MAX_SINGLE_FRAME_FILE_SIZE = 1024 * 1024 - 4 * 1024;
+
 export class Client extends TypedEventEmitter<ClientEvents> {
   private keyManager: IKeyManager;
   private connectionManager: IConnectionManager;
   private serverManager: IServerManager;
   private messageHandler: IMessageHandler;
-  private nick: string;
+  private fileTransfers: FileTransferManager;
+  private groups: GroupManager;
+  private profiles: ProfileManager;
+  private contacts: ContactBook;
+  private history: IMessageStore | null;
+  // тема → обработчики; подписка на ретрансляторе есть, пока есть хотя бы один обработчик
+  private topics = new Map<string, Set<TopicHandler>>();
   private pollTimer: ReturnType<typeof setInterval> | null = null;
   private readonly POLL_INTERVAL = 30000;
   private initialized = false;
-
-  constructor(private storage: IStorage = new LocalStorageStorage()) {
+  private encryption: boolean;
+  private handshakeTimeoutMs: number;
+  private logger: Logger;
+
+  private reconnectPolicy: Required<ReconnectOptions> | null;
+  private currentServer: string | null = null;
+  private reconnectOrigin: string | null = null; // сервер, с которым оборвалась сессия
+  private shouldReconnect = false; // сессия установлена через connect() и не закрыта через disconnect()
+  private reconnecting = false;
+  private reconnectAttempt = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(private storage: IStorage = new LocalStorageStorage(), options: ClientOptions = {}) {
     super();
+    this.encryption = options.encryption ?? true;
+    this.handshakeTimeoutMs = options.handshakeTimeoutMs ?? 10000;
+    this.logger = options.logger ?? createConsoleLogger();
+    if (options.reconnect === true) {
+      this.reconnectPolicy = { ...DEFAULT_RECONNECT };
+    } else if (options.reconnect) {
+      this.reconnectPolicy = { ...DEFAULT_RECONNECT, ...options.reconnect };
+    } else {
+      this.reconnectPolicy = null;
+    }
     this.keyManager = new Ed25519KeyManager(storage);
-    this.connectionManager = new WebSocketConnectionManager();
+    this.connectionManager = options.connectionManager ?? new WebSocketConnectionManager(this.logger);
     this.serverManager = new LocalServerManager(storage);
-    this.nick = 'Anonymous'; // будет загружено в init
+    this.fileTransfers = new FileTransferManager(
+      (target, content, contentType) => this.send(target, content, contentType),
+      undefined,
+      this.logger,
+      options.fileTransfers
+    );
+    // Приглашение несёт ключ группы – только зашифрованным сообщением, независимо от options.encryption
+    this.groups = new GroupManager(
+      this.keyManager,
+      storage,
+      (target, invite) => this.messageHandler.sendEncrypted(target, invite, ContentType.GROUP_INVITE),
+      (roster) => this.messageHandler.sendGroupRoster(roster),
+      this.logger
+    );
+    this.profiles = new ProfileManager(
+      this.keyManager,
+      storage,
+      (target, card) => this.deliver(target, card, ContentType.PROFILE),
+      this.logger
+    );
+    this.history = options.history ?? null;
+    this.contacts = new ContactBook(storage, options.contactsOnly ?? false, this.logger);
     this.messageHandler = new MessageHandler(
       this.keyManager,
       this.connectionManager,
       this.serverManager,
-      this.nick
+      '',
+      this.fileTransfers,
+      undefined,
+      this.logger,
+      this.groups,
+      this.profiles,
+      this.contacts
     );
     this.setupEventForwarding();
   }
 
   private setupEventForwarding(): void {
     this.messageHandler.on('handshakeSuccess', () => {
-      this.emit('connected', this.connectionManager.isConnected() ? 'connected' : 'unknown');
+      this.emit('connected', this.currentServer ?? 'unknown');
       this.startPolling();
+      this.fileTransfers.resumeAll();
+      if (this.serverSupports(CAP_GROUPS)) {
+        this.groups.publishAll();
+      }
+      // Профиль мог измениться, пока не было связи
+      this.profiles.sendToStale();
+      // Ретранслятор забывает подписки отключившегося клиента
+      if (this.serverSupports(CAP_PUBSUB)) {
+        this.topics.forEach((_, topic) => this.messageHandler.sendSubscribe(topic));
+      }
+    });
+
+    this.messageHandler.on('publication', (topic, from, content, contentType, parsed) => {
+      const handlers = this.topics.get(topic);
+      if (!handlers) return;
+      this.emit('publication', topic, from, content, contentType, parsed);
+      handlers.forEach(handler => handler(from, content, contentType, parsed));
+    });
+
+    this.messageHandler.on('groupMessage', (groupId, from, content, contentType, parsed, msgId) => {
+      this.record({ id: msgId, conversation: groupId, group: true, direction: 'in', from: toHex(from), contentType: contentType ?? ContentType.RAW }, content, parsed);
+      this.emit('groupMessage', groupId, from, content, contentType, parsed, msgId);
+    });
+
+    this.groups.on('updated', (group) => {
+      this.emit('groupUpdated', group);
+    });
+
+    this.groups.on('left', (groupId) => {
+      this.emit('groupLeft', groupId);
+    });
+
+    this.fileTransfers.on('progress', (transferId, direction, transferred, total) => {
+      this.emit('fileProgress', transferId, direction, transferred, total);
+    });
+
+    this.fileTransfers.on('sent', (transferId) => {
+      this.emit('fileSent', transferId);
     });
 
-    this.messageHandler.on('message', (from, content, contentType, parsed) => {
-      this.emit('message', from, content, contentType, parsed);
+    this.fileTransfers.on('failed', (transferId, error) => {
+      this.emit('fileTransferFailed', transferId, error);
+    });
+
+    this.messageHandler.on('message', (from, content, contentType, parsed, msgId) => {
+      // Первое сообщение от собеседника – он получит наш профиль (и пришлёт свой в ответ)
+      this.sendProfileTo(from);
+      const fromHex = toHex(from);
+      this.record({ id: msgId, conversation: fromHex, group: false, direction: 'in', from: fromHex, contentType: contentType ?? ContentType.RAW }, content, parsed);
+      this.emit('message', from, content, contentType, parsed, msgId);
+    });
+
+    this.profiles.on('updated', (key, profile) => {
+      this.emit('profileUpdated', key, profile);
+    });
+
+    this.messageHandler.on('serverKeyChanged', (address, pinnedKey, presentedKey) => {
+      this.emit('serverKeyChanged', address, pinnedKey, presentedKey);
+    });
+
+    this.messageHandler.on('deliveryStatus', (msgId, recipient, status) => {
+      this.history?.setStatus(msgId, status).catch(err => this.logger.warn('Failed to update message status:', err));
+      this.fileTransfers.handleDeliveryStatus(msgId, status);
+      this.emit('delivery', msgId, status, recipient);
     });
 
     this.messageHandler.on('nodeInfoAddServer', (address) => {
-      this.serverManager.addServer(address).catch(console.warn);
+      this.serverManager.addServer(address).catch(err => this.logger.warn('Failed to add server:', err));
     });
 
     this.messageHandler.on('serversListReceived', (addresses) => {
-      addresses.forEach(addr => this.serverManager.addServer(addr).catch(console.warn));
+      addresses.forEach(addr => this.serverManager.addServer(addr).catch(err => this.logger.warn('Failed to add server:', err)));
       this.emit('serversDiscovered', addresses);
     });
 
     this.connectionManager.on('close', () => {
       this.stopPolling();
+      this.fileTransfers.pauseAll();
+      // Неудачные попытки переподключения не считаются отдельными разрывами
+      if (this.reconnecting) return;
       this.emit('disconnected');
+      if (this.shouldReconnect && this.reconnectPolicy) {
+        this.reconnecting = true;
+        this.reconnectAttempt = 0;
+        this.reconnectOrigin = this.currentServer;
+        this.scheduleReconnect().catch(err => this.emit('error', err));
+      }
     });
 
     this.connectionManager.on('error', (error) => {
+      if (this.reconnecting) return;
       this.emit('error', error);
     });
 
@@ -76,7 +292,7 @@ export class Client extends TypedEventEmitter<ClientEvents> {
   private startPolling(): void {
     if (this.pollTimer) return;
     this.pollTimer = setInterval(() => {
-      this.requestServerList().catch(err => console.warn('Failed to poll servers:', err));
+      this.requestServerList().catch(err => this.logger.warn('Failed to poll servers:', err));
     }, this.POLL_INTERVAL);
   }
 
@@ -91,11 +307,9 @@ export class Client extends TypedEventEmitter<ClientEvents> {
   async init(): Promise<void> {
     if (this.initialized) return;
     await this.keyManager.load();
-    // Загружаем ник
-    const savedNick = await this.storage.getItem('sdk:nick');
-    this.nick = savedNick || 'Anonymous';
-    // Обновляем messageHandler с новым ником (если нужно)
-    // (в текущей реализации messageHandler не использует nick динамически, но можно)
+    await this.groups.load();
+    await this.profiles.load();
+    await this.contacts.load();
     this.initialized = true;
   }
 
@@ -109,13 +323,85 @@ export class Client extends TypedEventEmitter<ClientEvents> {
     return this.keyManager.getPublicKey();
   }
 
+  // Ключи в base64 – резервная копия или перенос личности на другое устройство
+  exportIdentity(): { publicKey: string; privateKey: string } {
+    return this.keyManager.exportKeys();
+  }
+
+  // Заменяет текущую личность; действует со следующего подключения
+  async importIdentity(publicKey: string, privateKey: string): Promise<void> {
+    await this.keyManager.importKeys(publicKey, privateKey);
+  }
+
+  async generateIdentity(): Promise<void> {
+    await this.keyManager.generate();
+  }
+
   getNick(): string {
-    return this.nick;
+    return this.profiles.getOwn().nick;
   }
 
   async setNick(nick: string): Promise<void> {
-    this.nick = nick;
-    await this.storage.setItem('sdk:nick', nick);
+    await this.setProfile({ nick });
+  }
+
+  // Профиль подписывается ключом и уходит собеседникам: новым – перед первым сообщением,
+  // знакомым – сразу после изменения (или при следующем подключении). Пустая строка убирает avatar / status
+  async setProfile(changes: ProfileChanges): Promise<Profile> {
+    return this.profiles.update(changes, this.isConnected());
+  }
+
+  getOwnProfile(): Profile {
+    return this.profiles.getOwn();
+  }
+
+  // Последний полученный профиль собеседника; null – он ещё не присылал карточку
+  getProfile(key: PublicKey | HexString): Profile | null {
+    const hex = typeof key === 'string' ? key.toLowerCase() : toHex(key);
+    return this.profiles.get(hex);
+  }
+
+  // Контакты. Добавляет собеседника или меняет настройки уже добавленного
+  async addContact(key: PublicKey | HexString, settings: ContactChanges = {}): Promise<Contact> {
+    return this.contacts.set(this.toHexKey(key), settings);
+  }
+
+  async updateContact(key: PublicKey | HexString, changes: ContactChanges): Promise<Contact> {
+    return this.contacts.update(this.toHexKey(key), changes);
+  }
+
+  async removeContact(key: PublicKey | HexString): Promise<void> {
+    await this.contacts.remove(this.toHexKey(key));
+  }
+
+  getContacts(): Contact[] {
+    return this.contacts.list();
+  }
+
+  getContact(key: PublicKey | HexString): Contact | null {
+    return this.contacts.get(this.toHexKey(key));
+  }
+
+  // Сообщения заблокированного ключа (личные, групповые, публикации) отбрасываются без событий.
+  // Ключ, которого нет в контактах, добавляется в них с отметкой blocked
+  async block(key: PublicKey | HexString): Promise<void> {
+    await this.contacts.set(this.toHexKey(key), { blocked: true });
+  }
+
+  async unblock(key: PublicKey | HexString): Promise<void> {
+    const hex = this.toHexKey(key);
+    if (this.contacts.isBlocked(hex)) {
+      await this.contacts.update(hex, { blocked: false });
+    }
+  }
+
+  isBlocked(key: PublicKey | HexString): boolean {
+    return this.contacts.isBlocked(this.toHexKey(key));
+  }
+
+  // Личные сообщения, файлы, приглашения в группы и профили – только от контактов
+  setContactsOnly(enabled: boolean): void {
+    this.contacts.contactsOnly = enabled;
   }
 
   async getServers(): Promise<string[]> {
@@ -144,56 +430,147 @@ export class Client extends TypedEventEmitter<ClientEvents> {
   async connect(address?: string): Promise<void> {
     const server = address || (await this.serverManager.getSelectedServer());
     if (!server) throw new Error('No server selected');
-    console.log('🌐 Connecting to server:', server);
+    this.cancelReconnect();
+    await this.establish(server);
+    this.shouldReconnect = true;
+  }
+
+  // Открывает соединение и ждёт завершения рукопожатия
+  private async establish(server: string): Promise<void> {
+    this.logger.info(`Connecting to server ${server}`);
+    this.currentServer = server;
+    this.messageHandler.setServerAddress(server);
     await this.connectionManager.connect(server);
-    
+
     await new Promise<void>((resolve, reject) => {
-      const onSuccess = () => {
+      const cleanup = () => {
+        clearTimeout(timer);
         this.messageHandler.off('handshakeSuccess', onSuccess);
+        this.messageHandler.off('handshakeRejected', onRejected);
         this.connectionManager.off('close', onClose);
         this.connectionManager.off('error', onError);
+      };
+      const onSuccess = () => {
+        cleanup();
         resolve();
       };
+      const onRejected = (reason: string) => {
+        cleanup();
+        reject(new Error(`Handshake failed: ${reason}`));
+      };
       const onClose = () => {
-        this.messageHandler.off('handshakeSuccess', onSuccess);
-        this.connectionManager.off('close', onClose);
-        this.connectionManager.off('error', onError);
+        cleanup();
         reject(new Error('Connection closed during handshake'));
       };
       const onError = (err: Error) => {
-        this.messageHandler.off('handshakeSuccess', onSuccess);
-        this.connectionManager.off('close', onClose);
-        this.connectionManager.off('error', onError);
+        cleanup();
         reject(err);
       };
-      this.messageHandler.once('handshakeSuccess', onSuccess);
-      this.connectionManager.once('close', onClose);
-      this.connectionManager.once('error', onError);
+      const timer = setTimeout(() => {
+        cleanup();
+        this.connectionManager.disconnect();
+        reject(new Error('Handshake timed out'));
+      }, this.handshakeTimeoutMs);
+      this.messageHandler.on('handshakeSuccess', onSuccess);
+      this.messageHandler.on('handshakeRejected', onRejected);
+      this.connectionManager.on('close', onClose);
+      this.connectionManager.on('error', onError);
     });
   }
 
   disconnect(): void {
+    this.shouldReconnect = false;
+    this.cancelReconnect();
     this.stopPolling();
     this.connectionManager.disconnect();
   }
 
+  private cancelReconnect(): void {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.reconnecting = false;
+    this.reconnectAttempt = 0;
+  }
+
+  private async scheduleReconnect(): Promise<void> {
+    const policy = this.reconnectPolicy!;
+    if (this.reconnectAttempt >= policy.maxAttempts) {
+      this.reconnecting = false;
+      this.shouldReconnect = false;
+      this.emit('error', new Error(`Reconnect failed after ${this.reconnectAttempt} attempts`));
+      return;
+    }
+    this.reconnectAttempt++;
+
+    const server = await this.nextReconnectServer(this.reconnectAttempt);
+    if (!this.reconnecting) return; // disconnect() во время ожидания
+    if (!server) {
+      this.reconnecting = false;
+      this.emit('error', new Error('No servers to reconnect to'));
+      return;
+    }
+
+    const base = Math.min(
+      policy.maxDelayMs,
+      policy.initialDelayMs * Math.pow(policy.multiplier, this.reconnectAttempt - 1)
+    );
+    const delay = Math.max(0, Math.round(base * (1 + policy.jitter * (2 * Math.random() - 1))));
+    this.emit('reconnecting', this.reconnectAttempt, delay, server);
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.establish(server).then(() => {
+        this.reconnecting = false;
+        this.reconnectAttempt = 0;
+        this.emit('reconnected', server);
+      }).catch(err => {
+        if (!this.reconnecting) return;
+        this.logger.warn(`Reconnect attempt ${this.reconnectAttempt} to ${server} failed:`, err);
+        this.connectionManager.disconnect();
+        this.scheduleReconnect().catch(e => this.emit('error', e));
+      });
+    }, delay);
+  }
+
+  // Первая попытка – тот же сервер, дальше по кругу по списку известных серверов
+  private async nextReconnectServer(attempt: number): Promise<string | null> {
+    const servers = await this.serverManager.getServers();
+    const origin = this.reconnectOrigin;
+    if (origin && !servers.includes(origin)) {
+      servers.unshift(origin);
+    }
+    if (servers.length === 0) return null;
+    const start = origin ? servers.indexOf(origin) : 0;
+    return servers[(start + attempt - 1) % servers.length] ?? null;
+  }
+
   isConnected(): boolean {
     return this.connectionManager.isConnected() && (this.messageHandler as any).handshakeCompleted;
   }
 
-  // Отправка данных
-  sendText(target: PublicKey | HexString, text: string): void {
+  // Отправка данных: возвращается msgId для отслеживания события 'delivery'
+  sendText(target: PublicKey | HexString, text: string): HexString {
     const content = new TextEncoder().encode(text);
-    this.send(target, content, ContentType.TEXT);
+    const msgId = this.send(target, content, ContentType.TEXT);
+    this.recordOutgoing(target, false, msgId, ContentType.TEXT, content);
+    return msgId;
   }
 
-  sendJSON(target: PublicKey | HexString, obj: any): void {
+  sendJSON(target: PublicKey | HexString, obj: any): HexString {
     const json = JSON.stringify(obj);
     const content = new TextEncoder().encode(json);
-    this.send(target, content, ContentType.JSON);
+    const msgId = this.send(target, content, ContentType.JSON);
+    this.recordOutgoing(target, false, msgId, ContentType.JSON, content);
+    return msgId;
   }
 
-  async sendFileAsync(target: PublicKey | HexString, file: File): Promise<void> {
+  // Файл целиком в одном кадре – только для небольших файлов, большие передаются через sendFile
+  async sendFileAsync(target: PublicKey | HexString, file: File): Promise<HexString> {
+    if (file.size > MAX_SINGLE_FRAME_FILE_SIZE) {
+      throw new Error(`File is too large to send in one frame (${file.size} bytes, max ${MAX_SINGLE_FRAME_FILE_SIZE}), use sendFile`);
+    }
     const arrayBuffer = await file.arrayBuffer();
     const fileData = new Uint8Array(arrayBuffer);
     const nameBytes = new TextEncoder().encode(file.name);
@@ -201,19 +578,234 @@ export class Client extends TypedEventEmitter<ClientEvents> {
     content[0] = nameBytes.length;
     content.set(nameBytes, 1);
     content.set(fileData, 1 + nameBytes.length);
-    this.send(target, content, ContentType.FILE);
+    const msgId = this.send(target, content, ContentType.FILE);
+    this.recordOutgoing(target, false, msgId, ContentType.FILE, fileData, { name: file.name });
+    return msgId;
   }
 
-  private send(target: PublicKey | HexString, content: Uint8Array, contentType: ContentType = ContentType.RAW): void {
-    let targetBytes: PublicKey;
-    if (typeof target === 'string') {
-      if (!/^[0-9a-fA-F]{64}$/.test(target)) throw new Error('Invalid hex key');
-      const bytes = target.match(/.{2}/g)!.map(b => parseInt(b, 16));
-      targetBytes = new Uint8Array(bytes);
-    } else {
-      targetBytes = target;
+  // Передача по частям: файл читается кусками, каждая часть подписывается отдельно,
+  // прогресс – события fileProgress / fileSent, после переподключения передача продолжается.
+  // Возвращает идентификатор передачи.
+  async sendFile(target: PublicKey | HexString, file: Blob | Uint8Array | FileSource, name?: string): Promise<HexString> {
+    const fileName = name ?? (file as Partial<File>).name ?? 'file';
+    const source = toFileSource(file);
+    const transferId = await this.fileTransfers.sendFile(this.toPublicKey(target), source, fileName);
+    this.recordOutgoing(target, false, transferId, ContentType.FILE, new Uint8Array(0), { name: fileName, size: source.size });
+    return transferId;
+  }
+
+  cancelFileTransfer(transferId: HexString): void {
+    this.fileTransfers.cancel(transferId);
+  }
+
+  // Группы. Создаёт и меняет состав только администратор (создатель группы); каждое изменение
+  // рассылает участникам новый ключ, исключённые перестают получать сообщения группы
+  async createGroup(name: string, members: (PublicKey | HexString)[]): Promise<GroupInfo> {
+    this.requireGroups();
+    return this.groups.create(name, members.map(member => this.toPublicKey(member)));
+  }
+
+  async addGroupMembers(groupId: HexString, members: (PublicKey | HexString)[]): Promise<GroupInfo> {
+    this.requireGroups();
+    return this.groups.addMembers(groupId, members.map(member => this.toPublicKey(member)));
+  }
+
+  async removeGroupMembers(groupId: HexString, members: (PublicKey | HexString)[]): Promise<GroupInfo> {
+    this.requireGroups();
+    return this.groups.removeMembers(groupId, members.map(member => this.toPublicKey(member)));
+  }
+
+  getGroups(): GroupInfo[] {
+    return this.groups.list();
+  }
+
+  getGroup(groupId: HexString): GroupInfo | null {
+    return this.groups.info(groupId);
+  }
+
+  // Сообщение уходит на ретранслятор один раз; квитанции DELIVERED / QUEUED приходят по каждому участнику
+  sendGroupText(groupId: HexString, text: string): HexString {
+    this.requireGroups();
+    const content = new TextEncoder().encode(text);
+    const msgId = this.messageHandler.sendGroup(groupId, content, ContentType.TEXT);
+    this.recordOutgoing(groupId, true, msgId, ContentType.TEXT, content);
+    return msgId;
+  }
+
+  sendGroupJSON(groupId: HexString, obj: any): HexString {
+    this.requireGroups();
+    const content = new TextEncoder().encode(JSON.stringify(obj));
+    const msgId = this.messageHandler.sendGroup(groupId, content, ContentType.JSON);
+    this.recordOutgoing(groupId, true, msgId, ContentType.JSON, content);
+    return msgId;
+  }
+
+  // История сообщений (ClientOptions.history). Разговор – ключ собеседника или id группы
+  async getMessages(conversation: PublicKey | HexString, query?: HistoryQuery): Promise<HistoryMessage[]> {
+    return this.requireHistory().getMessages(this.toHexKey(conversation), query);
+  }
+
+  async searchMessages(text: string, options: HistorySearch = {}): Promise<HistoryMessage[]> {
+    const search = options.conversation !== undefined ? { ...options, conversation: this.toHexKey(options.conversation) } : options;
+    return this.requireHistory().search(text, search);
+  }
+
+  async getConversations(): Promise<ConversationSummary[]> {
+    return this.requireHistory().getConversations();
+  }
+
+  async markRead(conversation: PublicKey | HexString): Promise<void> {
+    await this.requireHistory().markRead(this.toHexKey(conversation));
+  }
+
+  async getUnreadCount(conversation?: PublicKey | HexString): Promise<number> {
+    return this.requireHistory().getUnreadCount(conversation !== undefined ? this.toHexKey(conversation) : undefined);
+  }
+
+  async deleteMessage(conversation: PublicKey | HexString, msgId: HexString): Promise<void> {
+    await this.requireHistory().deleteMessage(this.toHexKey(conversation), msgId.toLowerCase());
+  }
+
+  async deleteConversation(conversation: PublicKey | HexString): Promise<void> {
+    await this.requireHistory().deleteConversation(this.toHexKey(conversation));
+  }
+
+  private requireHistory(): IMessageStore {
+    if (!this.history) throw new Error('Message history is not enabled');
+    return this.history;
+  }
+
+  private recordOutgoing(target: PublicKey | HexString, group: boolean, id: HexString, contentType: ContentType, content: Uint8Array, parsed?: any): void {
+    if (!this.history) return;
+    const conversation = group ? (target as HexString).toLowerCase() : this.toHexKey(target);
+    this.record({ id, conversation, group, direction: 'out', from: this.getPublicKeyHex(), contentType }, content, parsed);
+  }
+
+  // Запись в историю не задерживает отправку и события; ошибка хранилища – только в лог
+  private record(entry: HistoryEntry, content: Uint8Array, parsed?: any): void {
+    if (!this.history) return;
+    const message: NewHistoryMessage = {
+      ...entry,
+      id: entry.id ?? toHex(crypto.getRandomValues(new Uint8Array(16))),
+      timestamp: Date.now(),
+      read: entry.direction === 'out',
+      ...historyBody(entry.contentType, content, parsed),
+    };
+    this.history.add(message).catch(err => this.logger.warn('Failed to save message to history:', err));
+  }
+
+  private requireGroups(): void {
+    if (!this.isConnected()) throw new Error('Not connected');
+    if (!this.serverSupports(CAP_GROUPS) || !this.serverSupports(CAP_ENCRYPTION)) {
+      throw new Error('Server does not support groups');
+    }
+  }
+
+  // Темы. Подписка без подключения запоминается и отправляется при подключении.
+  // Возвращает функцию отписки этого обработчика
+  subscribe(topic: string, handler: TopicHandler): () => void {
+    encodeTopic(topic); // проверка длины
+    let handlers = this.topics.get(topic);
+    if (!handlers) {
+      if (this.isConnected()) {
+        this.requirePubSub();
+        this.messageHandler.sendSubscribe(topic);
+      }
+      handlers = new Set();
+      this.topics.set(topic, handlers);
+    }
+    handlers.add(handler);
+    return () => this.unsubscribe(topic, handler);
+  }
+
+  // Без handler снимаются все обработчики темы
+  unsubscribe(topic: string, handler?: TopicHandler): void {
+    const handlers = this.topics.get(topic);
+    if (!handlers) return;
+    if (handler) {
+      handlers.delete(handler);
+      if (handlers.size > 0) return;
+    }
+    this.topics.delete(topic);
+    if (this.isConnected() && this.serverSupports(CAP_PUBSUB)) {
+      this.messageHandler.sendUnsubscribe(topic);
+    }
+  }
+
+  getSubscriptions(): string[] {
+    return Array.from(this.topics.keys());
+  }
+
+  // Строка – TEXT, Uint8Array – RAW, остальное – JSON. Публикация подписана, но не зашифрована;
+  // подписчики на любом ретрансляторе получают её, только если подключены в момент публикации
+  publish(topic: string, data: string | Uint8Array | object): HexString {
+    if (!this.isConnected()) throw new Error('Not connected');
+    this.requirePubSub();
+    if (typeof data === 'string') {
+      return this.messageHandler.sendPublish(topic, new TextEncoder().encode(data), ContentType.TEXT);
+    }
+    if (data instanceof Uint8Array) {
+      return this.messageHandler.sendPublish(topic, data, ContentType.RAW);
     }
-    this.messageHandler.sendSigned(targetBytes, content, contentType);
+    return this.messageHandler.sendPublish(topic, new TextEncoder().encode(JSON.stringify(data)), ContentType.JSON);
+  }
+
+  private requirePubSub(): void {
+    if (!this.serverSupports(CAP_PUBSUB)) throw new Error('Server does not support topics');
+  }
+
+  private toPublicKey(target: PublicKey | HexString): PublicKey {
+    if (typeof target !== 'string') return target;
+    if (!/^[0-9a-fA-F]{64}$/.test(target)) throw new Error('Invalid hex key');
+    return new Uint8Array(target.match(/.{2}/g)!.map(b => parseInt(b, 16)));
+  }
+
+  private toHexKey(target: PublicKey | HexString): HexString {
+    return toHex(this.toPublicKey(target));
+  }
+
+  private send(target: PublicKey | HexString, content: Uint8Array, contentType: ContentType = ContentType.RAW): HexString {
+    const targetBytes = this.toPublicKey(target);
+    this.sendProfileTo(targetBytes);
+    return this.deliver(targetBytes, content, contentType);
+  }
+
+  private sendProfileTo(target: PublicKey): void {
+    try {
+      this.profiles.ensureSent(target);
+    } catch (err) {
+      this.logger.warn('Failed to send profile:', err);
+    }
+  }
+
+  private deliver(targetBytes: PublicKey, content: Uint8Array, contentType: ContentType): HexString {
+    if (this.encryption) {
+      // Ретранслятор без CAP_ENCRYPTION не знает ENCRYPTED_DATA; молча слать открытый текст нельзя
+      if (!this.serverSupports(CAP_ENCRYPTION)) {
+        throw new Error('Server does not support encrypted messages');
+      }
+      return this.messageHandler.sendEncrypted(targetBytes, content, contentType);
+    }
+    return this.messageHandler.sendSigned(targetBytes, content, contentType);
+  }
+
+  // Версия протокола и возможности, согласованные с текущим сервером; null – нет сессии
+  getNegotiatedProtocol(): Negotiated | null {
+    return this.messageHandler.getNegotiated();
+  }
+
+  // Ключ текущего сервера, проверенный в рукопожатии
+  getServerKey(): HexString | null {
+    const key = this.messageHandler.getServerKey();
+    return key ? toHex(key) : null;
+  }
+
+  async forgetServerKey(address: string): Promise<void> {
+    await this.serverManager.forgetPinnedKey(address);
+  }
+
+  serverSupports(capability: number): boolean {
+    return ((this.messageHandler.getNegotiated()?.capabilities ?? 0) & capability) !== 0;
   }
 
   async requestServerList(): Promise<void> {
@@ -1,5 +1,6 @@
 import { Frame, encodeFrame, decodeFrame } from '../../shared/protocol';
 import { TypedEventEmitter, EventMap } from './events';
+import { Logger, createConsoleLogger } from './logger';
 
 export interface ConnectionEvents extends EventMap {
   open: [];
@@ -23,17 +24,25 @@ export class WebSocketConnectionManager
   implements IConnectionManager
 {
   private ws: WebSocket | null = null;
+  // сокет текущей попытки (открывающийся или открытый); события прежних сокетов игнорируются
+  private attempt: WebSocket | null = null;
   private connectionPromise: Promise<void> | null = null;
 
+  constructor(private logger: Logger = createConsoleLogger()) {
+    super();
+  }
+
   connect(url: string): Promise<void> {
     if (this.connectionPromise) return this.connectionPromise;
 
     this.connectionPromise = new Promise((resolve, reject) => {
       const ws = new WebSocket(url);
       ws.binaryType = 'arraybuffer';
+      this.attempt = ws;
 
       ws.onopen = () => {
-        console.log('🔌 WebSocket opened');
+        if (this.attempt !== ws) return;
+        this.logger.info(`WebSocket opened: ${url}`);
         this.ws = ws;
         this.emit('open');
         resolve();
@@ -41,24 +50,33 @@ export class WebSocketConnectionManager
 
       ws.onmessage = (event) => {
         try {
-          console.log('📩 Raw message received, type:', typeof event.data, 'size:', event.data.byteLength);
           const frame = decodeFrame(event.data as ArrayBuffer);
-          console.log('📦 Frame decoded, type:', frame.type);
+          this.logger.debug(`Received frame type ${frame.type}, ${event.data.byteLength} bytes`);
           this.emit('frame', frame);
         } catch (err) {
-          console.error('Failed to decode frame', err);
+          this.logger.warn('Failed to decode frame', err);
         }
       };
 
       ws.onerror = () => {
         const error = new Error('WebSocket connection error');
-        console.error('❌ WebSocket error');
+        this.logger.error(`WebSocket error: ${url}`);
+        // Ошибка устаревшего сокета прошлой попытки не касается текущей
+        if (this.attempt !== ws) {
+          reject(error);
+          return;
+        }
+        // Соединение так и не открылось: следующий connect() должен начать новую попытку,
+        // не дожидаясь onclose
+        if (this.ws !== ws) this.connectionPromise = null;
         this.emit('error', error);
         reject(error);
       };
 
       ws.onclose = (event) => {
-        console.log('🔌 WebSocket closed, code:', event.code, 'reason:', event.reason);
+        this.logger.info(`WebSocket closed: ${url}, code ${event.code}`, event.reason);
+        if (this.attempt !== ws) return; // закрылся устаревший сокет прошлой попытки
+        this.attempt = null;
         this.ws = null;
         this.connectionPromise = null;
         this.emit('close', event.code, event.reason);
@@ -78,10 +96,9 @@ export class WebSocketConnectionManager
 
   send(frame: Frame): void {
     if (!this.ws || this.ws.readyState !== WebSocket.OPEN) {
-      console.error('❌ WebSocket is not open, cannot send');
       throw new Error('WebSocket is not open');
     }
-    console.log('📤 Sending frame type:', frame.type);
+    this.logger.debug(`Sending frame type ${frame.type}`);
     this.ws.send(encodeFrame(frame));
   }
 
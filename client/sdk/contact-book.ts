@@ -0,0 +1,131 @@
+import { PublicKey, HexString } from './types';
+import { IStorage } from './storage';
+import { Logger, createConsoleLogger } from './logger';
+
+// Контакты: псевдоним, отметка о проверке ключа, блокировка, время последнего сообщения
+// и сервер, через который собеседник обычно доступен. Сообщения заблокированных ключей
+// отбрасываются до разбора и событий; в режиме contactsOnly личные сообщения (вместе с файлами,
+// приглашениями в группы и карточками профиля) принимаются только от контактов.
+// Групповые сообщения и публикации по темам этим режимом не ограничиваются – только блокировкой
+
+export interface Contact {
+  key: HexString;
+  alias?: string;
+  verified: boolean; // ключ сверен с собеседником по независимому каналу
+  blocked: boolean;
+  lastSeen?: number; // время последнего принятого сообщения, мс
+  preferredServer?: string;
+  addedAt: number;
+}
+
+export type ContactChanges = Partial<Pick<Contact, 'alias' | 'verified' | 'blocked' | 'preferredServer'>>;
+
+const STORAGE_KEY = 'sdk:contacts';
+export const MAX_ALIAS_LENGTH = 64;
+// lastSeen меняется с каждым сообщением; в хранилище пишем не чаще раза в минуту на контакт
+const LAST_SEEN_SAVE_INTERVAL_MS = 60 * 1000;
+
+function toHex(bytes: Uint8Array): HexString {
+  return Array.from(bytes).map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+function validate(changes: ContactChanges): void {
+  if (changes.alias !== undefined && changes.alias.length > MAX_ALIAS_LENGTH) {
+    throw new Error(`Alias must be at most ${MAX_ALIAS_LENGTH} characters`);
+  }
+}
+
+export class ContactBook {
+  private contacts = new Map<HexString, Contact>();
+  // контакт → lastSeen, записанный в хранилище последним
+  private savedLastSeen = new Map<HexString, number>();
+
+  constructor(
+    private storage: IStorage,
+    public contactsOnly = false,
+    private logger: Logger = createConsoleLogger()
+  ) {}
+
+  async load(): Promise<void> {
+    const saved = await this.storage.getItem(STORAGE_KEY);
+    this.contacts = new Map(Object.entries(saved ? JSON.parse(saved) : {}));
+    this.savedLastSeen = new Map(Array.from(this.contacts, ([key, contact]) => [key, contact.lastSeen ?? 0]));
+  }
+
+  list(): Contact[] {
+    return Array.from(this.contacts.values(), contact => ({ ...contact }));
+  }
+
+  get(key: HexString): Contact | null {
+    const contact = this.contacts.get(key);
+    return contact ? { ...contact } : null;
+  }
+
+  // Добавляет контакт или меняет настройки существующего. Пустая строка убирает alias / preferredServer
+  async set(key: HexString, changes: ContactChanges = {}): Promise<Contact> {
+    validate(changes);
+    const current = this.contacts.get(key) ?? { key, verified: false, blocked: false, addedAt: Date.now() };
+    const next: Contact = { ...current, ...changes, key };
+    if (next.alias === '') delete next.alias;
+    if (next.preferredServer === '') delete next.preferredServer;
+    const previous = this.contacts.get(key);
+    this.contacts.set(key, next);
+    try {
+      await this.save();
+    } catch (err) {
+      // Не сохранилось – в памяти остаётся то же, что в хранилище
+      if (previous) this.contacts.set(key, previous);
+      else this.contacts.delete(key);
+      throw err;
+    }
+    return { ...next };
+  }
+
+  async update(key: HexString, changes: ContactChanges): Promise<Contact> {
+    if (!this.contacts.has(key)) throw new Error('Unknown contact');
+    return this.set(key, changes);
+  }
+
+  // Удаление снимает и блокировку
+  async remove(key: HexString): Promise<boolean> {
+    const previous = this.contacts.get(key);
+    if (!previous) return false;
+    this.contacts.delete(key);
+    try {
+      await this.save();
+    } catch (err) {
+      this.contacts.set(key, previous);
+      throw err;
+    }
+    this.savedLastSeen.delete(key);
+    return true;
+  }
+
+  isBlocked(key: HexString): boolean {
+    return this.contacts.get(key)?.blocked ?? false;
+  }
+
+  // direct – личное сообщение (на него действует contactsOnly), иначе групповое или публикация
+  accepts(from: PublicKey, direct: boolean): boolean {
+    const contact = this.contacts.get(toHex(from));
+    if (contact) return !contact.blocked;
+    return !(direct && this.contactsOnly);
+  }
+
+  // Принято проверенное сообщение от собеседника
+  touch(from: PublicKey): void {
+    const key = toHex(from);
+    const contact = this.contacts.get(key);
+    if (!contact) return;
+    const now = Date.now();
+    contact.lastSeen = now;
+    if (now - (this.savedLastSeen.get(key) ?? 0) < LAST_SEEN_SAVE_INTERVAL_MS) return;
+    this.save().catch(err => this.logger.warn('Failed to save contacts:', err));
+  }
+
+  private async save(): Promise<void> {
+    const saved = Array.from(this.contacts, ([key, contact]) => [key, contact.lastSeen ?? 0] as const);
+    await this.storage.setItem(STORAGE_KEY, JSON.stringify(Object.fromEntries(this.contacts)));
+    saved.forEach(([key, lastSeen]) => this.savedLastSeen.set(key, lastSeen));
+  }
+}
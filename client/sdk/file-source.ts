@@ -0,0 +1,32 @@
+// Источник данных для передачи файла по частям: части читаются по мере отправки,
+// файл целиком в память не загружается. Blob – в браузере, Uint8Array/Buffer – где угодно,
+// файл на диске – через pathSource из client/sdk/node
+export interface FileSource {
+  readonly size: number;
+  read(start: number, end: number): Promise<Uint8Array>;
+}
+
+export function blobSource(blob: Blob): FileSource {
+  return {
+    size: blob.size,
+    read: async (start, end) => new Uint8Array(await blob.slice(start, end).arrayBuffer()),
+  };
+}
+
+export function bytesSource(bytes: Uint8Array): FileSource {
+  return {
+    size: bytes.length,
+    read: async (start, end) => bytes.subarray(start, end),
+  };
+}
+
+export function isFileSource(value: unknown): value is FileSource {
+  return typeof value === 'object' && value !== null &&
+    typeof (value as FileSource).size === 'number' && typeof (value as FileSource).read === 'function';
+}
+
+export function toFileSource(file: Blob | Uint8Array | FileSource): FileSource {
+  if (file instanceof Uint8Array) return bytesSource(file);
+  if (isFileSource(file)) return file;
+  return blobSource(file);
+}
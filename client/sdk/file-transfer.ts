@@ -0,0 +1,482 @@
+import { SHA256 } from '@stablelib/sha256';
+import { PublicKey, HexString, ContentType, DeliveryStatus } from './types';
+import { TypedEventEmitter, EventMap } from './events';
+import { Logger, createConsoleLogger } from './logger';
+import { FileSource } from './file-source';
+
+// Передача файлов по частям поверх подписанных сообщений:
+//   FILE_MANIFEST – JSON с описанием файла,
+//   FILE_CHUNK    – id(16) | index(4) | данные,
+//   FILE_ACK      – id(16) | nextIndex(4) | статус(1); nextIndex – первая недостающая часть.
+// Отправитель держит в полёте не больше WINDOW частей; после переподключения заново шлёт
+// манифест, получатель отвечает ACK_RESUME со своим nextIndex, и передача продолжается с него.
+
+export interface FileManifest {
+  id: HexString;
+  name: string;
+  size: number;
+  hash: HexString; // SHA-256 всего файла
+  chunkSize: number;
+  chunkCount: number;
+}
+
+export type TransferDirection = 'send' | 'receive';
+
+export interface FileTransferEvents extends EventMap {
+  progress: [transferId: HexString, direction: TransferDirection, transferred: number, total: number];
+  sent: [transferId: HexString];
+  received: [from: PublicKey, transferId: HexString, name: string, data: Uint8Array];
+  failed: [transferId: HexString, error: Error];
+}
+
+// Ограничения получателя: части файла держатся в памяти до сборки, поэтому размер файла
+// и число одновременных входящих передач ограничены. Отправитель не повторяет манифест
+// бесконечно: каждый повтор к получателю не в сети – ещё один кадр в его почтовом ящике
+export interface FileTransferLimits {
+  maxFileSize: number;       // больший файл отклоняется по манифесту
+  maxIncoming: number;       // незавершённых входящих передач; манифест сверх предела игнорируется,
+                             // отправитель повторит его по таймауту
+  idleTimeoutMs: number;     // входящая передача без новых частей столько времени забывается
+  completedTtlMs: number;    // сколько помним завершённую передачу, чтобы ответить на повторный манифест
+  maxSendRetries: number;    // повторов манифеста подряд без ответа, после них отправка – failed
+  sendTimeoutMs: number;     // отправка, не завершённая за это время (получатель так и не появился), – failed
+}
+
+export const DEFAULT_FILE_TRANSFER_LIMITS: FileTransferLimits = {
+  maxFileSize: 100 * 1024 * 1024,
+  maxIncoming: 8,
+  idleTimeoutMs: 2 * 60 * 1000,
+  completedTtlMs: 10 * 60 * 1000,
+  maxSendRetries: 8,
+  sendTimeoutMs: 24 * 60 * 60 * 1000,
+};
+
+// Отправка содержимого собеседнику (подписанное или зашифрованное – решает Client); возвращает msgId
+export type ContentSender = (target: PublicKey, content: Uint8Array, contentType: ContentType) => HexString;
+
+const ACK_PROGRESS = 0;
+const ACK_RESUME = 1;
+const ACK_COMPLETE = 2;
+const ACK_FAILED = 3;
+
+const DEFAULT_CHUNK_SIZE = 64 * 1024;
+const MAX_CHUNK_SIZE = 1024 * 1024;
+const WINDOW = 8;
+const STALL_TIMEOUT = 15000;
+
+interface OutgoingTransfer {
+  target: PublicKey;
+  file: FileSource;
+  manifest: FileManifest;
+  acked: number;      // получатель подтвердил части [0, acked)
+  nextToSend: number;
+  pumping: boolean;
+  paused: boolean;
+  stallTimer: ReturnType<typeof setTimeout> | null;
+  deadlineTimer: ReturnType<typeof setTimeout> | null;
+  retries: number;                  // манифестов подряд без ответа
+  manifestMsgId: HexString | null;  // msgId последнего манифеста – по нему узнаём квитанцию QUEUED
+  queued: boolean;                  // манифест ждёт получателя в почтовом ящике – не повторяем
+}
+
+interface IncomingTransfer {
+  from: PublicKey;
+  manifest: FileManifest;
+  chunks: Map<number, Uint8Array>;
+  nextIndex: number;
+  received: number; // байт в частях [0, nextIndex)
+  done: boolean;
+  expiryTimer: ReturnType<typeof setTimeout> | null; // простой незавершённой или срок хранения завершённой
+}
+
+function toHex(bytes: Uint8Array): HexString {
+  return Array.from(bytes).map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+function fromHex(hex: HexString): Uint8Array {
+  return new Uint8Array((hex.match(/.{2}/g) || []).map(b => parseInt(b, 16)));
+}
+
+// В Node таймеры передач не должны держать процесс; в браузере unref нет
+function unref(timer: ReturnType<typeof setTimeout>): ReturnType<typeof setTimeout> {
+  (timer as { unref?: () => void }).unref?.();
+  return timer;
+}
+
+export class FileTransferManager extends TypedEventEmitter<FileTransferEvents> {
+  private outgoing = new Map<HexString, OutgoingTransfer>();
+  private incoming = new Map<string, IncomingTransfer>(); // ключ: senderHex:id
+  private limits: FileTransferLimits;
+
+  constructor(
+    private send: ContentSender,
+    private chunkSize = DEFAULT_CHUNK_SIZE,
+    private logger: Logger = createConsoleLogger(),
+    limits: Partial<FileTransferLimits> = {}
+  ) {
+    super();
+    this.limits = { ...DEFAULT_FILE_TRANSFER_LIMITS, ...limits };
+  }
+
+  // Хэширует файл по частям (не загружая его целиком) и отправляет манифест
+  async sendFile(target: PublicKey, file: FileSource, name: string): Promise<HexString> {
+    const hasher = new SHA256();
+    for (let offset = 0; offset < file.size; offset += this.chunkSize) {
+      hasher.update(await file.read(offset, offset + this.chunkSize));
+    }
+    const id = toHex(crypto.getRandomValues(new Uint8Array(16)));
+    const manifest: FileManifest = {
+      id,
+      name,
+      size: file.size,
+      hash: toHex(hasher.digest()),
+      chunkSize: this.chunkSize,
+      chunkCount: Math.ceil(file.size / this.chunkSize),
+    };
+    const transfer: OutgoingTransfer = {
+      target,
+      file,
+      manifest,
+      acked: 0,
+      nextToSend: 0,
+      pumping: false,
+      paused: false,
+      stallTimer: null,
+      deadlineTimer: null,
+      retries: 0,
+      manifestMsgId: null,
+      queued: false,
+    };
+    transfer.deadlineTimer = unref(setTimeout(() => {
+      this.failOutgoing(transfer, new Error('File transfer timed out'));
+    }, this.limits.sendTimeoutMs));
+    this.outgoing.set(id, transfer);
+    this.sendManifest(transfer);
+    return id;
+  }
+
+  cancel(transferId: HexString): void {
+    const transfer = this.outgoing.get(transferId);
+    if (!transfer) return;
+    this.failOutgoing(transfer, new Error('Transfer cancelled'));
+  }
+
+  // Соединение восстановлено: продолжаем все незавершённые отправки. Манифест, который
+  // уже ждёт получателя в почтовом ящике, не повторяем – получатель ответит, когда появится
+  resumeAll(): void {
+    for (const transfer of this.outgoing.values()) {
+      transfer.paused = false;
+      if (!transfer.queued) this.sendManifest(transfer);
+    }
+  }
+
+  // Квитанция ретранслятора по msgId кадра
+  handleDeliveryStatus(msgId: HexString, status: DeliveryStatus): void {
+    if (status !== DeliveryStatus.QUEUED) return;
+    for (const transfer of this.outgoing.values()) {
+      if (transfer.manifestMsgId !== msgId) continue;
+      this.logger.debug(`Receiver of file ${transfer.manifest.id} is offline, waiting for it`);
+      transfer.queued = true;
+      this.clearStallTimer(transfer);
+    }
+  }
+
+  // Соединение потеряно: перестаём отправлять до resumeAll()
+  pauseAll(): void {
+    for (const transfer of this.outgoing.values()) {
+      transfer.paused = true;
+      this.clearStallTimer(transfer);
+    }
+  }
+
+  handleContent(from: PublicKey, contentType: ContentType, content: Uint8Array): void {
+    switch (contentType) {
+      case ContentType.FILE_MANIFEST:
+        this.handleManifest(from, content);
+        break;
+      case ContentType.FILE_CHUNK:
+        this.handleChunk(from, content);
+        break;
+      case ContentType.FILE_ACK:
+        this.handleAck(from, content);
+        break;
+    }
+  }
+
+  // --- отправитель ---
+
+  private sendManifest(transfer: OutgoingTransfer): void {
+    const json = JSON.stringify(transfer.manifest);
+    const msgId = this.trySend(transfer, new TextEncoder().encode(json), ContentType.FILE_MANIFEST);
+    if (msgId === null) return;
+    transfer.manifestMsgId = msgId;
+    this.armStallTimer(transfer);
+  }
+
+  private async pump(transfer: OutgoingTransfer): Promise<void> {
+    if (transfer.pumping) return;
+    transfer.pumping = true;
+    try {
+      const { manifest } = transfer;
+      while (
+        !transfer.paused &&
+        this.outgoing.has(manifest.id) &&
+        transfer.nextToSend < manifest.chunkCount &&
+        transfer.nextToSend < transfer.acked + WINDOW
+      ) {
+        const index = transfer.nextToSend;
+        const start = index * manifest.chunkSize;
+        const data = await transfer.file.read(start, start + manifest.chunkSize);
+        const content = new Uint8Array(16 + 4 + data.length);
+        content.set(fromHex(manifest.id), 0);
+        new DataView(content.buffer).setUint32(16, index, false);
+        content.set(data, 16 + 4);
+        if (this.trySend(transfer, content, ContentType.FILE_CHUNK) === null) break;
+        transfer.nextToSend = Math.max(transfer.nextToSend, index + 1);
+      }
+    } catch (err) {
+      this.failOutgoing(transfer, err instanceof Error ? err : new Error(String(err)));
+    } finally {
+      transfer.pumping = false;
+    }
+  }
+
+  // msgId отправленного кадра; null – нет соединения, ждём resumeAll()
+  private trySend(transfer: OutgoingTransfer, content: Uint8Array, contentType: ContentType): HexString | null {
+    try {
+      return this.send(transfer.target, content, contentType);
+    } catch (err) {
+      this.logger.warn('File transfer paused:', err);
+      transfer.paused = true;
+      this.clearStallTimer(transfer);
+      return null;
+    }
+  }
+
+  private handleAck(from: PublicKey, content: Uint8Array): void {
+    if (content.length < 16 + 4 + 1) return;
+    const id = toHex(content.slice(0, 16));
+    const transfer = this.outgoing.get(id);
+    if (!transfer || toHex(transfer.target) !== toHex(from)) return;
+
+    const nextIndex = new DataView(content.buffer, content.byteOffset).getUint32(16, false);
+    const status = content[16 + 4];
+    const { manifest } = transfer;
+
+    if (status === ACK_FAILED) {
+      this.failOutgoing(transfer, new Error('Receiver rejected the file'));
+      return;
+    }
+    transfer.retries = 0;
+    transfer.queued = false;
+    if (status === ACK_COMPLETE) {
+      this.finishOutgoing(transfer);
+      this.emit('progress', id, 'send', manifest.size, manifest.size);
+      this.emit('sent', id);
+      return;
+    }
+
+    const acked = Math.min(nextIndex, manifest.chunkCount);
+    if (status === ACK_RESUME) {
+      // Ответ на манифест: всё после nextIndex получатель не видел
+      transfer.acked = acked;
+      transfer.nextToSend = acked;
+    } else if (acked > transfer.acked) {
+      transfer.acked = acked;
+      transfer.nextToSend = Math.max(transfer.nextToSend, acked);
+    }
+    this.emit('progress', id, 'send', Math.min(transfer.acked * manifest.chunkSize, manifest.size), manifest.size);
+    this.armStallTimer(transfer);
+    this.pump(transfer);
+  }
+
+  // Нет подтверждений слишком долго – переспрашиваем получателя манифестом, но не больше maxSendRetries раз подряд
+  private armStallTimer(transfer: OutgoingTransfer): void {
+    this.clearStallTimer(transfer);
+    transfer.stallTimer = unref(setTimeout(() => {
+      transfer.stallTimer = null;
+      if (transfer.paused || transfer.queued) return;
+      if (++transfer.retries > this.limits.maxSendRetries) {
+        this.failOutgoing(transfer, new Error('Receiver did not respond'));
+        return;
+      }
+      this.sendManifest(transfer);
+    }, STALL_TIMEOUT));
+  }
+
+  private clearStallTimer(transfer: OutgoingTransfer): void {
+    if (transfer.stallTimer) {
+      clearTimeout(transfer.stallTimer);
+      transfer.stallTimer = null;
+    }
+  }
+
+  private finishOutgoing(transfer: OutgoingTransfer): void {
+    this.clearStallTimer(transfer);
+    if (transfer.deadlineTimer) {
+      clearTimeout(transfer.deadlineTimer);
+      transfer.deadlineTimer = null;
+    }
+    this.outgoing.delete(transfer.manifest.id);
+  }
+
+  private failOutgoing(transfer: OutgoingTransfer, error: Error): void {
+    if (this.outgoing.get(transfer.manifest.id) !== transfer) return;
+    this.finishOutgoing(transfer);
+    this.emit('failed', transfer.manifest.id, error);
+  }
+
+  // --- получатель ---
+
+  private handleManifest(from: PublicKey, content: Uint8Array): void {
+    let manifest: FileManifest;
+    try {
+      manifest = JSON.parse(new TextDecoder().decode(content));
+    } catch {
+      this.logger.warn('Malformed file manifest');
+      return;
+    }
+    if (!this.isValidManifest(manifest)) {
+      this.logger.warn('Invalid file manifest', manifest);
+      return;
+    }
+
+    const key = `${toHex(from)}:${manifest.id}`;
+    let transfer = this.incoming.get(key);
+    if (!transfer) {
+      transfer = { from, manifest, chunks: new Map(), nextIndex: 0, received: 0, done: false, expiryTimer: null };
+      if (manifest.size > this.limits.maxFileSize) {
+        this.logger.warn(`Rejected file ${manifest.id}: ${manifest.size} bytes exceeds limit of ${this.limits.maxFileSize}`);
+        this.sendAck(transfer, ACK_FAILED);
+        return;
+      }
+      if (this.activeIncoming() >= this.limits.maxIncoming) {
+        this.logger.warn(`Ignoring file ${manifest.id}: ${this.limits.maxIncoming} incoming transfers in progress`);
+        return;
+      }
+      this.incoming.set(key, transfer);
+    }
+    if (!transfer.done) {
+      this.armExpiry(key, transfer, this.limits.idleTimeoutMs);
+    }
+    if (transfer.done) {
+      this.sendAck(transfer, ACK_COMPLETE);
+    } else if (manifest.chunkCount === 0) {
+      this.complete(key, transfer);
+    } else {
+      this.sendAck(transfer, ACK_RESUME);
+    }
+  }
+
+  private isValidManifest(m: FileManifest): boolean {
+    return (
+      typeof m === 'object' && m !== null &&
+      typeof m.id === 'string' && /^[0-9a-f]{32}$/.test(m.id) &&
+      typeof m.name === 'string' &&
+      typeof m.hash === 'string' && /^[0-9a-f]{64}$/.test(m.hash) &&
+      Number.isInteger(m.size) && m.size >= 0 &&
+      Number.isInteger(m.chunkSize) && m.chunkSize > 0 && m.chunkSize <= MAX_CHUNK_SIZE &&
+      m.chunkCount === Math.ceil(m.size / m.chunkSize)
+    );
+  }
+
+  private handleChunk(from: PublicKey, content: Uint8Array): void {
+    if (content.length < 16 + 4) return;
+    const key = `${toHex(from)}:${toHex(content.slice(0, 16))}`;
+    const transfer = this.incoming.get(key);
+    if (!transfer || transfer.done) return;
+
+    const { manifest } = transfer;
+    const index = new DataView(content.buffer, content.byteOffset).getUint32(16, false);
+    const data = content.slice(16 + 4);
+    const expectedLength = index === manifest.chunkCount - 1
+      ? manifest.size - index * manifest.chunkSize
+      : manifest.chunkSize;
+    if (index >= manifest.chunkCount || data.length !== expectedLength) {
+      this.logger.warn(`Invalid chunk ${index} for transfer ${manifest.id}`);
+      return;
+    }
+
+    if (index >= transfer.nextIndex && !transfer.chunks.has(index)) {
+      transfer.chunks.set(index, data);
+    }
+    this.armExpiry(key, transfer, this.limits.idleTimeoutMs);
+    while (transfer.chunks.has(transfer.nextIndex)) {
+      transfer.received += transfer.chunks.get(transfer.nextIndex)!.length;
+      transfer.nextIndex++;
+    }
+    this.emit('progress', manifest.id, 'receive', transfer.received, manifest.size);
+
+    if (transfer.nextIndex === manifest.chunkCount) {
+      this.complete(key, transfer);
+    } else {
+      this.sendAck(transfer, ACK_PROGRESS);
+    }
+  }
+
+  // Все части получены: собираем файл и сверяем хэш
+  private complete(key: string, transfer: IncomingTransfer): void {
+    const { manifest } = transfer;
+    const data = new Uint8Array(manifest.size);
+    for (let i = 0; i < manifest.chunkCount; i++) {
+      data.set(transfer.chunks.get(i)!, i * manifest.chunkSize);
+    }
+    transfer.chunks.clear();
+    transfer.done = true;
+
+    const hasher = new SHA256();
+    hasher.update(data);
+    if (toHex(hasher.digest()) !== manifest.hash) {
+      this.forgetIncoming(key, transfer);
+      this.sendAck(transfer, ACK_FAILED);
+      this.emit('failed', manifest.id, new Error('File hash mismatch'));
+      return;
+    }
+
+    // От завершённой передачи остаётся только манифест – на случай повторного манифеста от отправителя
+    this.armExpiry(key, transfer, this.limits.completedTtlMs);
+    this.sendAck(transfer, ACK_COMPLETE);
+    this.emit('received', transfer.from, manifest.id, manifest.name, data);
+  }
+
+  private activeIncoming(): number {
+    let active = 0;
+    for (const transfer of this.incoming.values()) {
+      if (!transfer.done) active++;
+    }
+    return active;
+  }
+
+  private armExpiry(key: string, transfer: IncomingTransfer, delayMs: number): void {
+    if (transfer.expiryTimer) clearTimeout(transfer.expiryTimer);
+    transfer.expiryTimer = unref(setTimeout(() => {
+      transfer.expiryTimer = null;
+      this.forgetIncoming(key, transfer);
+      if (!transfer.done) {
+        this.logger.warn(`Incoming file ${transfer.manifest.id} stalled, dropping ${transfer.chunks.size} buffered chunks`);
+        this.emit('failed', transfer.manifest.id, new Error('Incoming transfer timed out'));
+      }
+    }, delayMs));
+  }
+
+  private forgetIncoming(key: string, transfer: IncomingTransfer): void {
+    if (transfer.expiryTimer) {
+      clearTimeout(transfer.expiryTimer);
+      transfer.expiryTimer = null;
+    }
+    transfer.chunks.clear();
+    if (this.incoming.get(key) === transfer) this.incoming.delete(key);
+  }
+
+  private sendAck(transfer: IncomingTransfer, status: number): void {
+    const content = new Uint8Array(16 + 4 + 1);
+    content.set(fromHex(transfer.manifest.id), 0);
+    new DataView(content.buffer).setUint32(16, transfer.nextIndex, false);
+    content[16 + 4] = status;
+    try {
+      this.send(transfer.from, content, ContentType.FILE_ACK);
+    } catch (err) {
+      this.logger.warn('Failed to send file ack:', err);
+    }
+  }
+}
@@ -0,0 +1,325 @@
+import { ChaCha20Poly1305, NONCE_LENGTH } from '@stablelib/chacha20poly1305';
+import {
+  GROUP_ID_LENGTH,
+  GROUP_SALT_LENGTH,
+  GroupRoster,
+  decodeGroupRoster,
+  deriveGroupId,
+  encodeGroupRoster,
+  groupAssociatedData,
+  groupRosterSignedData,
+  verifyGroupRoster,
+} from '../../shared/protocol';
+import { PublicKey, HexString, Frame } from './types';
+import { IKeyManager } from './key-manager';
+import { IStorage } from './storage';
+import { TypedEventEmitter, EventMap } from './events';
+import { Logger, createConsoleLogger } from './logger';
+
+// Группы: состав подписывает администратор (см. GroupRoster в shared/protocol), сообщения
+// шифруются общим ключом группы. Каждое изменение состава поднимает версию и меняет ключ;
+// администратор рассылает участникам приглашение GROUP_INVITE – JSON { roster, name, key } –
+// поверх попарного шифрования. Исключённые получают новый состав без ключа.
+// Ретрансляторы видят только состав: кому доставить и кто вправе писать.
+
+export interface GroupInfo {
+  id: HexString;
+  name: string;
+  admin: HexString;
+  members: HexString[];
+  version: number;
+}
+
+export interface GroupManagerEvents extends EventMap {
+  updated: [group: GroupInfo];
+  left: [groupId: HexString];
+}
+
+// Отправка приглашения участнику (только зашифрованным сообщением)
+export type InviteSender = (target: PublicKey, invite: Uint8Array) => void;
+// Публикация состава на текущем ретрансляторе
+export type RosterPublisher = (roster: Uint8Array) => void;
+
+interface GroupInvite {
+  roster: HexString;
+  name: string;
+  key?: HexString;
+}
+
+interface GroupState {
+  name: string;
+  roster: GroupRoster;
+  members: Set<HexString>;
+  keys: Map<number, Uint8Array>; // версия состава → ключ группы
+}
+
+interface StoredGroup {
+  name: string;
+  roster: HexString;
+  keys: Record<string, HexString>;
+}
+
+const STORAGE_KEY = 'sdk:groups';
+const GROUP_KEY_LENGTH = 32;
+// Сколько прежних ключей храним: сообщения, отправленные до смены состава, ещё расшифровываются
+const KEEP_KEYS = 4;
+const MAX_SEEN_MESSAGES = 1000;
+
+function toHex(bytes: Uint8Array): HexString {
+  return Array.from(bytes).map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+function fromHex(hex: HexString): Uint8Array {
+  return new Uint8Array((hex.match(/.{2}/g) || []).map(b => parseInt(b, 16)));
+}
+
+export class GroupManager extends TypedEventEmitter<GroupManagerEvents> {
+  private groups = new Map<HexString, GroupState>();
+  // msgId уже полученных сообщений: копия из почтового ящика после рассылки не выдаётся повторно
+  private seenMessages = new Set<HexString>();
+
+  constructor(
+    private keyManager: IKeyManager,
+    private storage: IStorage,
+    private sendInvite: InviteSender,
+    private publishRoster: RosterPublisher,
+    private logger: Logger = createConsoleLogger()
+  ) {
+    super();
+  }
+
+  async load(): Promise<void> {
+    const saved = await this.storage.getItem(STORAGE_KEY);
+    if (!saved) return;
+    const stored: Record<HexString, StoredGroup> = JSON.parse(saved);
+    for (const [id, group] of Object.entries(stored)) {
+      const roster = decodeGroupRoster(fromHex(group.roster));
+      const keys = new Map(Object.entries(group.keys).map(([version, key]) => [Number(version), fromHex(key)] as const));
+      this.groups.set(id, { name: group.name, roster, members: this.memberSet(roster), keys });
+    }
+  }
+
+  list(): GroupInfo[] {
+    return Array.from(this.groups.keys(), id => this.info(id)!);
+  }
+
+  info(groupId: HexString): GroupInfo | null {
+    const group = this.groups.get(groupId);
+    if (!group) return null;
+    return {
+      id: groupId,
+      name: group.name,
+      admin: toHex(group.roster.admin),
+      members: Array.from(group.members),
+      version: group.roster.version,
+    };
+  }
+
+  // Администратор – текущий ключ; он всегда в составе
+  async create(name: string, members: PublicKey[]): Promise<GroupInfo> {
+    const admin = this.keyManager.getPublicKey();
+    const salt = crypto.getRandomValues(new Uint8Array(GROUP_SALT_LENGTH));
+    const groupId = toHex(deriveGroupId(admin, salt));
+    const state: GroupState = {
+      name,
+      roster: { groupId: fromHex(groupId), admin, salt, version: 0, members: [], signature: new Uint8Array(64) },
+      members: new Set(),
+      keys: new Map(),
+    };
+    this.groups.set(groupId, state);
+    await this.applyMembers(groupId, state, new Set([toHex(admin), ...members.map(toHex)]));
+    this.logger.info(`Created group ${groupId.slice(0, 8)} with ${state.members.size} members`);
+    return this.info(groupId)!;
+  }
+
+  async addMembers(groupId: HexString, members: PublicKey[]): Promise<GroupInfo> {
+    const state = this.requireAdmin(groupId);
+    await this.applyMembers(groupId, state, new Set([...state.members, ...members.map(toHex)]));
+    return this.info(groupId)!;
+  }
+
+  async removeMembers(groupId: HexString, members: PublicKey[]): Promise<GroupInfo> {
+    const state = this.requireAdmin(groupId);
+    const removed = new Set(members.map(toHex));
+    if (removed.has(toHex(state.roster.admin))) throw new Error('Group admin cannot be removed');
+    await this.applyMembers(groupId, state, new Set([...state.members].filter(member => !removed.has(member))));
+    return this.info(groupId)!;
+  }
+
+  // После подключения к ретранслятору: он мог не знать наших групп (перезапуск, другой сервер)
+  publishAll(): void {
+    for (const group of this.groups.values()) {
+      this.publishRoster(encodeGroupRoster(group.roster));
+    }
+  }
+
+  // Содержимое для GROUP_DATA: [groupId, версия ключа, nonce + шифртекст] под последним ключом группы
+  seal(groupId: HexString, plaintext: Uint8Array): Uint8Array {
+    const group = this.groups.get(groupId);
+    if (!group) throw new Error(`Unknown group ${groupId}`);
+    const version = group.roster.version;
+    const key = group.keys.get(version);
+    if (!key) throw new Error(`No key for group ${groupId} version ${version}`);
+
+    const senderId = this.keyManager.getPublicKey();
+    const nonce = crypto.getRandomValues(new Uint8Array(NONCE_LENGTH));
+    const ciphertext = new ChaCha20Poly1305(key).seal(nonce, plaintext, groupAssociatedData(senderId, group.roster.groupId, version));
+    const payload = new Uint8Array(GROUP_ID_LENGTH + 4 + NONCE_LENGTH + ciphertext.length);
+    payload.set(group.roster.groupId, 0);
+    new DataView(payload.buffer).setUint32(GROUP_ID_LENGTH, version >>> 0, false);
+    payload.set(nonce, GROUP_ID_LENGTH + 4);
+    payload.set(ciphertext, GROUP_ID_LENGTH + 4 + NONCE_LENGTH);
+    return payload;
+  }
+
+  // Расшифровка GROUP_DATA; null – чужая группа, не участник, повтор или не расшифровалось
+  open(frame: Frame): { groupId: HexString; plaintext: Uint8Array } | null {
+    const payload = frame.payload;
+    if (payload.length < GROUP_ID_LENGTH + 4 + NONCE_LENGTH) return null;
+    const groupId = toHex(payload.slice(0, GROUP_ID_LENGTH));
+    const group = this.groups.get(groupId);
+    if (!group) {
+      this.logger.debug(`Message for unknown group ${groupId.slice(0, 8)}`);
+      return null;
+    }
+    if (!group.members.has(toHex(frame.senderId))) {
+      this.logger.warn(`Group ${groupId.slice(0, 8)} message from non-member ${toHex(frame.senderId).slice(0, 8)}`);
+      return null;
+    }
+    const msgIdHex = frame.msgId ? toHex(frame.msgId) : null;
+    if (msgIdHex && this.seenMessages.has(msgIdHex)) return null;
+
+    const version = new DataView(payload.buffer, payload.byteOffset, payload.byteLength).getUint32(GROUP_ID_LENGTH, false);
+    const key = group.keys.get(version);
+    if (!key) {
+      this.logger.warn(`No key for group ${groupId.slice(0, 8)} version ${version}`);
+      return null;
+    }
+    const nonce = payload.slice(GROUP_ID_LENGTH + 4, GROUP_ID_LENGTH + 4 + NONCE_LENGTH);
+    const plaintext = new ChaCha20Poly1305(key).open(
+      nonce,
+      payload.slice(GROUP_ID_LENGTH + 4 + NONCE_LENGTH),
+      groupAssociatedData(frame.senderId, group.roster.groupId, version)
+    );
+    if (!plaintext) {
+      this.logger.warn(`Failed to decrypt group ${groupId.slice(0, 8)} message`);
+      return null;
+    }
+    if (msgIdHex) this.markSeen(msgIdHex);
+    return { groupId, plaintext };
+  }
+
+  // Приглашение принимается только от администратора группы и только с более новым составом
+  async handleInvite(from: PublicKey, content: Uint8Array): Promise<void> {
+    let invite: GroupInvite;
+    let roster: GroupRoster;
+    try {
+      invite = JSON.parse(new TextDecoder().decode(content));
+      roster = decodeGroupRoster(fromHex(invite.roster));
+    } catch {
+      this.logger.warn(`Malformed group invite from ${toHex(from).slice(0, 8)}`);
+      return;
+    }
+    const groupId = toHex(roster.groupId);
+    if (toHex(from) !== toHex(roster.admin) || !verifyGroupRoster(roster, this.keyManager.verify.bind(this.keyManager))) {
+      this.logger.warn(`Rejected group ${groupId.slice(0, 8)} invite from ${toHex(from).slice(0, 8)}`);
+      return;
+    }
+    const current = this.groups.get(groupId);
+    if (current && current.roster.version >= roster.version) return;
+
+    const members = this.memberSet(roster);
+    if (!members.has(this.keyManager.getPublicKeyHex())) {
+      if (!current) return;
+      this.groups.delete(groupId);
+      await this.save();
+      this.logger.info(`Removed from group ${groupId.slice(0, 8)}`);
+      this.emit('left', groupId);
+      return;
+    }
+    if (!invite.key || fromHex(invite.key).length !== GROUP_KEY_LENGTH) {
+      this.logger.warn(`Group ${groupId.slice(0, 8)} invite without key`);
+      return;
+    }
+
+    const keys = current?.keys ?? new Map<number, Uint8Array>();
+    keys.set(roster.version, fromHex(invite.key));
+    this.trimKeys(keys);
+    // Состав применяется сразу: следующий кадр может оказаться сообщением этой группы
+    this.groups.set(groupId, { name: String(invite.name ?? ''), roster, members, keys });
+    const info = this.info(groupId)!;
+    await this.save();
+    this.logger.info(`Group ${groupId.slice(0, 8)} updated to v${roster.version}`);
+    this.emit('updated', info);
+  }
+
+  private requireAdmin(groupId: HexString): GroupState {
+    const state = this.groups.get(groupId);
+    if (!state) throw new Error(`Unknown group ${groupId}`);
+    if (toHex(state.roster.admin) !== this.keyManager.getPublicKeyHex()) {
+      throw new Error('Only the group admin can change members');
+    }
+    return state;
+  }
+
+  // Новый состав: версия + 1, новый ключ, подпись, публикация и приглашения старым и новым участникам
+  private async applyMembers(groupId: HexString, state: GroupState, members: Set<HexString>): Promise<void> {
+    const previous = state.members;
+    const unsigned = {
+      groupId: state.roster.groupId,
+      admin: state.roster.admin,
+      salt: state.roster.salt,
+      version: state.roster.version + 1,
+      members: Array.from(members, fromHex),
+    };
+    const roster: GroupRoster = { ...unsigned, signature: this.keyManager.sign(groupRosterSignedData(unsigned)) };
+    const key = crypto.getRandomValues(new Uint8Array(GROUP_KEY_LENGTH));
+
+    state.roster = roster;
+    state.members = members;
+    state.keys.set(roster.version, key);
+    this.trimKeys(state.keys);
+    await this.save();
+
+    const encoded = encodeGroupRoster(roster);
+    this.publishRoster(encoded);
+    const self = this.keyManager.getPublicKeyHex();
+    for (const member of new Set([...previous, ...members])) {
+      if (member === self) continue;
+      const invite: GroupInvite = { roster: toHex(encoded), name: state.name };
+      if (members.has(member)) invite.key = toHex(key);
+      this.sendInvite(fromHex(member), new TextEncoder().encode(JSON.stringify(invite)));
+    }
+    this.emit('updated', this.info(groupId)!);
+  }
+
+  private memberSet(roster: GroupRoster): Set<HexString> {
+    return new Set(roster.members.map(toHex));
+  }
+
+  private trimKeys(keys: Map<number, Uint8Array>): void {
+    const versions = Array.from(keys.keys()).sort((a, b) => b - a);
+    for (const version of versions.slice(KEEP_KEYS)) {
+      keys.delete(version);
+    }
+  }
+
+  private markSeen(msgIdHex: HexString): void {
+    this.seenMessages.add(msgIdHex);
+    if (this.seenMessages.size > MAX_SEEN_MESSAGES) {
+      this.seenMessages.delete(this.seenMessages.values().next().value!);
+    }
+  }
+
+  private async save(): Promise<void> {
+    const stored: Record<HexString, StoredGroup> = {};
+    for (const [id, group] of this.groups) {
+      stored[id] = {
+        name: group.name,
+        roster: toHex(encodeGroupRoster(group.roster)),
+        keys: Object.fromEntries(Array.from(group.keys, ([version, key]) => [String(version), toHex(key)])),
+      };
+    }
+    await this.storage.setItem(STORAGE_KEY, JSON.stringify(stored));
+  }
+}
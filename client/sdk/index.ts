@@ -4,12 +4,27 @@ export { Ed25519KeyManager } from './key-manager';
 export { WebSocketConnectionManager } from './connection-manager';
 export { LocalServerManager } from './server-manager';
 export { MessageHandler } from './message-handler';
+export { FileTransferManager, DEFAULT_FILE_TRANSFER_LIMITS } from './file-transfer';
+export { GroupManager } from './group-manager';
+export { ProfileManager } from './profile-manager';
+export { ContactBook } from './contact-book';
+export { IndexedDBMessageStore } from './message-store';
+export { blobSource, bytesSource } from './file-source';
 export { TypedEventEmitter } from './events';
-export { ContentType } from './types';
+export { createConsoleLogger, silentLogger } from './logger';
+export { ContentType, DeliveryStatus, CAP_ENCRYPTION, CAP_RECEIPTS, CAP_COMPRESSION, CAP_GROUPS, CAP_PUBSUB, PROTOCOL_VERSION_MIN, PROTOCOL_VERSION_MAX } from './types';
 
+export type { ClientOptions, ReconnectOptions, TopicHandler } from './client';
 export type { IStorage } from './storage';
+export type { Logger, LogLevel } from './logger';
 export type { IKeyManager } from './key-manager';
 export type { IConnectionManager } from './connection-manager';
 export type { IServerManager } from './server-manager';
 export type { IMessageHandler } from './message-handler';
+export type { FileManifest, FileTransferLimits, TransferDirection } from './file-transfer';
+export type { GroupInfo } from './group-manager';
+export type { Profile, ProfileChanges } from './profile-manager';
+export type { Contact, ContactChanges } from './contact-book';
+export type { IMessageStore, HistoryMessage, NewHistoryMessage, HistoryQuery, HistorySearch, ConversationSummary } from './message-store';
+export type { FileSource } from './file-source';
 export type * from './types';
\ No newline at end of file
@@ -1,4 +1,8 @@
-import { generateKeyPairFromSeed, sign, verify } from '@stablelib/ed25519';
+import { generateKeyPairFromSeed, sign, verify, convertPublicKeyToX25519, convertSecretKeyToX25519 } from '@stablelib/ed25519';
+import { sharedKey } from '@stablelib/x25519';
+import { ChaCha20Poly1305, NONCE_LENGTH } from '@stablelib/chacha20poly1305';
+import { HKDF } from '@stablelib/hkdf';
+import { SHA256 } from '@stablelib/sha256';
 import { PublicKey, PrivateKey, Signature, HexString } from './types';
 import { IStorage } from './storage';
 
@@ -7,9 +11,12 @@ export interface IKeyManager {
   getPublicKeyHex(): HexString;
   sign(data: Uint8Array): Signature;
   verify(publicKey: PublicKey, data: Uint8Array, signature: Signature): boolean;
+  encrypt(publicKey: PublicKey, plaintext: Uint8Array, associatedData?: Uint8Array): Uint8Array; // nonce + ciphertext
+  decrypt(publicKey: PublicKey, sealed: Uint8Array, associatedData?: Uint8Array): Uint8Array | null;
   exportKeys(): { publicKey: string; privateKey: string }; // base64
   importKeys(publicKey: string, privateKey: string): Promise<void>;
   load(): Promise<void>;
+  generate(): Promise<void>; // новая пара ключей взамен текущей
 }
 
 function arrayToBase64(arr: Uint8Array): string {
@@ -20,10 +27,14 @@ function base64ToArray(base64: string): Uint8Array {
   return Uint8Array.from(atob(base64), c => c.charCodeAt(0));
 }
 
+const E2E_INFO = new TextEncoder().encode('exvia-e2e-v1');
+
 export class Ed25519KeyManager implements IKeyManager {
   private privateKey: PrivateKey | null = null;
   private publicKey: PublicKey | null = null;
   private readonly storagePrefix: string;
+  // Общие ключи X25519 по hex-ключу собеседника
+  private sharedKeys = new Map<HexString, Uint8Array>();
 
   constructor(private storage: IStorage, storagePrefix = 'sdk') {
     this.storagePrefix = storagePrefix;
@@ -39,18 +50,23 @@ export class Ed25519KeyManager implements IKeyManager {
       this.privateKey = new Uint8Array(JSON.parse(savedPrivateKey));
       this.publicKey = new Uint8Array(JSON.parse(savedPublicKey));
     } else {
-      const seed = crypto.getRandomValues(new Uint8Array(32));
-      const keyPair = generateKeyPairFromSeed(seed);
-      this.privateKey = keyPair.secretKey;
-      this.publicKey = keyPair.publicKey;
-
-      await Promise.all([
-        this.storage.setItem(`${this.storagePrefix}:privateKey`, JSON.stringify(Array.from(this.privateKey))),
-        this.storage.setItem(`${this.storagePrefix}:publicKey`, JSON.stringify(Array.from(this.publicKey)))
-      ]);
+      await this.generate();
     }
   }
 
+  async generate(): Promise<void> {
+    const seed = crypto.getRandomValues(new Uint8Array(32));
+    const keyPair = generateKeyPairFromSeed(seed);
+    this.privateKey = keyPair.secretKey;
+    this.publicKey = keyPair.publicKey;
+    this.sharedKeys.clear();
+
+    await Promise.all([
+      this.storage.setItem(`${this.storagePrefix}:privateKey`, JSON.stringify(Array.from(this.privateKey))),
+      this.storage.setItem(`${this.storagePrefix}:publicKey`, JSON.stringify(Array.from(this.publicKey)))
+    ]);
+  }
+
   getPublicKey(): PublicKey {
     if (!this.publicKey) throw new Error('KeyManager not loaded');
     return this.publicKey.slice();
@@ -74,6 +90,43 @@ export class Ed25519KeyManager implements IKeyManager {
     }
   }
 
+  // Ключ шифрования для пары (мы, собеседник): X25519 из Ed25519-ключей + HKDF-SHA256
+  private deriveSharedKey(publicKey: PublicKey): Uint8Array {
+    if (!this.privateKey) throw new Error('KeyManager not loaded');
+    const hex = Array.from(publicKey).map(b => b.toString(16).padStart(2, '0')).join('');
+    const cached = this.sharedKeys.get(hex);
+    if (cached) return cached;
+
+    const secret = sharedKey(
+      convertSecretKeyToX25519(this.privateKey),
+      convertPublicKeyToX25519(publicKey),
+      true
+    );
+    const key = new HKDF(SHA256, secret, undefined, E2E_INFO).expand(32);
+    this.sharedKeys.set(hex, key);
+    return key;
+  }
+
+  encrypt(publicKey: PublicKey, plaintext: Uint8Array, associatedData?: Uint8Array): Uint8Array {
+    const aead = new ChaCha20Poly1305(this.deriveSharedKey(publicKey));
+    const nonce = crypto.getRandomValues(new Uint8Array(NONCE_LENGTH));
+    const ciphertext = aead.seal(nonce, plaintext, associatedData);
+    const sealed = new Uint8Array(NONCE_LENGTH + ciphertext.length);
+    sealed.set(nonce, 0);
+    sealed.set(ciphertext, NONCE_LENGTH);
+    return sealed;
+  }
+
+  decrypt(publicKey: PublicKey, sealed: Uint8Array, associatedData?: Uint8Array): Uint8Array | null {
+    if (sealed.length < NONCE_LENGTH) return null;
+    try {
+      const aead = new ChaCha20Poly1305(this.deriveSharedKey(publicKey));
+      return aead.open(sealed.slice(0, NONCE_LENGTH), sealed.slice(NONCE_LENGTH), associatedData);
+    } catch {
+      return null;
+    }
+  }
+
   exportKeys(): { publicKey: string; privateKey: string } {
     if (!this.publicKey || !this.privateKey) throw new Error('KeyManager not loaded');
     return {
@@ -90,6 +143,7 @@ export class Ed25519KeyManager implements IKeyManager {
     }
     this.publicKey = publicKey;
     this.privateKey = privateKey;
+    this.sharedKeys.clear();
     await Promise.all([
       this.storage.setItem(`${this.storagePrefix}:privateKey`, JSON.stringify(Array.from(privateKey))),
       this.storage.setItem(`${this.storagePrefix}:publicKey`, JSON.stringify(Array.from(publicKey)))
@@ -0,0 +1,30 @@
+// Логгер SDK: приложение передаёт свой через ClientOptions.logger,
+// чтобы заглушить логи или направить их в собственную систему
+export interface Logger {
+  debug(message: string, ...args: unknown[]): void;
+  info(message: string, ...args: unknown[]): void;
+  warn(message: string, ...args: unknown[]): void;
+  error(message: string, ...args: unknown[]): void;
+}
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error' | 'silent';
+
+const LEVEL_RANK: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40, silent: 100 };
+
+// Пишет в console записи не ниже level; по умолчанию покадровые debug-сообщения скрыты
+export function createConsoleLogger(level: LogLevel = 'info', prefix = '[exvia]'): Logger {
+  const enabled = (l: LogLevel) => LEVEL_RANK[l] >= LEVEL_RANK[level];
+  return {
+    debug: (message, ...args) => { if (enabled('debug')) console.debug(`${prefix} ${message}`, ...args); },
+    info: (message, ...args) => { if (enabled('info')) console.info(`${prefix} ${message}`, ...args); },
+    warn: (message, ...args) => { if (enabled('warn')) console.warn(`${prefix} ${message}`, ...args); },
+    error: (message, ...args) => { if (enabled('error')) console.error(`${prefix} ${message}`, ...args); },
+  };
+}
+
+export const silentLogger: Logger = {
+  debug: () => {},
+  info: () => {},
+  warn: () => {},
+  error: () => {},
+};
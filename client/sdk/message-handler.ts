@@ -1,23 +1,79 @@
-import { MsgType, NODE_INFO_ADD_SERVER, NODE_INFO_REQUEST_SERVERS, NODE_INFO_RESPONSE_SERVERS } from '../../shared/protocol';
-import { Frame, PublicKey, ContentType } from './types';
+import {
+  CAP_ENCRYPTION,
+  CAP_GROUPS,
+  CAP_PUBSUB,
+  CAP_RECEIPTS,
+  CLIENT_RESPONSE_LENGTH,
+  HANDSHAKE_CHALLENGE_LENGTH,
+  HANDSHAKE_CONFIRM,
+  HANDSHAKE_REJECT,
+  HELLO_LENGTH,
+  Hello,
+  MsgType,
+  NODE_INFO_ADD_SERVER,
+  NODE_INFO_GROUP_ROSTER,
+  NODE_INFO_REQUEST_SERVERS,
+  NODE_INFO_RESPONSE_SERVERS,
+  Negotiated,
+  PROTOCOL_VERSION_MAX,
+  PROTOCOL_VERSION_SERVER_AUTH,
+  confirmSignedData,
+  decodeHandshakeConfirm,
+  decodeHandshakeReject,
+  decodeHello,
+  decodeTopic,
+  encodeHello,
+  encodeTopic,
+  negotiate,
+  publicationSignedData,
+} from '../../shared/protocol';
+import { Frame, PublicKey, ContentType, DeliveryStatus, HexString } from './types';
 import { IKeyManager } from './key-manager';
 import { IConnectionManager } from './connection-manager';
 import { IServerManager } from './server-manager';
 import { TypedEventEmitter, EventMap } from './events';
+import { FileTransferManager } from './file-transfer';
+import { GroupManager } from './group-manager';
+import { ProfileManager } from './profile-manager';
+import { ContactBook } from './contact-book';
+import { Logger, createConsoleLogger } from './logger';
 
 export interface MessageHandlerEvents extends EventMap {
   handshakeSuccess: [];
-  message: [from: PublicKey, content: Uint8Array, contentType?: ContentType, parsed?: any];
+  // Сервер отказал или версии протокола несовместимы; соединение закрывается
+  handshakeRejected: [reason: string];
+  // Сервер по этому адресу предъявил не тот ключ, что был закреплён раньше
+  serverKeyChanged: [address: string, pinnedKey: HexString, presentedKey: HexString];
+  // msgId – идентификатор кадра отправителя (у файла по частям – идентификатор передачи)
+  message: [from: PublicKey, content: Uint8Array, contentType?: ContentType, parsed?: any, msgId?: HexString];
+  groupMessage: [groupId: HexString, from: PublicKey, content: Uint8Array, contentType?: ContentType, parsed?: any, msgId?: HexString];
+  publication: [topic: string, from: PublicKey, content: Uint8Array, contentType?: ContentType, parsed?: any];
   nodeInfoAddServer: [address: string];
   serversListReceived: [addresses: string[]];
+  deliveryStatus: [msgId: HexString, recipient: PublicKey, status: DeliveryStatus];
 }
 
 export interface IMessageHandler {
   handleFrame(frame: Frame): Promise<void>;
-  sendData(target: PublicKey, payload: Uint8Array): void;
-  sendSigned(target: PublicKey, content: Uint8Array, contentType?: ContentType): void;
+  // Методы отправки возвращают msgId кадра (hex), по которому приходят квитанции
+  sendData(target: PublicKey, payload: Uint8Array): HexString;
+  sendSigned(target: PublicKey, content: Uint8Array, contentType?: ContentType): HexString;
+  sendEncrypted(target: PublicKey, content: Uint8Array, contentType?: ContentType): HexString;
+  // Сообщение группе: ретранслятор рассылает его участникам сам
+  sendGroup(groupId: HexString, content: Uint8Array, contentType?: ContentType): HexString;
+  sendGroupRoster(roster: Uint8Array): void;
+  // Темы: подписку ретранслятор помнит до отключения клиента
+  sendSubscribe(topic: string): void;
+  sendUnsubscribe(topic: string): void;
+  sendPublish(topic: string, content: Uint8Array, contentType?: ContentType): HexString;
   sendNodeInfoAddServer(address: string): void;
   sendRequestServers(): void;
+  // Версия и возможности, о которых договорились с сервером; null до рукопожатия
+  getNegotiated(): Negotiated | null;
+  // Адрес, к которому идёт подключение: по нему сверяется закреплённый ключ сервера
+  setServerAddress(address: string): void;
+  // Ключ сервера, подтверждённый в рукопожатии
+  getServerKey(): PublicKey | null;
   on<K extends keyof MessageHandlerEvents>(event: K, listener: (...args: MessageHandlerEvents[K]) => void): void;
   off<K extends keyof MessageHandlerEvents>(event: K, listener: (...args: MessageHandlerEvents[K]) => void): void;
   once<K extends keyof MessageHandlerEvents>(event: K, listener: (...args: MessageHandlerEvents[K]) => void): void;
@@ -29,15 +85,52 @@ export class MessageHandler
 {
   private pendingChallenge: Uint8Array | null = null;
   private handshakeCompleted = false;
+  private negotiated: Negotiated | null = null;
+  private hello: Hello;
+  private serverAddress: string | null = null;
+  private serverKey: PublicKey | null = null;
 
   constructor(
     private keyManager: IKeyManager,
     private connectionManager: IConnectionManager,
     private serverManager: IServerManager,
-    private nick: string
+    // Устарел и не используется: ник теперь в карточке профиля (ProfileManager).
+    // Оставлен, чтобы не сдвигать остальные аргументы у тех, кто создаёт MessageHandler сам
+    _nick: string,
+    private fileTransfers?: FileTransferManager,
+    capabilities: number = CAP_ENCRYPTION | CAP_RECEIPTS | CAP_GROUPS | CAP_PUBSUB,
+    private logger: Logger = createConsoleLogger(),
+    private groups?: GroupManager,
+    private profiles?: ProfileManager,
+    private contacts?: ContactBook
   ) {
     super();
+    // Без подписанного подтверждения (версии ниже 3) ключ сервера не проверить – такие серверы не принимаем
+    this.hello = { minVersion: PROTOCOL_VERSION_SERVER_AUTH, maxVersion: PROTOCOL_VERSION_MAX, capabilities };
     this.connectionManager.on('frame', this.handleFrame.bind(this));
+    // Собранный и проверенный по хэшу файл выдаётся как обычное FILE-сообщение
+    this.fileTransfers?.on('received', (from, transferId, name, data) => {
+      this.emit('message', from, data, ContentType.FILE, { name, data, transferId }, transferId);
+    });
+    // После обрыва нужно новое рукопожатие
+    this.connectionManager.on('close', () => {
+      this.handshakeCompleted = false;
+      this.negotiated = null;
+      this.serverKey = null;
+      this.pendingChallenge = null;
+    });
+  }
+
+  getNegotiated(): Negotiated | null {
+    return this.negotiated;
+  }
+
+  setServerAddress(address: string): void {
+    this.serverAddress = address;
+  }
+
+  getServerKey(): PublicKey | null {
+    return this.serverKey;
   }
 
   private isZeroSignature(sig: Uint8Array): boolean {
@@ -45,7 +138,7 @@ export class MessageHandler
   }
 
   async handleFrame(frame: Frame): Promise<void> {
-    console.log('📥 Received frame type:', frame.type, 'payload length:', frame.payload.length);
+    this.logger.debug(`Handling frame type ${frame.type}, payload ${frame.payload.length} bytes`);
     switch (frame.type) {
       case MsgType.HANDSHAKE:
         await this.handleHandshake(frame);
@@ -56,56 +149,134 @@ export class MessageHandler
       case MsgType.SIGNED_DATA:
         this.handleSignedData(frame);
         break;
+      case MsgType.ENCRYPTED_DATA:
+        this.handleEncryptedData(frame);
+        break;
       case MsgType.NODE_INFO:
         this.handleNodeInfo(frame);
         break;
+      case MsgType.DELIVERY_STATUS:
+        this.handleDeliveryStatus(frame);
+        break;
+      case MsgType.GROUP_DATA:
+        this.handleGroupData(frame);
+        break;
+      case MsgType.PUBLISH:
+        this.handlePublication(frame);
+        break;
       default:
-        console.warn('Unknown frame type', frame.type);
+        this.logger.warn(`Unknown frame type ${frame.type}`);
     }
   }
 
   private async handleHandshake(frame: Frame): Promise<void> {
-    console.log('👋 Handling handshake, payload length:', frame.payload.length, 'has signature:', !!frame.signature, 'isZeroSig:', this.isZeroSignature(frame.signature!));
-    
-    if (frame.payload.length === 32 && this.isZeroSignature(frame.signature!)) {
-      console.log('✅ Received challenge, sending response...');
-      this.pendingChallenge = frame.payload;
-      const signature = this.keyManager.sign(frame.payload);
+    const length = frame.payload.length;
+    const unsigned = this.isZeroSignature(frame.signature!);
+
+    if ((length === HANDSHAKE_CHALLENGE_LENGTH || length === HANDSHAKE_CHALLENGE_LENGTH + HELLO_LENGTH) && unsigned) {
+      this.logger.debug('Received handshake challenge');
+      // Голый challenge присылает сервер версии 1: он не умеет доказывать свой ключ
+      if (length === HANDSHAKE_CHALLENGE_LENGTH) {
+        this.rejectHandshake('server does not support protocol v' + PROTOCOL_VERSION_SERVER_AUTH);
+        return;
+      }
+      const serverHello = decodeHello(frame.payload.slice(HANDSHAKE_CHALLENGE_LENGTH));
+      if (!negotiate(this.hello, serverHello)) {
+        this.rejectHandshake(`server speaks protocol v${serverHello.minVersion}-${serverHello.maxVersion}, ` +
+          `client v${this.hello.minVersion}-${this.hello.maxVersion}`);
+        return;
+      }
+      // Ответ: [challenge сервера, наш HELLO, наш challenge]; подтверждение сервер подпишет вместе с нашим challenge
+      const challenge = crypto.getRandomValues(new Uint8Array(HANDSHAKE_CHALLENGE_LENGTH));
+      const payload = new Uint8Array(CLIENT_RESPONSE_LENGTH);
+      payload.set(frame.payload.slice(0, HANDSHAKE_CHALLENGE_LENGTH), 0);
+      payload.set(encodeHello(this.hello), HANDSHAKE_CHALLENGE_LENGTH);
+      payload.set(challenge, HANDSHAKE_CHALLENGE_LENGTH + HELLO_LENGTH);
+      this.pendingChallenge = challenge;
+      const signature = this.keyManager.sign(payload);
       this.connectionManager.send({
         type: MsgType.HANDSHAKE,
-        payload: frame.payload,
+        payload,
         senderId: this.keyManager.getPublicKey(),
         signature
       });
-      console.log('📤 Handshake response sent');
+      this.logger.debug('Handshake response sent');
     } 
-    else if (frame.payload.length === 1 && frame.payload[0] === 1 && this.isZeroSignature(frame.signature!)) {
-      console.log('🎉 Handshake confirmed by server');
-      this.handshakeCompleted = true;
-      this.emit('handshakeSuccess');
+    else if ((length === 1 || length === 6) && frame.payload[0] === HANDSHAKE_CONFIRM) {
+      await this.handleConfirm(frame);
     } 
+    else if (length >= 2 && length < HANDSHAKE_CHALLENGE_LENGTH && frame.payload[0] === HANDSHAKE_REJECT) {
+      this.rejectHandshake(`rejected by server: ${decodeHandshakeReject(frame.payload).reason}`);
+    }
     else {
-      console.warn('Unexpected handshake frame', frame);
+      this.logger.warn(`Unexpected handshake frame, payload ${length} bytes`);
     }
   }
 
+  // Подтверждение засчитывается, только если подписано ключом из senderId поверх нашего challenge
+  // и этот ключ совпадает с закреплённым за адресом сервера
+  private async handleConfirm(frame: Frame): Promise<void> {
+    const challenge = this.pendingChallenge;
+    if (!challenge) {
+      this.logger.warn('Handshake confirm without pending challenge');
+      return;
+    }
+    if (this.isZeroSignature(frame.signature!) ||
+        !this.keyManager.verify(frame.senderId, confirmSignedData(challenge, frame.payload), frame.signature!)) {
+      this.rejectHandshake('server failed to prove its identity');
+      return;
+    }
+    this.pendingChallenge = null;
+
+    const presentedKey = this.toHex(frame.senderId);
+    if (this.serverAddress) {
+      const pinnedKey = await this.serverManager.getPinnedKey(this.serverAddress);
+      if (pinnedKey === null) {
+        await this.serverManager.pinKey(this.serverAddress, presentedKey);
+      } else if (pinnedKey !== presentedKey) {
+        this.emit('serverKeyChanged', this.serverAddress, pinnedKey, presentedKey);
+        this.rejectHandshake(`server key for ${this.serverAddress} changed`);
+        return;
+      }
+    }
+
+    this.serverKey = frame.senderId.slice();
+    this.negotiated = decodeHandshakeConfirm(frame.payload);
+    this.logger.info(`Handshake confirmed by server ${presentedKey.slice(0, 8)}, protocol v${this.negotiated.version}`);
+    this.handshakeCompleted = true;
+    this.emit('handshakeSuccess');
+  }
+
+  private rejectHandshake(reason: string): void {
+    this.logger.warn(`Handshake failed: ${reason}`);
+    this.pendingChallenge = null;
+    this.emit('handshakeRejected', reason);
+    this.connectionManager.disconnect();
+  }
+
   private handleData(frame: Frame): void {
-    if (frame.payload.length < 32) return;
+    if (frame.payload.length < 32 || !this.accepts(frame.senderId, true)) return;
     const content = frame.payload.slice(32);
-    this.emit('message', frame.senderId, content, ContentType.RAW);
+    this.contacts?.touch(frame.senderId);
+    this.emit('message', frame.senderId, content, ContentType.RAW, undefined, this.frameMsgId(frame));
   }
 
   private handleSignedData(frame: Frame): void {
-    if (frame.payload.length < 32 + 64) return;
+    if (frame.payload.length < 32 + 64 || !this.accepts(frame.senderId, true)) return;
     const target = frame.payload.slice(0, 32);
     const signature = frame.payload.slice(32, 32 + 64);
     const fullContent = frame.payload.slice(32 + 64);
 
     if (!this.keyManager.verify(frame.senderId, fullContent, signature)) {
-      console.warn('Invalid content signature from', Buffer.from(frame.senderId).toString('hex').slice(0,8));
+      this.logger.warn(`Invalid content signature from ${this.toHex(frame.senderId).slice(0, 8)}`);
       return;
     }
 
+    this.deliverContent(frame.senderId, fullContent, this.frameMsgId(frame));
+  }
+
+  // Разбор содержимого с байтом типа (TEXT / JSON / FILE / RAW)
+  private decodeContent(fullContent: Uint8Array): { content: Uint8Array; contentType: ContentType; parsed: any } {
     let contentType = ContentType.RAW;
     let content = fullContent;
     let parsed = null;
@@ -122,22 +293,22 @@ export class MessageHandler
         try {
           parsed = JSON.parse(new TextDecoder().decode(content));
         } catch (e) {
-          console.warn('Failed to parse JSON content');
+          this.logger.warn('Failed to parse JSON content');
           parsed = null;
         }
       } else if (typeByte === ContentType.FILE) {
         contentType = ContentType.FILE;
         // Проверяем минимальную длину для заголовка файла
         if (fullContent.length < 2) {
-          console.warn('Malformed FILE content: too short');
+          this.logger.warn('Malformed FILE content: too short');
           parsed = null;
         } else {
           const nameLen = fullContent[1];
           if (nameLen === undefined) {
-            console.warn('Malformed FILE content: nameLen undefined');
+            this.logger.warn('Malformed FILE content: nameLen undefined');
             parsed = null;
           } else if (fullContent.length < 2 + nameLen) {
-            console.warn('Malformed FILE content: name length mismatch');
+            this.logger.warn('Malformed FILE content: name length mismatch');
             parsed = null;
           } else {
             const nameBytes = fullContent.slice(2, 2 + nameLen);
@@ -147,13 +318,123 @@ export class MessageHandler
             content = fileData;
           }
         }
+      } else if (
+        typeByte === ContentType.FILE_MANIFEST ||
+        typeByte === ContentType.FILE_CHUNK ||
+        typeByte === ContentType.FILE_ACK ||
+        typeByte === ContentType.GROUP_INVITE ||
+        typeByte === ContentType.PROFILE
+      ) {
+        contentType = typeByte;
+        content = fullContent.slice(1);
       } else {
         // неизвестный тип — считаем RAW
         contentType = ContentType.RAW;
       }
     }
 
-    this.emit('message', frame.senderId, content, contentType, parsed);
+    return { content, contentType, parsed };
+  }
+
+  // Проверенное содержимое: служебные части передачи файлов не выдаются как сообщения
+  private deliverContent(from: PublicKey, fullContent: Uint8Array, msgId?: HexString): void {
+    this.contacts?.touch(from);
+    const { content, contentType, parsed } = this.decodeContent(fullContent);
+    if (
+      contentType === ContentType.FILE_MANIFEST ||
+      contentType === ContentType.FILE_CHUNK ||
+      contentType === ContentType.FILE_ACK
+    ) {
+      this.fileTransfers?.handleContent(from, contentType, content);
+      return;
+    }
+    if (contentType === ContentType.GROUP_INVITE) {
+      this.groups?.handleInvite(from, content).catch(err => this.logger.warn('Failed to apply group invite:', err));
+      return;
+    }
+    if (contentType === ContentType.PROFILE) {
+      this.profiles?.handleCard(from, content).catch(err => this.logger.warn('Failed to apply profile card:', err));
+      return;
+    }
+    this.emit('message', from, content, contentType, parsed, msgId);
+  }
+
+  private handleEncryptedData(frame: Frame): void {
+    if (frame.payload.length < 32 || !this.accepts(frame.senderId, true)) return;
+    const target = frame.payload.slice(0, 32);
+    const associatedData = new Uint8Array(64);
+    associatedData.set(frame.senderId, 0);
+    associatedData.set(target, 32);
+
+    const plaintext = this.keyManager.decrypt(frame.senderId, frame.payload.slice(32), associatedData);
+    if (!plaintext || plaintext.length < 64) {
+      this.logger.warn(`Failed to decrypt content from ${this.toHex(frame.senderId).slice(0, 8)}`);
+      return;
+    }
+
+    const signature = plaintext.slice(0, 64);
+    const fullContent = plaintext.slice(64);
+    if (!this.keyManager.verify(frame.senderId, fullContent, signature)) {
+      this.logger.warn(`Invalid content signature from ${this.toHex(frame.senderId).slice(0, 8)}`);
+      return;
+    }
+
+    this.deliverContent(frame.senderId, fullContent, this.frameMsgId(frame));
+  }
+
+  // Содержимое группового сообщения устроено как у ENCRYPTED_DATA: подпись отправителя + содержимое,
+  // только зашифровано ключом группы
+  private handleGroupData(frame: Frame): void {
+    if (!this.accepts(frame.senderId, false)) return;
+    const opened = this.groups?.open(frame);
+    if (!opened || opened.plaintext.length < 64) return;
+    const signature = opened.plaintext.slice(0, 64);
+    const fullContent = opened.plaintext.slice(64);
+    if (!this.keyManager.verify(frame.senderId, fullContent, signature)) {
+      this.logger.warn(`Invalid group content signature from ${this.toHex(frame.senderId).slice(0, 8)}`);
+      return;
+    }
+    this.contacts?.touch(frame.senderId);
+    const { content, contentType, parsed } = this.decodeContent(fullContent);
+    this.emit('groupMessage', opened.groupId, frame.senderId, content, contentType, parsed, this.frameMsgId(frame));
+  }
+
+  // [тема, подпись(64), содержимое]; подпись покрывает тему и содержимое
+  private handlePublication(frame: Frame): void {
+    if (!this.accepts(frame.senderId, false)) return;
+    let topic: string;
+    let topicLength: number;
+    try {
+      ({ topic, length: topicLength } = decodeTopic(frame.payload));
+    } catch {
+      this.logger.warn('Malformed publication topic');
+      return;
+    }
+    if (frame.payload.length < topicLength + 64) return;
+    const signature = frame.payload.slice(topicLength, topicLength + 64);
+    const fullContent = frame.payload.slice(topicLength + 64);
+    if (!this.keyManager.verify(frame.senderId, publicationSignedData(frame.payload.slice(0, topicLength), fullContent), signature)) {
+      this.logger.warn(`Invalid publication signature from ${this.toHex(frame.senderId).slice(0, 8)}`);
+      return;
+    }
+    this.contacts?.touch(frame.senderId);
+    const { content, contentType, parsed } = this.decodeContent(fullContent);
+    this.emit('publication', topic, frame.senderId, content, contentType, parsed);
+  }
+
+  // Заблокированный отправитель или не контакт в режиме contactsOnly – кадр отбрасывается до расшифровки
+  private accepts(from: PublicKey, direct: boolean): boolean {
+    if (!this.contacts || this.contacts.accepts(from, direct)) return true;
+    this.logger.debug(`Dropping message from ${this.toHex(from).slice(0, 8)}: not accepted by contact settings`);
+    return false;
+  }
+
+  private handleDeliveryStatus(frame: Frame): void {
+    if (frame.payload.length < 1 + 32) return;
+    if (!frame.msgId || frame.msgId.every(b => b === 0)) return;
+    const status = frame.payload[0] as DeliveryStatus;
+    const recipient = frame.payload.slice(1, 1 + 32);
+    this.emit('deliveryStatus', this.toHex(frame.msgId), recipient, status);
   }
 
   private handleNodeInfo(frame: Frame): void {
@@ -191,42 +472,145 @@ export class MessageHandler
     }
   }
 
-  sendData(target: PublicKey, payload: Uint8Array): void {
+  private toHex(bytes: Uint8Array): HexString {
+    return Array.from(bytes).map(b => b.toString(16).padStart(2, '0')).join('');
+  }
+
+  // msgId входящего кадра; нулевой (клиенты протокола v1) – undefined
+  private frameMsgId(frame: Frame): HexString | undefined {
+    return frame.msgId && !frame.msgId.every(b => b === 0) ? this.toHex(frame.msgId) : undefined;
+  }
+
+  // Отправляет кадр с новым случайным msgId и возвращает его
+  private sendWithMsgId(frame: Frame): HexString {
+    const msgId = crypto.getRandomValues(new Uint8Array(16));
+    this.connectionManager.send({ ...frame, msgId });
+    return this.toHex(msgId);
+  }
+
+  sendData(target: PublicKey, payload: Uint8Array): HexString {
     if (!this.handshakeCompleted) throw new Error('Handshake not completed');
     const fullPayload = new Uint8Array(32 + payload.length);
     fullPayload.set(target, 0);
     fullPayload.set(payload, 32);
-    this.connectionManager.send({
+    return this.sendWithMsgId({
       type: MsgType.DATA,
       payload: fullPayload,
       senderId: this.keyManager.getPublicKey()
     });
   }
 
-  sendSigned(target: PublicKey, content: Uint8Array, contentType: ContentType = ContentType.RAW): void {
+  private encodeContent(content: Uint8Array, contentType: ContentType): Uint8Array {
+    if (contentType === ContentType.RAW) return content;
+    const finalContent = new Uint8Array(1 + content.length);
+    finalContent[0] = contentType;
+    finalContent.set(content, 1);
+    return finalContent;
+  }
+
+  sendSigned(target: PublicKey, content: Uint8Array, contentType: ContentType = ContentType.RAW): HexString {
     if (!this.handshakeCompleted) throw new Error('Handshake not completed');
-    
-    let finalContent: Uint8Array;
-    if (contentType === ContentType.RAW) {
-      finalContent = content;
-    } else {
-      finalContent = new Uint8Array(1 + content.length);
-      finalContent[0] = contentType;
-      finalContent.set(content, 1);
-    }
 
+    const finalContent = this.encodeContent(content, contentType);
     const signature = this.keyManager.sign(finalContent);
     const fullPayload = new Uint8Array(32 + 64 + finalContent.length);
     fullPayload.set(target, 0);
     fullPayload.set(signature, 32);
     fullPayload.set(finalContent, 32 + 64);
-    this.connectionManager.send({
+    return this.sendWithMsgId({
       type: MsgType.SIGNED_DATA,
       payload: fullPayload,
       senderId: this.keyManager.getPublicKey()
     });
   }
 
+  // Подписываем содержимое, затем шифруем подпись вместе с ним: ретрансляторы видят только target
+  sendEncrypted(target: PublicKey, content: Uint8Array, contentType: ContentType = ContentType.RAW): HexString {
+    if (!this.handshakeCompleted) throw new Error('Handshake not completed');
+
+    const finalContent = this.encodeContent(content, contentType);
+    const signature = this.keyManager.sign(finalContent);
+    const plaintext = new Uint8Array(64 + finalContent.length);
+    plaintext.set(signature, 0);
+    plaintext.set(finalContent, 64);
+
+    const senderId = this.keyManager.getPublicKey();
+    const associatedData = new Uint8Array(64);
+    associatedData.set(senderId, 0);
+    associatedData.set(target, 32);
+    const sealed = this.keyManager.encrypt(target, plaintext, associatedData);
+
+    const fullPayload = new Uint8Array(32 + sealed.length);
+    fullPayload.set(target, 0);
+    fullPayload.set(sealed, 32);
+    return this.sendWithMsgId({
+      type: MsgType.ENCRYPTED_DATA,
+      payload: fullPayload,
+      senderId
+    });
+  }
+
+  sendGroup(groupId: HexString, content: Uint8Array, contentType: ContentType = ContentType.RAW): HexString {
+    if (!this.handshakeCompleted) throw new Error('Handshake not completed');
+    if (!this.groups) throw new Error('Groups are not enabled');
+
+    const finalContent = this.encodeContent(content, contentType);
+    const signature = this.keyManager.sign(finalContent);
+    const plaintext = new Uint8Array(64 + finalContent.length);
+    plaintext.set(signature, 0);
+    plaintext.set(finalContent, 64);
+    return this.sendWithMsgId({
+      type: MsgType.GROUP_DATA,
+      payload: this.groups.seal(groupId, plaintext),
+      senderId: this.keyManager.getPublicKey()
+    });
+  }
+
+  sendGroupRoster(roster: Uint8Array): void {
+    const payload = new Uint8Array(1 + roster.length);
+    payload[0] = NODE_INFO_GROUP_ROSTER;
+    payload.set(roster, 1);
+    this.connectionManager.send({
+      type: MsgType.NODE_INFO,
+      payload,
+      senderId: this.keyManager.getPublicKey()
+    });
+  }
+
+  sendSubscribe(topic: string): void {
+    this.connectionManager.send({
+      type: MsgType.SUBSCRIBE,
+      payload: encodeTopic(topic),
+      senderId: this.keyManager.getPublicKey()
+    });
+  }
+
+  sendUnsubscribe(topic: string): void {
+    this.connectionManager.send({
+      type: MsgType.UNSUBSCRIBE,
+      payload: encodeTopic(topic),
+      senderId: this.keyManager.getPublicKey()
+    });
+  }
+
+  // Публикация подписана, но не зашифрована: ленту читает любой подписчик
+  sendPublish(topic: string, content: Uint8Array, contentType: ContentType = ContentType.RAW): HexString {
+    if (!this.handshakeCompleted) throw new Error('Handshake not completed');
+
+    const encodedTopic = encodeTopic(topic);
+    const finalContent = this.encodeContent(content, contentType);
+    const signature = this.keyManager.sign(publicationSignedData(encodedTopic, finalContent));
+    const payload = new Uint8Array(encodedTopic.length + 64 + finalContent.length);
+    payload.set(encodedTopic, 0);
+    payload.set(signature, encodedTopic.length);
+    payload.set(finalContent, encodedTopic.length + 64);
+    return this.sendWithMsgId({
+      type: MsgType.PUBLISH,
+      payload,
+      senderId: this.keyManager.getPublicKey()
+    });
+  }
+
   sendNodeInfoAddServer(address: string): void {
     const encoder = new TextEncoder();
     const addrBytes = encoder.encode(address);
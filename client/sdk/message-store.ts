@@ -0,0 +1,269 @@
+import { HexString, ContentType, DeliveryStatus } from './types';
+
+// История сообщений: входящие и исходящие сообщения по разговорам (собеседник или группа).
+// Клиент пишет в неё, только если она передана в ClientOptions.history.
+// В браузере – IndexedDBMessageStore, в Node – FileMessageStore из client/sdk/node
+
+export interface HistoryMessage {
+  seq: number;             // порядковый номер в хранилище – курсор постраничного чтения
+  id: HexString;           // msgId кадра; у файла по частям – идентификатор передачи. Входящий
+                           // msgId выбирает отправитель, поэтому уникален только внутри разговора
+  conversation: HexString; // ключ собеседника или id группы
+  group: boolean;
+  direction: 'in' | 'out';
+  from: HexString;
+  contentType: ContentType;
+  text?: string;           // TEXT – текст, JSON – исходная строка JSON
+  file?: { name: string; size: number }; // FILE – содержимое файла в историю не попадает
+  raw?: HexString;         // RAW
+  timestamp: number;
+  status?: DeliveryStatus; // исходящие: лучшая из полученных квитанций
+  read: boolean;
+}
+
+export type NewHistoryMessage = Omit<HistoryMessage, 'seq'>;
+
+export interface HistoryQuery {
+  before?: number; // seq: сообщения строго раньше него
+  limit?: number;
+}
+
+export interface HistorySearch {
+  conversation?: HexString;
+  limit?: number;
+}
+
+export interface ConversationSummary {
+  conversation: HexString;
+  group: boolean;
+  last: HistoryMessage;
+  unread: number;
+}
+
+export interface IMessageStore {
+  // null – в этом разговоре сообщение с таким id уже есть
+  add(message: NewHistoryMessage): Promise<HistoryMessage | null>;
+  // Квитанция относится только к исходящему сообщению: id исходящих выбираем мы сами,
+  // а входящее с тем же id (из любого разговора) не затрагивается
+  setStatus(id: HexString, status: DeliveryStatus): Promise<void>;
+  // Последние limit сообщений разговора (раньше before), от старых к новым
+  getMessages(conversation: HexString, query?: HistoryQuery): Promise<HistoryMessage[]>;
+  // Поиск подстроки без учёта регистра в тексте и именах файлов, от новых к старым
+  search(text: string, options?: HistorySearch): Promise<HistoryMessage[]>;
+  // Разговоры от последнего активного к давним
+  getConversations(): Promise<ConversationSummary[]>;
+  markRead(conversation: HexString): Promise<void>;
+  // Без conversation – по всем разговорам
+  getUnreadCount(conversation?: HexString): Promise<number>;
+  deleteMessage(conversation: HexString, id: HexString): Promise<void>;
+  deleteConversation(conversation: HexString): Promise<void>;
+}
+
+export const DEFAULT_HISTORY_PAGE = 50;
+
+// Квитанции группового сообщения приходят по каждому участнику, прямого – могут прийти не по порядку.
+// Статус только улучшается: DELIVERED хотя бы одному участнику не затирается QUEUED другого
+const STATUS_RANK: Record<DeliveryStatus, number> = {
+  [DeliveryStatus.ACCEPTED]: 1,
+  [DeliveryStatus.THROTTLED]: 2,
+  [DeliveryStatus.FAILED]: 2,
+  [DeliveryStatus.QUEUED]: 3,
+  [DeliveryStatus.DELIVERED]: 4,
+};
+
+export function advancesStatus(current: DeliveryStatus | undefined, next: DeliveryStatus): boolean {
+  return (STATUS_RANK[next] ?? 0) > (current === undefined ? 0 : STATUS_RANK[current] ?? 0);
+}
+
+export function matchesSearch(message: HistoryMessage, needle: string): boolean {
+  return (message.text?.toLowerCase().includes(needle) ?? false) ||
+    (message.file?.name.toLowerCase().includes(needle) ?? false);
+}
+
+// Непрочитанное входящее сообщение хранится с полем unreadIn = разговор: по нему индекс 'unread'
+// (записи без поля в индекс не попадают), прочтение – удаление поля
+interface StoredRecord extends HistoryMessage {
+  unreadIn?: HexString;
+}
+
+const STORE_NAME = 'messages';
+const DB_VERSION = 2;
+
+export class IndexedDBMessageStore implements IMessageStore {
+  private db: IDBDatabase | null = null;
+
+  constructor(private readonly dbName = 'exvia-history') {}
+
+  private async openDB(): Promise<IDBDatabase> {
+    if (this.db) return this.db;
+    return new Promise((resolve, reject) => {
+      const request = indexedDB.open(this.dbName, DB_VERSION);
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => {
+        this.db = request.result;
+        resolve(this.db);
+      };
+      request.onupgradeneeded = (event) => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORE_NAME)) {
+          const store = db.createObjectStore(STORE_NAME, { keyPath: 'seq', autoIncrement: true });
+          store.createIndex('conversation', 'conversation');
+          store.createIndex('conversationSeq', ['conversation', 'seq']);
+          store.createIndex('unread', 'unreadIn');
+        }
+        // Версия 1: id был уникален во всей истории – чужой msgId вытеснял сообщение другого разговора
+        const store = request.transaction!.objectStore(STORE_NAME);
+        if (event.oldVersion < 2) {
+          if (store.indexNames.contains('id')) store.deleteIndex('id');
+          store.createIndex('id', 'id');
+          store.createIndex('conversationId', ['conversation', 'id'], { unique: true });
+        }
+      };
+    });
+  }
+
+  // Несколько запросов в одной транзакции; результат – после её завершения
+  private async run<T>(mode: IDBTransactionMode, body: (store: IDBObjectStore, setResult: (value: T) => void) => void): Promise<T> {
+    const db = await this.openDB();
+    return new Promise((resolve, reject) => {
+      const tx = db.transaction(STORE_NAME, mode);
+      let result: T | undefined;
+      tx.oncomplete = () => resolve(result as T);
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error);
+      body(tx.objectStore(STORE_NAME), value => { result = value; });
+    });
+  }
+
+  async add(message: NewHistoryMessage): Promise<HistoryMessage | null> {
+    return this.run<HistoryMessage | null>('readwrite', (store, setResult) => {
+      setResult(null);
+      store.index('conversationId').getKey([message.conversation, message.id]).onsuccess = (event) => {
+        if ((event.target as IDBRequest).result !== undefined) return;
+        const record: Partial<StoredRecord> = { ...message };
+        if (!message.read) record.unreadIn = message.conversation;
+        store.add(record).onsuccess = (added) => {
+          setResult({ ...message, seq: (added.target as IDBRequest<IDBValidKey>).result as number });
+        };
+      };
+    });
+  }
+
+  async setStatus(id: HexString, status: DeliveryStatus): Promise<void> {
+    await this.run<void>('readwrite', store => {
+      store.index('id').openCursor(id).onsuccess = (event) => {
+        const cursor = (event.target as IDBRequest<IDBCursorWithValue | null>).result;
+        if (!cursor) return;
+        const record = cursor.value as StoredRecord;
+        if (record.direction === 'out' && advancesStatus(record.status, status)) {
+          cursor.update({ ...record, status });
+        }
+        cursor.continue();
+      };
+    });
+  }
+
+  async getMessages(conversation: HexString, query: HistoryQuery = {}): Promise<HistoryMessage[]> {
+    const limit = query.limit ?? DEFAULT_HISTORY_PAGE;
+    const range = IDBKeyRange.bound([conversation, 0], [conversation, query.before ?? Infinity], false, true);
+    const page = await this.run<HistoryMessage[]>('readonly', (store, setResult) => {
+      const collected: HistoryMessage[] = [];
+      setResult(collected);
+      store.index('conversationSeq').openCursor(range, 'prev').onsuccess = (event) => {
+        const cursor = (event.target as IDBRequest<IDBCursorWithValue | null>).result;
+        if (!cursor || collected.length >= limit) return;
+        collected.push(toMessage(cursor.value));
+        cursor.continue();
+      };
+    });
+    return page.reverse();
+  }
+
+  async search(text: string, options: HistorySearch = {}): Promise<HistoryMessage[]> {
+    const needle = text.toLowerCase();
+    const limit = options.limit ?? DEFAULT_HISTORY_PAGE;
+    return this.run<HistoryMessage[]>('readonly', (store, setResult) => {
+      const found: HistoryMessage[] = [];
+      setResult(found);
+      const request = options.conversation !== undefined
+        ? store.index('conversationSeq').openCursor(IDBKeyRange.bound([options.conversation, 0], [options.conversation, Infinity]), 'prev')
+        : store.openCursor(null, 'prev');
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor || found.length >= limit) return;
+        const message = toMessage(cursor.value);
+        if (matchesSearch(message, needle)) found.push(message);
+        cursor.continue();
+      };
+    });
+  }
+
+  async getConversations(): Promise<ConversationSummary[]> {
+    const summaries = await this.run<ConversationSummary[]>('readonly', (store, setResult) => {
+      const collected: ConversationSummary[] = [];
+      setResult(collected);
+      store.index('conversation').openKeyCursor(null, 'nextunique').onsuccess = (event) => {
+        const cursor = (event.target as IDBRequest<IDBCursor | null>).result;
+        if (!cursor) return;
+        const conversation = cursor.key as HexString;
+        const range = IDBKeyRange.bound([conversation, 0], [conversation, Infinity]);
+        store.index('conversationSeq').openCursor(range, 'prev').onsuccess = (lastEvent) => {
+          const last = (lastEvent.target as IDBRequest<IDBCursorWithValue | null>).result;
+          if (!last) return;
+          const summary: ConversationSummary = { conversation, group: last.value.group, last: toMessage(last.value), unread: 0 };
+          collected.push(summary);
+          store.index('unread').count(conversation).onsuccess = (countEvent) => {
+            summary.unread = (countEvent.target as IDBRequest<number>).result;
+          };
+        };
+        cursor.continue();
+      };
+    });
+    return summaries.sort((a, b) => b.last.seq - a.last.seq);
+  }
+
+  async markRead(conversation: HexString): Promise<void> {
+    await this.run<void>('readwrite', store => {
+      store.index('unread').openCursor(conversation).onsuccess = (event) => {
+        const cursor = (event.target as IDBRequest<IDBCursorWithValue | null>).result;
+        if (!cursor) return;
+        const { unreadIn, ...record } = cursor.value as StoredRecord;
+        cursor.update({ ...record, read: true });
+        cursor.continue();
+      };
+    });
+  }
+
+  async getUnreadCount(conversation?: HexString): Promise<number> {
+    return this.run<number>('readonly', (store, setResult) => {
+      store.index('unread').count(conversation).onsuccess = (event) => {
+        setResult((event.target as IDBRequest<number>).result);
+      };
+    });
+  }
+
+  async deleteMessage(conversation: HexString, id: HexString): Promise<void> {
+    await this.run<void>('readwrite', store => {
+      store.index('conversationId').getKey([conversation, id]).onsuccess = (event) => {
+        const key = (event.target as IDBRequest<IDBValidKey | undefined>).result;
+        if (key !== undefined) store.delete(key);
+      };
+    });
+  }
+
+  async deleteConversation(conversation: HexString): Promise<void> {
+    await this.run<void>('readwrite', store => {
+      store.index('conversation').openKeyCursor(conversation).onsuccess = (event) => {
+        const cursor = (event.target as IDBRequest<IDBCursor | null>).result;
+        if (!cursor) return;
+        store.delete(cursor.primaryKey);
+        cursor.continue();
+      };
+    });
+  }
+}
+
+function toMessage(record: StoredRecord): HistoryMessage {
+  const { unreadIn, ...message } = record;
+  return message;
+}
@@ -0,0 +1,144 @@
+import { mkdir, readFile, rename, writeFile } from 'fs/promises';
+import { dirname } from 'path';
+import { HexString, DeliveryStatus } from '../types';
+import {
+  ConversationSummary,
+  DEFAULT_HISTORY_PAGE,
+  HistoryMessage,
+  HistoryQuery,
+  HistorySearch,
+  IMessageStore,
+  NewHistoryMessage,
+  advancesStatus,
+  matchesSearch,
+} from '../message-store';
+
+interface HistoryFile {
+  seq: number;
+  messages: HistoryMessage[];
+}
+
+// История для Node: все сообщения в одном JSON-файле, в памяти – по порядку seq.
+// Переписки в нём не зашифрованы, поэтому файл доступен только владельцу.
+// Каждое новое сообщение и каждая квитанция переписывают файл целиком: время записи растёт
+// с размером истории, так что хранилище рассчитано на небольшие истории (боты, CLI)
+export class FileMessageStore implements IMessageStore {
+  private data: Promise<HistoryFile> | null = null;
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(private path: string) {}
+
+  async add(message: NewHistoryMessage): Promise<HistoryMessage | null> {
+    const data = await this.load();
+    if (data.messages.some(stored => stored.conversation === message.conversation && stored.id === message.id)) return null;
+    const stored: HistoryMessage = { ...message, seq: ++data.seq };
+    data.messages.push(stored);
+    await this.persist(data);
+    return { ...stored };
+  }
+
+  async setStatus(id: HexString, status: DeliveryStatus): Promise<void> {
+    const data = await this.load();
+    const message = data.messages.find(stored => stored.direction === 'out' && stored.id === id);
+    if (!message || !advancesStatus(message.status, status)) return;
+    message.status = status;
+    await this.persist(data);
+  }
+
+  async getMessages(conversation: HexString, query: HistoryQuery = {}): Promise<HistoryMessage[]> {
+    const data = await this.load();
+    const before = query.before ?? Infinity;
+    const page = data.messages.filter(message => message.conversation === conversation && message.seq < before);
+    return page.slice(-(query.limit ?? DEFAULT_HISTORY_PAGE)).map(message => ({ ...message }));
+  }
+
+  async search(text: string, options: HistorySearch = {}): Promise<HistoryMessage[]> {
+    const data = await this.load();
+    const needle = text.toLowerCase();
+    const limit = options.limit ?? DEFAULT_HISTORY_PAGE;
+    const found: HistoryMessage[] = [];
+    for (let i = data.messages.length - 1; i >= 0 && found.length < limit; i--) {
+      const message = data.messages[i]!;
+      if (options.conversation !== undefined && message.conversation !== options.conversation) continue;
+      if (matchesSearch(message, needle)) found.push({ ...message });
+    }
+    return found;
+  }
+
+  async getConversations(): Promise<ConversationSummary[]> {
+    const data = await this.load();
+    const summaries = new Map<HexString, ConversationSummary>();
+    for (const message of data.messages) {
+      const summary = summaries.get(message.conversation);
+      const unread = (summary?.unread ?? 0) + (message.read ? 0 : 1);
+      summaries.set(message.conversation, { conversation: message.conversation, group: message.group, last: { ...message }, unread });
+    }
+    return Array.from(summaries.values()).sort((a, b) => b.last.seq - a.last.seq);
+  }
+
+  async markRead(conversation: HexString): Promise<void> {
+    const data = await this.load();
+    let changed = false;
+    for (const message of data.messages) {
+      if (message.conversation === conversation && !message.read) {
+        message.read = true;
+        changed = true;
+      }
+    }
+    if (changed) await this.persist(data);
+  }
+
+  async getUnreadCount(conversation?: HexString): Promise<number> {
+    const data = await this.load();
+    return data.messages.filter(message =>
+      !message.read && (conversation === undefined || message.conversation === conversation)
+    ).length;
+  }
+
+  async deleteMessage(conversation: HexString, id: HexString): Promise<void> {
+    const data = await this.load();
+    const index = data.messages.findIndex(message => message.conversation === conversation && message.id === id);
+    if (index === -1) return;
+    data.messages.splice(index, 1);
+    await this.persist(data);
+  }
+
+  async deleteConversation(conversation: HexString): Promise<void> {
+    const data = await this.load();
+    const remaining = data.messages.filter(message => message.conversation !== conversation);
+    if (remaining.length === data.messages.length) return;
+    data.messages = remaining;
+    await this.persist(data);
+  }
+
+  private load(): Promise<HistoryFile> {
+    if (!this.data) {
+      this.data = readFile(this.path, 'utf8').then(
+        text => {
+          const parsed = JSON.parse(text);
+          if (typeof parsed?.seq !== 'number' || !Array.isArray(parsed.messages)) {
+            throw new Error(`History file ${this.path} is malformed`);
+          }
+          return parsed as HistoryFile;
+        },
+        (err: NodeJS.ErrnoException) => {
+          if (err.code === 'ENOENT') return { seq: 0, messages: [] };
+          throw err;
+        }
+      );
+    }
+    return this.data;
+  }
+
+  // Как в FileStorage: записи по очереди, временный файл + rename
+  private persist(data: HistoryFile): Promise<void> {
+    const write = async () => {
+      const tmp = `${this.path}.tmp`;
+      await mkdir(dirname(this.path), { recursive: true });
+      await writeFile(tmp, JSON.stringify(data) + '\n', { mode: 0o600 });
+      await rename(tmp, this.path);
+    };
+    this.writing = this.writing.then(write, write);
+    return this.writing;
+  }
+}
@@ -0,0 +1,23 @@
+import { open, stat } from 'fs/promises';
+import { FileSource } from '../file-source';
+
+// Файл на диске: размер берётся при создании, каждая часть читается отдельным open/read
+export async function pathSource(path: string): Promise<FileSource> {
+  const info = await stat(path);
+  if (!info.isFile()) throw new Error(`Not a regular file: ${path}`);
+  const size = info.size;
+  return {
+    size,
+    read: async (start, end) => {
+      const handle = await open(path, 'r');
+      try {
+        const buffer = Buffer.alloc(Math.max(0, Math.min(end, size) - start));
+        const { bytesRead } = await handle.read(buffer, 0, buffer.length, start);
+        if (bytesRead !== buffer.length) throw new Error(`File ${path} changed during transfer`);
+        return new Uint8Array(buffer.buffer, buffer.byteOffset, bytesRead);
+      } finally {
+        await handle.close();
+      }
+    },
+  };
+}
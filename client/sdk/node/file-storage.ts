@@ -0,0 +1,61 @@
+import { mkdir, readFile, rename, writeFile } from 'fs/promises';
+import { dirname } from 'path';
+import { IStorage } from '../storage';
+
+// Хранилище для Node: все ключи в одном JSON-файле. Там лежит закрытый ключ клиента,
+// поэтому файл доступен только владельцу
+export class FileStorage implements IStorage {
+  private data: Promise<Record<string, string>> | null = null;
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(private path: string) {}
+
+  async getItem(key: string): Promise<string | null> {
+    const data = await this.load();
+    return Object.prototype.hasOwnProperty.call(data, key) ? data[key]! : null;
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    const data = await this.load();
+    data[key] = value;
+    return this.persist(data);
+  }
+
+  async removeItem(key: string): Promise<void> {
+    const data = await this.load();
+    if (!Object.prototype.hasOwnProperty.call(data, key)) return;
+    delete data[key];
+    return this.persist(data);
+  }
+
+  private load(): Promise<Record<string, string>> {
+    if (!this.data) {
+      this.data = readFile(this.path, 'utf8').then(
+        text => {
+          const parsed = JSON.parse(text);
+          if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+            throw new Error(`Storage file ${this.path} must contain a JSON object`);
+          }
+          return parsed as Record<string, string>;
+        },
+        (err: NodeJS.ErrnoException) => {
+          if (err.code === 'ENOENT') return {};
+          throw err;
+        }
+      );
+    }
+    return this.data;
+  }
+
+  // Записи идут по очереди; временный файл + rename – оборванная запись не портит хранилище
+  private persist(data: Record<string, string>): Promise<void> {
+    const write = async () => {
+      const tmp = `${this.path}.tmp`;
+      await mkdir(dirname(this.path), { recursive: true });
+      await writeFile(tmp, JSON.stringify(data, null, 2) + '\n', { mode: 0o600 });
+      await rename(tmp, this.path);
+    };
+    this.writing = this.writing.then(write, write);
+    return this.writing;
+  }
+}
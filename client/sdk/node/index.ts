@@ -0,0 +1,8 @@
+// Точка входа SDK для Node: всё из браузерной сборки плюс транспорт на ws и файловое хранилище.
+// Браузерный index.ts эти модули не импортирует – в бандл не попадают fs и ws
+export * from '../index';
+export { NodeClient } from './node-client';
+export { WsConnectionManager } from './ws-connection-manager';
+export { FileStorage } from './file-storage';
+export { FileMessageStore } from './file-message-store';
+export { pathSource } from './file-source';
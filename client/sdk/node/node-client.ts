@@ -0,0 +1,34 @@
+import { basename } from 'path';
+import { Client, ClientOptions } from '../client';
+import { IStorage } from '../storage';
+import { FileSource } from '../file-source';
+import { PublicKey, HexString } from '../types';
+import { createConsoleLogger } from '../logger';
+import { WsConnectionManager } from './ws-connection-manager';
+import { FileStorage } from './file-storage';
+import { pathSource } from './file-source';
+
+// Client для Node (боты, серверные сервисы): транспорт на ws, ключи и серверы – в JSON-файле.
+// API то же, что в браузере; sendFile дополнительно принимает путь к файлу
+export class NodeClient extends Client {
+  constructor(storage: IStorage = new FileStorage('exvia-sdk.json'), options: ClientOptions = {}) {
+    const logger = options.logger ?? createConsoleLogger();
+    super(storage, {
+      ...options,
+      logger,
+      connectionManager: options.connectionManager ?? new WsConnectionManager(logger),
+    });
+  }
+
+  // Строка – путь к файлу; имя по умолчанию – имя файла без директории
+  override async sendFile(
+    target: PublicKey | HexString,
+    file: string | Blob | Uint8Array | FileSource,
+    name?: string
+  ): Promise<HexString> {
+    if (typeof file === 'string') {
+      return super.sendFile(target, await pathSource(file), name ?? basename(file));
+    }
+    return super.sendFile(target, file, name);
+  }
+}
@@ -0,0 +1,93 @@
+import WebSocket from 'ws';
+import { Frame, encodeFrame, decodeFrame } from '../../../shared/protocol';
+import { TypedEventEmitter } from '../events';
+import { ConnectionEvents, IConnectionManager } from '../connection-manager';
+import { Logger, createConsoleLogger } from '../logger';
+
+// Транспорт для Node на пакете ws; поведение то же, что у браузерного WebSocketConnectionManager
+export class WsConnectionManager
+  extends TypedEventEmitter<ConnectionEvents>
+  implements IConnectionManager
+{
+  private ws: WebSocket | null = null;
+  // сокет текущей попытки (открывающийся или открытый); события прежних сокетов игнорируются
+  private attempt: WebSocket | null = null;
+  private connectionPromise: Promise<void> | null = null;
+
+  constructor(private logger: Logger = createConsoleLogger()) {
+    super();
+  }
+
+  connect(url: string): Promise<void> {
+    if (this.connectionPromise) return this.connectionPromise;
+
+    this.connectionPromise = new Promise((resolve, reject) => {
+      const ws = new WebSocket(url);
+      ws.binaryType = 'arraybuffer';
+      this.attempt = ws;
+
+      ws.on('open', () => {
+        if (this.attempt !== ws) return;
+        this.logger.info(`WebSocket opened: ${url}`);
+        this.ws = ws;
+        this.emit('open');
+        resolve();
+      });
+
+      ws.on('message', (data: ArrayBuffer) => {
+        try {
+          const frame = decodeFrame(data);
+          this.logger.debug(`Received frame type ${frame.type}, ${data.byteLength} bytes`);
+          this.emit('frame', frame);
+        } catch (err) {
+          this.logger.warn('Failed to decode frame', err);
+        }
+      });
+
+      ws.on('error', (err) => {
+        const error = new Error(`WebSocket connection error: ${err.message}`);
+        this.logger.error(`WebSocket error: ${url}`, err.message);
+        // Ошибка устаревшего сокета прошлой попытки не касается текущей
+        if (this.attempt !== ws) {
+          reject(error);
+          return;
+        }
+        // Соединение так и не открылось: следующий connect() должен начать новую попытку
+        if (this.ws !== ws) this.connectionPromise = null;
+        this.emit('error', error);
+        reject(error);
+      });
+
+      ws.on('close', (code, reason) => {
+        this.logger.info(`WebSocket closed: ${url}, code ${code}`, reason.toString());
+        if (this.attempt !== ws) return; // закрылся устаревший сокет прошлой попытки
+        this.attempt = null;
+        this.ws = null;
+        this.connectionPromise = null;
+        this.emit('close', code, reason.toString());
+      });
+    });
+
+    return this.connectionPromise;
+  }
+
+  disconnect(): void {
+    if (this.ws) {
+      this.ws.close();
+      this.ws = null;
+      this.connectionPromise = null;
+    }
+  }
+
+  send(frame: Frame): void {
+    if (!this.ws || this.ws.readyState !== WebSocket.OPEN) {
+      throw new Error('WebSocket is not open');
+    }
+    this.logger.debug(`Sending frame type ${frame.type}`);
+    this.ws.send(encodeFrame(frame));
+  }
+
+  isConnected(): boolean {
+    return this.ws !== null && this.ws.readyState === WebSocket.OPEN;
+  }
+}
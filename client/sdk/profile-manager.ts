@@ -0,0 +1,204 @@
+import { PublicKey, HexString } from './types';
+import { IKeyManager } from './key-manager';
+import { IStorage } from './storage';
+import { TypedEventEmitter, EventMap } from './events';
+import { Logger, createConsoleLogger } from './logger';
+
+// Карточка профиля: ник, аватар (URL или data:-URI), статус и номер версии, подписанные
+// ключом владельца. Карточка уходит собеседнику сообщением PROFILE перед первым сообщением ему
+// и после каждого изменения профиля; получив чужую карточку, отвечаем своей, если он её не видел.
+// Чужие карточки кэшируются в IStorage; принимается только карточка от самого владельца
+// и только с большей версией
+
+export interface Profile {
+  nick: string;
+  avatar?: string;
+  status?: string;
+  version: number;
+}
+
+export type ProfileChanges = Partial<Pick<Profile, 'nick' | 'avatar' | 'status'>>;
+
+interface ProfileCard extends Profile {
+  key: HexString;
+  signature: HexString;
+}
+
+export interface ProfileManagerEvents extends EventMap {
+  updated: [key: HexString, profile: Profile];
+}
+
+// Отправка карточки собеседнику (так же, как обычные сообщения клиента)
+export type ProfileSender = (target: PublicKey, card: Uint8Array) => void;
+
+const OWN_KEY = 'sdk:profile';
+const CONTACTS_KEY = 'sdk:profiles';
+const DELIVERED_KEY = 'sdk:profileDelivered';
+const LEGACY_NICK_KEY = 'sdk:nick';
+const DEFAULT_NICK = 'Anonymous';
+
+export const MAX_NICK_LENGTH = 64;
+export const MAX_STATUS_LENGTH = 256;
+export const MAX_AVATAR_LENGTH = 64 * 1024;
+
+const PROFILE_CONTEXT = 'exvia-profile-v1';
+
+function toHex(bytes: Uint8Array): HexString {
+  return Array.from(bytes).map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+function fromHex(hex: HexString): Uint8Array {
+  return new Uint8Array((hex.match(/.{2}/g) || []).map(b => parseInt(b, 16)));
+}
+
+// Подписывается фиксированный порядок полей, а не JSON карточки: порядок ключей объекта не гарантирован
+function signedData(key: HexString, profile: Profile): Uint8Array {
+  return new TextEncoder().encode(JSON.stringify([
+    PROFILE_CONTEXT, key, profile.nick, profile.avatar ?? null, profile.status ?? null, profile.version,
+  ]));
+}
+
+function validate(profile: ProfileChanges): void {
+  if (profile.nick !== undefined && (profile.nick.length === 0 || profile.nick.length > MAX_NICK_LENGTH)) {
+    throw new Error(`Nick must be 1..${MAX_NICK_LENGTH} characters`);
+  }
+  if (profile.status !== undefined && profile.status.length > MAX_STATUS_LENGTH) {
+    throw new Error(`Status must be at most ${MAX_STATUS_LENGTH} characters`);
+  }
+  if (profile.avatar !== undefined && profile.avatar.length > MAX_AVATAR_LENGTH) {
+    throw new Error(`Avatar must be at most ${MAX_AVATAR_LENGTH} characters`);
+  }
+}
+
+export class ProfileManager extends TypedEventEmitter<ProfileManagerEvents> {
+  private own: Profile = { nick: DEFAULT_NICK, version: 1 };
+  private contacts = new Map<HexString, ProfileCard>();
+  // собеседник → версия нашей карточки, которую он уже получил
+  private delivered = new Map<HexString, number>();
+
+  constructor(
+    private keyManager: IKeyManager,
+    private storage: IStorage,
+    private sendCard: ProfileSender,
+    private logger: Logger = createConsoleLogger()
+  ) {
+    super();
+  }
+
+  async load(): Promise<void> {
+    const [own, contacts, delivered, legacyNick] = await Promise.all([
+      this.storage.getItem(OWN_KEY),
+      this.storage.getItem(CONTACTS_KEY),
+      this.storage.getItem(DELIVERED_KEY),
+      this.storage.getItem(LEGACY_NICK_KEY),
+    ]);
+    // Ник, сохранённый до появления профилей, становится первой версией профиля
+    this.own = own ? JSON.parse(own) : { nick: legacyNick || DEFAULT_NICK, version: 1 };
+    this.contacts = new Map(Object.entries(contacts ? JSON.parse(contacts) : {}));
+    this.delivered = new Map(Object.entries(delivered ? JSON.parse(delivered) : {}));
+  }
+
+  getOwn(): Profile {
+    return { ...this.own };
+  }
+
+  get(key: HexString): Profile | null {
+    const card = this.contacts.get(key);
+    return card ? this.toProfile(card) : null;
+  }
+
+  // Новая версия профиля; connected – можно сразу разослать её знакомым, иначе – при подключении
+  async update(changes: ProfileChanges, connected: boolean): Promise<Profile> {
+    validate(changes);
+    const next: Profile = { ...this.own, ...changes, version: this.own.version + 1 };
+    if (next.avatar === '') delete next.avatar;
+    if (next.status === '') delete next.status;
+    this.own = next;
+    await this.storage.setItem(OWN_KEY, JSON.stringify(next));
+    if (connected) {
+      this.sendToStale();
+    }
+    return this.getOwn();
+  }
+
+  // Перед сообщением собеседнику: не видел текущей версии – отправляем карточку
+  ensureSent(target: PublicKey): void {
+    const targetHex = toHex(target);
+    if (targetHex === this.keyManager.getPublicKeyHex()) return;
+    if (this.delivered.get(targetHex) === this.own.version) return;
+    this.sendCard(target, this.encodeOwn());
+    this.delivered.set(targetHex, this.own.version);
+    this.saveDelivered();
+  }
+
+  // После подключения и смены профиля: всем знакомым, кто видел старую версию
+  sendToStale(): void {
+    for (const [keyHex, version] of this.delivered) {
+      if (version === this.own.version) continue;
+      try {
+        this.ensureSent(fromHex(keyHex));
+      } catch (err) {
+        this.logger.warn(`Failed to send profile to ${keyHex.slice(0, 8)}:`, err);
+        return;
+      }
+    }
+  }
+
+  async handleCard(from: PublicKey, content: Uint8Array): Promise<void> {
+    const senderHex = toHex(from);
+    let card: ProfileCard;
+    try {
+      card = JSON.parse(new TextDecoder().decode(content));
+      if (typeof card.nick !== 'string' || typeof card.version !== 'number' || typeof card.signature !== 'string') {
+        throw new Error('missing fields');
+      }
+      validate(card);
+    } catch {
+      this.logger.warn(`Malformed profile card from ${senderHex.slice(0, 8)}`);
+      return;
+    }
+    const signature = /^[0-9a-f]{128}$/.test(card.signature) ? fromHex(card.signature) : null;
+    if (card.key !== senderHex || !signature || !this.keyManager.verify(from, signedData(card.key, card), signature)) {
+      this.logger.warn(`Rejected profile card from ${senderHex.slice(0, 8)}: bad key or signature`);
+      return;
+    }
+
+    // Собеседник нас знает – пусть знает и наш актуальный профиль
+    try {
+      this.ensureSent(from);
+    } catch (err) {
+      this.logger.warn(`Failed to send profile to ${senderHex.slice(0, 8)}:`, err);
+    }
+
+    const current = this.contacts.get(senderHex);
+    if (current && current.version >= card.version) return;
+    // Храним только поля карточки: лишнее из чужого JSON в хранилище не попадает
+    this.contacts.set(senderHex, { ...this.toProfile(card), key: card.key, signature: card.signature });
+    await this.storage.setItem(CONTACTS_KEY, JSON.stringify(Object.fromEntries(this.contacts)));
+    this.logger.debug(`Profile of ${senderHex.slice(0, 8)} updated to v${card.version}`);
+    this.emit('updated', senderHex, this.toProfile(card));
+  }
+
+  private encodeOwn(): Uint8Array {
+    const key = this.keyManager.getPublicKeyHex();
+    const card: ProfileCard = {
+      ...this.own,
+      key,
+      signature: toHex(this.keyManager.sign(signedData(key, this.own))),
+    };
+    return new TextEncoder().encode(JSON.stringify(card));
+  }
+
+  // Только поля профиля, без служебных полей карточки
+  private toProfile(card: ProfileCard): Profile {
+    const profile: Profile = { nick: card.nick, version: card.version };
+    if (typeof card.avatar === 'string') profile.avatar = card.avatar;
+    if (typeof card.status === 'string') profile.status = card.status;
+    return profile;
+  }
+
+  private saveDelivered(): void {
+    this.storage.setItem(DELIVERED_KEY, JSON.stringify(Object.fromEntries(this.delivered)))
+      .catch(err => this.logger.warn('Failed to save profile delivery state:', err));
+  }
+}
@@ -1,5 +1,6 @@
 import { IStorage } from './storage';
 import { TypedEventEmitter, EventMap } from './events';
+import { HexString } from './types';
 
 export interface ServerManagerEvents extends EventMap {
   listChanged: [servers: string[]];
@@ -12,6 +13,10 @@ export interface IServerManager {
   removeServer(address: string): Promise<void>;
   setSelectedServer(address: string | null): Promise<void>;
   getSelectedServer(): Promise<string | null>;
+  // Закреплённые ключи серверов (доверие при первом подключении)
+  getPinnedKey(address: string): Promise<HexString | null>;
+  pinKey(address: string, publicKey: HexString): Promise<void>;
+  forgetPinnedKey(address: string): Promise<void>;
   on<K extends keyof ServerManagerEvents>(event: K, listener: (...args: ServerManagerEvents[K]) => void): void;
   off<K extends keyof ServerManagerEvents>(event: K, listener: (...args: ServerManagerEvents[K]) => void): void;
 }
@@ -22,8 +27,10 @@ export class LocalServerManager
 {
   private servers: string[] = [];
   private selected: string | null = null;
+  private pinnedKeys: Record<string, HexString> = {};
   private readonly storageKey = 'sdk:servers';
   private readonly selectedKey = 'sdk:selectedServer';
+  private readonly pinnedKeysKey = 'sdk:serverKeys';
   private loaded = false;
 
   constructor(private storage: IStorage) {
@@ -32,12 +39,14 @@ export class LocalServerManager
 
   private async ensureLoaded(): Promise<void> {
     if (this.loaded) return;
-    const [saved, savedSelected] = await Promise.all([
+    const [saved, savedSelected, savedKeys] = await Promise.all([
       this.storage.getItem(this.storageKey),
-      this.storage.getItem(this.selectedKey)
+      this.storage.getItem(this.selectedKey),
+      this.storage.getItem(this.pinnedKeysKey)
     ]);
     this.servers = saved ? JSON.parse(saved) : [];
     this.selected = savedSelected || null;
+    this.pinnedKeys = savedKeys ? JSON.parse(savedKeys) : {};
     this.loaded = true;
   }
 
@@ -89,4 +98,23 @@ export class LocalServerManager
     await this.ensureLoaded();
     return this.selected;
   }
-}
\ No newline at end of file
+
+  async getPinnedKey(address: string): Promise<HexString | null> {
+    await this.ensureLoaded();
+    return this.pinnedKeys[address] ?? null;
+  }
+
+  async pinKey(address: string, publicKey: HexString): Promise<void> {
+    await this.ensureLoaded();
+    this.pinnedKeys[address] = publicKey;
+    await this.storage.setItem(this.pinnedKeysKey, JSON.stringify(this.pinnedKeys));
+  }
+
+  // Принять новый ключ сервера можно только явно: забыть старый и подключиться заново
+  async forgetPinnedKey(address: string): Promise<void> {
+    await this.ensureLoaded();
+    if (!(address in this.pinnedKeys)) return;
+    delete this.pinnedKeys[address];
+    await this.storage.setItem(this.pinnedKeysKey, JSON.stringify(this.pinnedKeys));
+  }
+}
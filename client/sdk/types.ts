@@ -1,5 +1,8 @@
 import { MsgType } from '../../shared/protocol';
 
+export { DeliveryStatus, CAP_ENCRYPTION, CAP_RECEIPTS, CAP_COMPRESSION, CAP_GROUPS, CAP_PUBSUB, PROTOCOL_VERSION_MIN, PROTOCOL_VERSION_MAX } from '../../shared/protocol';
+export type { Negotiated } from '../../shared/protocol';
+
 export type HexString = string;
 export type PublicKey = Uint8Array;
 export type PrivateKey = Uint8Array;
@@ -10,6 +13,11 @@ export enum ContentType {
   TEXT = 1,     // UTF-8 текст
   JSON = 2,     // JSON-объект
   FILE = 3,     // файл (имя + данные)
+  FILE_MANIFEST = 4, // передача по частям: описание файла (см. file-transfer.ts)
+  FILE_CHUNK = 5,    // передача по частям: часть файла
+  FILE_ACK = 6,      // передача по частям: подтверждение получателя
+  GROUP_INVITE = 7,  // состав и ключ группы от администратора (см. group-manager.ts)
+  PROFILE = 8,       // подписанная карточка профиля (см. profile-manager.ts)
 }
 
 export interface Frame {
@@ -17,6 +25,7 @@ export interface Frame {
   payload: Uint8Array;
   senderId: PublicKey;
   signature?: Signature;
+  msgId?: Uint8Array; // 16 байт
 }
 
 export interface MessageEvent {
@@ -1,46 +1,93 @@
 import { WebSocketServerAdapter } from './websocket/WebSocketServerAdapter';
 import { InMemoryClientRepository } from './repositories/InMemoryClientRepository';
 import { InMemoryServerPeerRepository } from './repositories/InMemoryServerPeerRepository';
+import { FileServerPeerRepository } from './repositories/FileServerPeerRepository';
 import { HandshakeHandler } from './handlers/HandshakeHandler';
 import { DataHandler } from './handlers/DataHandler';
 import { NodeInfoHandler } from './handlers/NodeInfoHandler';
+import { DeliveryStatusHandler } from './handlers/DeliveryStatusHandler';
+import { GroupDataHandler } from './handlers/GroupDataHandler';
+import { PubSubHandler } from './handlers/PubSubHandler';
 import { MessageDispatcher } from './messaging/MessageDispatcher';
 import { ClientLocationService } from './services/ClientLocationService';
 import { ServerPeerService } from './services/ServerPeerService';
-import { IConnection, IConnectionListener, ILogger } from './core/types';
-import { generateKeyPairFromSeed } from '@stablelib/ed25519';
-import { randomBytes } from 'crypto';
+import { GroupService } from './services/GroupService';
+import { PubSubService } from './services/PubSubService';
+import { MailboxService } from './services/MailboxService';
+import { DeliveryStatusService } from './services/DeliveryStatusService';
+import { RateLimitService } from './services/RateLimitService';
+import { MetricsService } from './services/MetricsService';
+import { MonitoringServer } from './http/MonitoringServer';
+import { IConnection, IConnectionListener, IServerPeerRepository, ILogger } from './core/types';
 import { Config } from './config';
-import { MsgType } from '../shared/protocol'; // <-- добавлен импорт
+import { loadOrCreateServerKey } from './identity';
 
 export class RelayServer implements IConnectionListener {
   private clientRepo = new InMemoryClientRepository();
-  private serverRepo = new InMemoryServerPeerRepository();
+  private serverRepo: IServerPeerRepository;
+  private peerStore: FileServerPeerRepository | null = null;
   private serverPrivateKey: Uint8Array;
   private serverPublicKey: Uint8Array;
 
   private handshakeHandler: HandshakeHandler;
   private dataHandler: DataHandler;
   private nodeInfoHandler: NodeInfoHandler;
+  private deliveryStatusHandler: DeliveryStatusHandler;
+  private groupDataHandler: GroupDataHandler;
+  private pubSubHandler: PubSubHandler;
   private messageDispatcher: MessageDispatcher;
   private clientLocationService: ClientLocationService;
   private serverPeerService: ServerPeerService;
+  private groupService: GroupService;
+  private pubSubService: PubSubService;
+  private mailboxService: MailboxService;
+  private deliveryStatusService: DeliveryStatusService;
+  private rateLimitService: RateLimitService;
+  private metrics = new MetricsService();
+  private monitoringServer: MonitoringServer | null = null;
   private connectionManager: WebSocketServerAdapter;
+  private logger: ILogger;
 
-  constructor(private config: Config, private logger: ILogger) {
-    const seed = randomBytes(32);
-    const keyPair = generateKeyPairFromSeed(seed);
+  constructor(private config: Config, logger: ILogger) {
+    this.logger = logger.child({ component: 'relay' });
+    const keyPair = loadOrCreateServerKey(this.config.keyFile, this.component('identity'));
     this.serverPrivateKey = keyPair.secretKey;
     this.serverPublicKey = keyPair.publicKey;
     this.logger.info(`Server public key: ${Buffer.from(this.serverPublicKey).toString('hex')}`);
 
+    if (this.config.peers.file) {
+      this.peerStore = new FileServerPeerRepository(this.config.peers.file, this.config.peers.maxFailures, this.component('peers'));
+      this.serverRepo = this.peerStore;
+    } else {
+      this.serverRepo = new InMemoryServerPeerRepository();
+    }
+
+    // 0. Почтовые ящики, лимиты и статусы доставки зависят только от репозиториев
+    this.mailboxService = new MailboxService(this.config.mailbox, this.component('mailbox'));
+    this.rateLimitService = new RateLimitService(
+      this.config.rateLimits,
+      this.clientRepo,
+      this.serverRepo,
+      this.component('rate-limit')
+    );
+    this.deliveryStatusService = new DeliveryStatusService(
+      this.clientRepo,
+      this.serverPublicKey,
+      this.component('delivery-status')
+    );
+
     // 1. Сначала создаём обработчики, которые не зависят от сервисов
     this.handshakeHandler = new HandshakeHandler(
       this.clientRepo,
       this.serverRepo,
       this.serverPrivateKey,
       this.serverPublicKey,
-      this.logger
+      this.mailboxService,
+      this.deliveryStatusService,
+      this.config.connectionLimits.handshakeTimeoutMs,
+      new Set(this.config.peers.allowedKeys),
+      this.metrics,
+      this.component('handshake')
     );
 
     // 2. Создаём serverPeerService (пока без зависимостей от clientLocationService)
@@ -49,24 +96,80 @@ export class RelayServer implements IConnectionListener {
       null as any, // messageDispatcher будет установлен позже
       this.handshakeHandler,
       this.serverPublicKey,
-      this.logger,
-      this.config.port
+      this.component('peers'),
+      this.config.port,
+      this.config.publicAddress,
+      this.config.heartbeatIntervalMs,
+      this.config.redial,
+      this.config.connectionLimits,
+      this.metrics
     );
 
     // 3. Создаём clientLocationService, который зависит от serverPeerService
     this.clientLocationService = new ClientLocationService(
+      this.clientRepo,
       this.serverRepo,
       this.serverPeerService,
+      this.mailboxService,
+      this.deliveryStatusService,
+      this.rateLimitService,
+      this.metrics,
       this.serverPublicKey,
-      this.logger
+      this.config.routing,
+      this.component('location')
     );
+    this.handshakeHandler.setClientLocationService(this.clientLocationService);
+
+    this.groupService = new GroupService(
+      this.serverPeerService,
+      this.serverPublicKey,
+      this.config.groups,
+      this.component('groups')
+    );
+    this.handshakeHandler.setGroupService(this.groupService);
+
+    this.pubSubService = new PubSubService(
+      this.serverPeerService,
+      this.serverPublicKey,
+      this.config.pubsub,
+      this.component('pubsub')
+    );
+    this.handshakeHandler.setPubSubService(this.pubSubService);
 
     // 4. Теперь можно создать dataHandler и nodeInfoHandler, которые используют clientLocationService
     this.dataHandler = new DataHandler(
       this.clientRepo,
       this.serverRepo,
       this.clientLocationService,
-      this.logger
+      this.deliveryStatusService,
+      this.mailboxService,
+      this.component('data')
+    );
+
+    this.deliveryStatusHandler = new DeliveryStatusHandler(
+      this.clientRepo,
+      this.serverRepo,
+      this.clientLocationService,
+      this.component('receipts')
+    );
+
+    this.groupDataHandler = new GroupDataHandler(
+      this.clientRepo,
+      this.serverRepo,
+      this.groupService,
+      this.clientLocationService,
+      this.deliveryStatusService,
+      this.mailboxService,
+      this.metrics,
+      this.component('groups')
+    );
+
+    this.pubSubHandler = new PubSubHandler(
+      this.clientRepo,
+      this.serverRepo,
+      this.pubSubService,
+      this.metrics,
+      this.component('pubsub')
     );
 
     this.nodeInfoHandler = new NodeInfoHandler(
@@ -74,8 +177,9 @@ export class RelayServer implements IConnectionListener {
       this.serverRepo,
       this.serverPeerService,
       this.clientLocationService,
+      this.groupService,
       this.serverPublicKey,
-      this.logger
+      this.component('node-info')
     );
 
     // 5. MessageDispatcher собирает все обработчики
@@ -83,19 +187,68 @@ export class RelayServer implements IConnectionListener {
       this.handshakeHandler,
       this.dataHandler,
       this.nodeInfoHandler,
-      this.logger
+      this.deliveryStatusHandler,
+      this.groupDataHandler,
+      this.pubSubHandler,
+      this.rateLimitService,
+      this.deliveryStatusService,
+      this.metrics,
+      this.component('dispatcher')
     );
 
     // 6. Устанавливаем dispatcher в serverPeerService
     this.serverPeerService.setMessageDispatcher(this.messageDispatcher);
 
     // 7. Инициализируем connectionManager
-    this.connectionManager = new WebSocketServerAdapter(this.config.port, this.messageDispatcher, this.logger);
+    this.connectionManager = new WebSocketServerAdapter(
+      this.config.port,
+      this.config.host,
+      this.config.heartbeatIntervalMs,
+      this.config.connectionLimits,
+      this.messageDispatcher,
+      this.metrics,
+      this.component('websocket')
+    );
     this.connectionManager.registerListener(this);
+
+    // 8. Метрики и проверки состояния по HTTP
+    this.registerGauges();
+    if (this.config.monitoring.enabled) {
+      this.monitoringServer = new MonitoringServer(
+        this.config.monitoring.port,
+        this.config.monitoring.host,
+        this.metrics,
+        () => this.connectionManager.isListening(),
+        this.component('monitoring')
+      );
+    }
+  }
+
+  private component(name: string): ILogger {
+    return this.logger.child({ component: name });
+  }
+
+  private registerGauges(): void {
+    this.metrics.registerGauge('connected_clients', 'Authenticated clients connected to this relay',
+      () => Array.from(this.clientRepo.getAll()).length);
+    this.metrics.registerGauge('connected_peers', 'Peer relays with an open connection',
+      () => Array.from(this.serverRepo.getAll()).filter(peer => peer.connection?.isOpen).length);
+    this.metrics.registerGauge('known_peers', 'Peer relays known to this relay, connected or not',
+      () => Array.from(this.serverRepo.getAll()).length);
+    this.metrics.registerGauge('mailbox_frames', 'Frames waiting in mailboxes for offline clients',
+      () => this.mailboxService.totalFrames);
+    this.metrics.registerGauge('known_groups', 'Group rosters known to this relay',
+      () => this.groupService.size);
+    this.metrics.registerGauge('subscribed_topics', 'Topics with at least one subscriber on this relay',
+      () => this.pubSubService.topicCount);
   }
 
   async start(): Promise<void> {
     this.connectionManager.start();
+    this.monitoringServer?.start();
+    this.mailboxService.start();
+    this.rateLimitService.start();
+    this.pubSubService.start();
     for (const peerAddress of this.config.seedPeers) {
       try {
         await this.serverPeerService.connectToPeer(peerAddress);
@@ -103,21 +256,51 @@ export class RelayServer implements IConnectionListener {
         this.logger.error(`Failed to connect to seed peer ${peerAddress}:`, err);
       }
     }
+    await this.redialKnownPeers();
+  }
+
+  // Соседи из реестра, начиная с недавно виденных; адрес входящих соседей может быть неизвестен
+  private async redialKnownPeers(): Promise<void> {
+    const known = Array.from(this.serverRepo.getAll())
+      .filter(peer => peer.address !== 'unknown' && !peer.connection)
+      .sort((a, b) => (b.lastSeen?.getTime() ?? 0) - (a.lastSeen?.getTime() ?? 0));
+    if (known.length > 0) {
+      this.logger.info(`Redialing ${known.length} known peers`);
+    }
+    for (const peer of known) {
+      try {
+        await this.serverPeerService.connectToPeer(peer.address);
+      } catch (err) {
+        this.logger.error(`Failed to connect to known peer ${peer.address}:`, err);
+      }
+    }
   }
 
   async stop(): Promise<void> {
     this.connectionManager.stop();
+    this.monitoringServer?.stop();
+    this.serverPeerService.stop();
+    this.mailboxService.stop();
+    this.rateLimitService.stop();
+    this.pubSubService.stop();
+    this.peerStore?.close();
   }
 
   onConnection(connection: IConnection): void {
     // Отправляем challenge каждому новому подключению
-    const challenge = randomBytes(32);
-    this.handshakeHandler.setPendingChallenge(connection, challenge);
-    connection.send({
-      type: MsgType.HANDSHAKE,
-      payload: new Uint8Array(challenge),
-      senderId: new Uint8Array(32), // пустой senderId
-    });
-    this.logger.debug(`Sent challenge to new connection ${connection.id}`);
+    connection.send(this.handshakeHandler.buildChallenge(connection));
+    this.logger.debug(`Sent challenge to new connection ${connection.id}`, { conn: connection.id });
+  }
+
+  onDisconnection(connection: IConnection): void {
+    const client = this.clientRepo.getByConnection(connection);
+    if (client && client.connection === connection) {
+      const clientHex = Buffer.from(client.publicKey).toString('hex');
+      this.clientRepo.remove(clientHex);
+      this.clientLocationService.announcePresence(client.publicKey, false);
+      this.pubSubService.removeClient(clientHex);
+      return;
+    }
+    this.serverPeerService.handleDisconnect(connection);
   }
 }
\ No newline at end of file
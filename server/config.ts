@@ -1,21 +1,386 @@
+import { existsSync, readFileSync } from 'fs';
+import { dirname, resolve } from 'path';
+import { FRAME_HEADER_LENGTH } from '../shared/protocol';
+import { DEFAULT_LOGGING, LOG_LEVELS, LoggingConfig, LogLevel, LogSinkConfig } from './logger';
+
+export interface MailboxConfig {
+  maxMessagesPerRecipient: number;
+  maxBytesPerRecipient: number;
+  maxAgeMs: number;
+}
+
+export interface RedialConfig {
+  initialDelayMs: number;
+  maxDelayMs: number;
+}
+
+export interface RoutingConfig {
+  locationTtlMs: number;        // сколько помним, у какого соседа находится клиент
+  queryTimeoutMs: number;       // ожидание ответов на запрос местоположения
+  maxPendingFrames: number;     // кадров на получателя, ждущих ответа; остальные – в почтовый ящик
+  maxHops: number;              // на сколько серверов дальше соседей уходит запрос местоположения
+}
+
+// 0 в любом поле – без ограничения; ёмкость ведра – rate * burstSeconds
+export interface RateLimitConfig {
+  framesPerSecond: number;
+  bytesPerSecond: number;
+  queriesPerSecond: number;     // поиски клиента по соседям, которые может вызвать отправитель
+  burstSeconds: number;
+}
+
+export interface RateLimitsConfig {
+  client: RateLimitConfig;
+  server: RateLimitConfig;      // соседи пересылают трафик многих клиентов – лимиты выше
+}
+
+export interface ConnectionLimitsConfig {
+  maxFrameBytes: number;        // больший кадр (заголовок + payload) закрывает соединение ещё до разбора
+  handshakeTimeoutMs: number;   // не прошедшее рукопожатие за это время соединение закрывается; 0 – без ограничения
+  maxBufferedBytes: number;     // неотправленные данные на соединение; сверх – кадр не отправляется
+}
+
+export interface MonitoringConfig {
+  enabled: boolean;
+  port: number;                 // HTTP: /metrics, /healthz, /readyz
+  host: string;
+}
+
+export interface GroupsConfig {
+  maxGroups: number;            // составов групп в памяти; новые сверх предела отклоняются
+  maxMembers: number;           // участников в одной группе
+  maxGroupsPerClient: number;   // новых групп, которые может добавить один локальный клиент
+  idleTtlMs: number;            // группа без сообщений и составов дольше этого забывается; 0 – не забывать
+}
+
+export interface PubSubConfig {
+  maxSubscriptionsPerClient: number;
+  maxTopics: number;            // записей о подписках других ретрансляторов (ретранслятор × тема)
+  interestTtlMs: number;        // подписка другого ретранслятора без повтора дольше этого забывается
+}
+
+export interface PeersConfig {
+  file: string | null;          // реестр известных соседей; null – только в памяти
+  maxFailures: number;          // соседи с таким числом неудач подряд при запуске забываются
+  allowedKeys: string[];        // hex-ключи ретрансляторов, которые могут подключаться к нам соседями;
+                                // кроме них – только те, к кому мы сами подключались по адресу
+}
+
 export interface Config {
   port: number;
+  host: string;
+  publicAddress: string | null; // адрес, который сообщаем клиентам и соседям (ws://...)
+  keyFile: string;              // файл с seed ключа сервера
   seedPeers: string[];
+  peers: PeersConfig;           // после перезапуска переподключаемся ко всем известным соседям
+  heartbeatIntervalMs: number;  // 0 – без heartbeat
+  redial: RedialConfig;         // переподключение к соседям после обрыва
+  mailbox: MailboxConfig;
+  routing: RoutingConfig;
+  groups: GroupsConfig;
+  pubsub: PubSubConfig;
+  rateLimits: RateLimitsConfig;
+  connectionLimits: ConnectionLimitsConfig;
+  monitoring: MonitoringConfig;
+  logging: LoggingConfig;       // перечитывается по SIGHUP без перезапуска
+}
+
+// Файл конфигурации по умолчанию ищется в текущей директории; другой путь – через --config
+const DEFAULT_CONFIG_FILE = 'relay.config.json';
+
+const defaults: Config = {
+  port: 8080,
+  host: '0.0.0.0',
+  publicAddress: null,
+  keyFile: 'relay-key.json',
+  seedPeers: [],
+  peers: {
+    file: 'relay-peers.json',
+    maxFailures: 50,
+    allowedKeys: [],
+  },
+  heartbeatIntervalMs: 15000,
+  redial: {
+    initialDelayMs: 1000,
+    maxDelayMs: 60000,
+  },
+  mailbox: {
+    maxMessagesPerRecipient: 100,
+    maxBytesPerRecipient: 4 * 1024 * 1024,
+    maxAgeMs: 24 * 60 * 60 * 1000,
+  },
+  routing: {
+    locationTtlMs: 5 * 60 * 1000,
+    queryTimeoutMs: 5000,
+    maxPendingFrames: 100,
+    maxHops: 4,
+  },
+  groups: {
+    maxGroups: 10000,
+    maxMembers: 256,
+    maxGroupsPerClient: 100,
+    idleTtlMs: 7 * 24 * 60 * 60 * 1000,
+  },
+  pubsub: {
+    maxSubscriptionsPerClient: 100,
+    maxTopics: 10000,
+    interestTtlMs: 15 * 60 * 1000,
+  },
+  rateLimits: {
+    client: {
+      framesPerSecond: 50,
+      bytesPerSecond: 2 * 1024 * 1024,
+      queriesPerSecond: 5,
+      burstSeconds: 2,
+    },
+    server: {
+      framesPerSecond: 2000,
+      bytesPerSecond: 32 * 1024 * 1024,
+      queriesPerSecond: 200,
+      burstSeconds: 2,
+    },
+  },
+  connectionLimits: {
+    maxFrameBytes: 1024 * 1024,
+    handshakeTimeoutMs: 10000,
+    maxBufferedBytes: 8 * 1024 * 1024,
+  },
+  monitoring: {
+    enabled: false,
+    port: 9090,
+    host: '127.0.0.1',
+  },
+  logging: DEFAULT_LOGGING,
+};
+
+// Переменная окружения PORT, как и до появления файла конфигурации, переопределяет port из файла
+export function loadConfig(args: string[] = process.argv.slice(2), env: NodeJS.ProcessEnv = process.env): Config {
+  return applyEnv(readConfigFile(args), env);
+}
+
+function applyEnv(config: Config, env: NodeJS.ProcessEnv): Config {
+  if (env.PORT === undefined || env.PORT === '') return config;
+  const port = Number(env.PORT);
+  if (!Number.isInteger(port) || port < 1 || port > 65535) {
+    throw new Error('Environment variable PORT must be an integer in [1, 65535]');
+  }
+  return { ...config, port };
+}
+
+function readConfigFile(args: string[]): Config {
+  const configIndex = args.indexOf('--config');
+  const explicitPath = configIndex !== -1 ? args[configIndex + 1] : undefined;
+  if (configIndex !== -1 && !explicitPath) {
+    throw new Error('--config requires a file path');
+  }
+
+  const path = resolve(explicitPath ?? DEFAULT_CONFIG_FILE);
+  if (!existsSync(path)) {
+    if (explicitPath) throw new Error(`Config file not found: ${path}`);
+    return {
+      ...defaults,
+      keyFile: resolve(defaults.keyFile),
+      peers: { ...defaults.peers, file: resolve(defaults.peers.file!) },
+    };
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(readFileSync(path, 'utf8'));
+  } catch (err) {
+    throw new Error(`Failed to read config file ${path}: ${(err as Error).message}`);
+  }
+  return parseConfig(raw, dirname(path));
+}
+
+// Относительные keyFile и peers.file считаются от директории файла конфигурации
+export function parseConfig(raw: unknown, baseDir: string): Config {
+  if (!isObject(raw)) throw new Error('Config must be a JSON object');
+
+  const mailbox = raw.mailbox ?? {};
+  if (!isObject(mailbox)) throw new Error('Config field "mailbox" must be an object');
+  const redial = raw.redial ?? {};
+  if (!isObject(redial)) throw new Error('Config field "redial" must be an object');
+  const routing = raw.routing ?? {};
+  if (!isObject(routing)) throw new Error('Config field "routing" must be an object');
+  const groups = raw.groups ?? {};
+  if (!isObject(groups)) throw new Error('Config field "groups" must be an object');
+  const pubsub = raw.pubsub ?? {};
+  if (!isObject(pubsub)) throw new Error('Config field "pubsub" must be an object');
+  const rateLimits = raw.rateLimits ?? {};
+  if (!isObject(rateLimits)) throw new Error('Config field "rateLimits" must be an object');
+  const connectionLimits = raw.connectionLimits ?? {};
+  if (!isObject(connectionLimits)) throw new Error('Config field "connectionLimits" must be an object');
+  const peers = raw.peers ?? {};
+  if (!isObject(peers)) throw new Error('Config field "peers" must be an object');
+  const monitoring = raw.monitoring ?? {};
+  if (!isObject(monitoring)) throw new Error('Config field "monitoring" must be an object');
+  const logging = raw.logging ?? {};
+  if (!isObject(logging)) throw new Error('Config field "logging" must be an object');
+
+  const publicAddress = raw.publicAddress ?? null;
+  if (publicAddress !== null && (typeof publicAddress !== 'string' || !isWsAddress(publicAddress))) {
+    throw new Error('Config field "publicAddress" must be a ws:// or wss:// address');
+  }
+
+  const seedPeers = raw.seedPeers ?? defaults.seedPeers;
+  if (!Array.isArray(seedPeers) || !seedPeers.every(p => typeof p === 'string' && isWsAddress(p))) {
+    throw new Error('Config field "seedPeers" must be an array of ws:// or wss:// addresses');
+  }
+
+  return {
+    port: readInteger(raw, 'port', defaults.port, 1, 65535),
+    host: readString(raw, 'host', defaults.host),
+    publicAddress,
+    keyFile: resolve(baseDir, readString(raw, 'keyFile', defaults.keyFile)),
+    seedPeers,
+    peers: {
+      file: readPeersFile(peers, baseDir),
+      maxFailures: readInteger(peers, 'maxFailures', defaults.peers.maxFailures, 1),
+      allowedKeys: readPeerKeys(peers),
+    },
+    heartbeatIntervalMs: readInteger(raw, 'heartbeatIntervalMs', defaults.heartbeatIntervalMs, 0),
+    redial: {
+      initialDelayMs: readInteger(redial, 'initialDelayMs', defaults.redial.initialDelayMs, 1),
+      maxDelayMs: readInteger(redial, 'maxDelayMs', defaults.redial.maxDelayMs, 1),
+    },
+    mailbox: {
+      maxMessagesPerRecipient: readInteger(mailbox, 'maxMessagesPerRecipient', defaults.mailbox.maxMessagesPerRecipient, 0),
+      maxBytesPerRecipient: readInteger(mailbox, 'maxBytesPerRecipient', defaults.mailbox.maxBytesPerRecipient, 0),
+      maxAgeMs: readInteger(mailbox, 'maxAgeMs', defaults.mailbox.maxAgeMs, 0),
+    },
+    routing: {
+      locationTtlMs: readInteger(routing, 'locationTtlMs', defaults.routing.locationTtlMs, 0),
+      queryTimeoutMs: readInteger(routing, 'queryTimeoutMs', defaults.routing.queryTimeoutMs, 1),
+      maxPendingFrames: readInteger(routing, 'maxPendingFrames', defaults.routing.maxPendingFrames, 1),
+      maxHops: readInteger(routing, 'maxHops', defaults.routing.maxHops, 1, 255),
+    },
+    groups: {
+      maxGroups: readInteger(groups, 'maxGroups', defaults.groups.maxGroups, 1),
+      maxMembers: readInteger(groups, 'maxMembers', defaults.groups.maxMembers, 1, 0xffff),
+      maxGroupsPerClient: readInteger(groups, 'maxGroupsPerClient', defaults.groups.maxGroupsPerClient, 1),
+      idleTtlMs: readInteger(groups, 'idleTtlMs', defaults.groups.idleTtlMs, 0),
+    },
+    pubsub: {
+      maxSubscriptionsPerClient: readInteger(pubsub, 'maxSubscriptionsPerClient', defaults.pubsub.maxSubscriptionsPerClient, 1),
+      maxTopics: readInteger(pubsub, 'maxTopics', defaults.pubsub.maxTopics, 1),
+      interestTtlMs: readInteger(pubsub, 'interestTtlMs', defaults.pubsub.interestTtlMs, 3),
+    },
+    rateLimits: {
+      client: readRateLimit(rateLimits, 'client', defaults.rateLimits.client),
+      server: readRateLimit(rateLimits, 'server', defaults.rateLimits.server),
+    },
+    connectionLimits: {
+      maxFrameBytes: readInteger(connectionLimits, 'maxFrameBytes', defaults.connectionLimits.maxFrameBytes, FRAME_HEADER_LENGTH),
+      handshakeTimeoutMs: readInteger(connectionLimits, 'handshakeTimeoutMs', defaults.connectionLimits.handshakeTimeoutMs, 0),
+      maxBufferedBytes: readInteger(connectionLimits, 'maxBufferedBytes', defaults.connectionLimits.maxBufferedBytes, 1),
+    },
+    monitoring: {
+      enabled: readBoolean(monitoring, 'enabled', defaults.monitoring.enabled),
+      port: readInteger(monitoring, 'port', defaults.monitoring.port, 1, 65535),
+      host: readString(monitoring, 'host', defaults.monitoring.host),
+    },
+    logging: readLogging(logging, baseDir),
+  };
+}
+
+function readPeersFile(peers: Record<string, unknown>, baseDir: string): string | null {
+  if (peers.file === null) return null;
+  return resolve(baseDir, readString(peers, 'file', defaults.peers.file!));
+}
+
+// Относительный путь файлового приёмника, как и keyFile, считается от директории конфигурации
+function readPeerKeys(peers: Record<string, unknown>): string[] {
+  const keys = peers.allowedKeys ?? [];
+  if (!Array.isArray(keys) || !keys.every(key => typeof key === 'string' && /^[0-9a-fA-F]{64}$/.test(key))) {
+    throw new Error('Config field "peers.allowedKeys" must be an array of 32-byte hex keys');
+  }
+  return keys.map(key => key.toLowerCase());
 }
 
-const port = process.env.PORT ? parseInt(process.env.PORT, 10) : 8080;
-const seedPeers: string[] = [];
+function readLogging(logging: Record<string, unknown>, baseDir: string): LoggingConfig {
+  const components = logging.components ?? {};
+  if (!isObject(components)) throw new Error('Config field "logging.components" must be an object');
+  const sinks = logging.sinks ?? defaults.logging.sinks;
+  if (!Array.isArray(sinks) || sinks.length === 0) {
+    throw new Error('Config field "logging.sinks" must be a non-empty array');
+  }
+  return {
+    level: readLogLevel(logging, 'level', defaults.logging.level),
+    components: Object.fromEntries(
+      Object.keys(components).map(name => [name, readLogLevel(components, name, defaults.logging.level)])
+    ),
+    sinks: sinks.map((sink): LogSinkConfig => {
+      if (!isObject(sink)) throw new Error('Config field "logging.sinks" must contain objects');
+      if (sink.type === 'file') {
+        if (typeof sink.path !== 'string' || sink.path.length === 0) {
+          throw new Error('Config field "path" of a file sink must be a non-empty string');
+        }
+        return { type: 'file', path: resolve(baseDir, sink.path) };
+      }
+      if (sink.type === 'console') {
+        const format = sink.format ?? 'json';
+        if (format !== 'json' && format !== 'text') {
+          throw new Error('Config field "format" of a console sink must be "json" or "text"');
+        }
+        return { type: 'console', format };
+      }
+      throw new Error('Config field "type" of a log sink must be "console" or "file"');
+    }),
+  };
+}
+
+function readLogLevel(obj: Record<string, unknown>, field: string, fallback: LogLevel): LogLevel {
+  const value = obj[field];
+  if (value === undefined) return fallback;
+  if (typeof value !== 'string' || !(LOG_LEVELS as readonly string[]).includes(value)) {
+    throw new Error(`Config field "${field}" must be one of ${LOG_LEVELS.join(', ')}`);
+  }
+  return value as LogLevel;
+}
+
+function readRateLimit(obj: Record<string, unknown>, field: string, fallback: RateLimitConfig): RateLimitConfig {
+  const limits = obj[field] ?? {};
+  if (!isObject(limits)) throw new Error(`Config field "rateLimits.${field}" must be an object`);
+  return {
+    framesPerSecond: readInteger(limits, 'framesPerSecond', fallback.framesPerSecond, 0),
+    bytesPerSecond: readInteger(limits, 'bytesPerSecond', fallback.bytesPerSecond, 0),
+    queriesPerSecond: readInteger(limits, 'queriesPerSecond', fallback.queriesPerSecond, 0),
+    burstSeconds: readInteger(limits, 'burstSeconds', fallback.burstSeconds, 1),
+  };
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isWsAddress(value: string): boolean {
+  return /^wss?:\/\/.+/.test(value);
+}
+
+function readInteger(obj: Record<string, unknown>, field: string, fallback: number, min: number, max = Number.MAX_SAFE_INTEGER): number {
+  const value = obj[field];
+  if (value === undefined) return fallback;
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < min || value > max) {
+    throw new Error(`Config field "${field}" must be an integer between ${min} and ${max}`);
+  }
+  return value;
+}
 
-const args = process.argv.slice(2);
-const connectIndex = args.indexOf('--connect');
-if (connectIndex !== -1) {
-  const peerAddress = args[connectIndex + 1];
-  if (peerAddress) { // проверка на undefined
-    seedPeers.push(peerAddress);
+function readString(obj: Record<string, unknown>, field: string, fallback: string): string {
+  const value = obj[field];
+  if (value === undefined) return fallback;
+  if (typeof value !== 'string' || value.length === 0) {
+    throw new Error(`Config field "${field}" must be a non-empty string`);
   }
+  return value;
 }
 
-export const config: Config = {
-  port,
-  seedPeers,
-};
\ No newline at end of file
+function readBoolean(obj: Record<string, unknown>, field: string, fallback: boolean): boolean {
+  const value = obj[field];
+  if (value === undefined) return fallback;
+  if (typeof value !== 'boolean') {
+    throw new Error(`Config field "${field}" must be true or false`);
+  }
+  return value;
+}
@@ -1,15 +1,19 @@
 import { Frame, PublicKey } from '../../shared/protocol';
 
 export interface IConnection {
-  send(frame: Frame): void;
+  send(frame: Frame): boolean; // false – соединение закрыто или буфер отправки переполнен
   close(): void;
   readonly id: string;
   readonly isOpen: boolean;
   peerType?: 'client' | 'server'; // это поле уже есть
+  address?: string; // адрес соседа, если соединение исходящее
+  protocolVersion?: number; // договорились в рукопожатии
+  capabilities?: number;    // CAP_* из shared/protocol, общие для обеих сторон
 }
 
 export interface IConnectionListener {
   onConnection(connection: IConnection): void;
+  onDisconnection(connection: IConnection): void;
 }
 
 export interface IConnectionManager {
@@ -29,6 +33,8 @@ export interface IServerPeerInfo {
   publicKey: PublicKey;
   address: string;
   connection?: IConnection;
+  lastSeen?: Date;    // последнее успешное рукопожатие
+  failures?: number;  // неудачных подключений подряд
 }
 
 export interface IClientRepository {
@@ -47,11 +53,18 @@ export interface IServerPeerRepository {
   has(publicKeyHex: string): boolean;
   getAll(): IterableIterator<IServerPeerInfo>;
   getByConnection(connection: IConnection): IServerPeerInfo | undefined;
+  markSeen(publicKeyHex: string): void;   // рукопожатие прошло – счётчик неудач сбрасывается
+  markFailure(address: string): void;     // подключение по адресу не дошло до рукопожатия
 }
 
+// Поля структурированной записи лога: component, conn, key и т.п.
+export type LogContext = Record<string, unknown>;
+
 export interface ILogger {
   info(...args: any[]): void;
   warn(...args: any[]): void;
   error(...args: any[]): void;
   debug(...args: any[]): void;
+  // Логгер, добавляющий context к каждой записи
+  child(context: LogContext): ILogger;
 }
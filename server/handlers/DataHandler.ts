@@ -1,12 +1,17 @@
 import { IConnection, IClientRepository, IServerPeerRepository, ILogger } from '../core/types';
-import { Frame, MsgType } from '../../shared/protocol';
+import { DeliveryStatus, Frame, MsgType } from '../../shared/protocol';
 import { ClientLocationService } from '../services/ClientLocationService';
+import { DeliveryStatusService } from '../services/DeliveryStatusService';
+import { MailboxService } from '../services/MailboxService';
+import { verify } from '@stablelib/ed25519';
 
 export class DataHandler {
   constructor(
     private clientRepo: IClientRepository,
     private serverRepo: IServerPeerRepository,
     private locationService: ClientLocationService,
+    private deliveryStatus: DeliveryStatusService,
+    private mailbox: MailboxService,
     private logger: ILogger
   ) {}
 
@@ -14,13 +19,17 @@ export class DataHandler {
     const senderClient = this.clientRepo.getByConnection(connection);
     const senderServer = this.serverRepo.getByConnection(connection);
     if (!senderClient && !senderServer) {
-      this.logger.warn(`Received DATA from unauthenticated connection ${connection.id}`);
+      this.logger.warn(`Received DATA from unauthenticated connection ${connection.id}`, { conn: connection.id });
       connection.close();
       return;
     }
 
     if (frame.payload.length < 32) {
-      this.logger.warn(`Invalid DATA payload length from ${connection.id}`);
+      this.logger.warn(`Invalid DATA payload length from ${connection.id}`, { conn: connection.id });
+      return;
+    }
+
+    if (!this.checkSender(connection, frame, !!senderClient)) {
       return;
     }
 
@@ -28,17 +37,73 @@ export class DataHandler {
     const targetHex = Buffer.from(targetKey).toString('hex');
     const targetClient = this.clientRepo.get(targetHex);
 
+    if (senderClient) {
+      this.deliveryStatus.notify(frame, targetKey, DeliveryStatus.ACCEPTED, connection);
+    }
+
     if (targetClient) {
-      this.logger.debug(`Delivering DATA to local client ${targetHex.slice(0,8)}`);
-      targetClient.connection.send({
-        type: MsgType.DATA,
-        payload: frame.payload.slice(32),
-        senderId: frame.senderId,
-      });
+      this.logger.debug(`Delivering ${MsgType[frame.type]} to local client ${targetHex.slice(0,8)}`, { key: targetHex.slice(0, 8) });
+      // Кадр уходит без изменений: тип, подпись и msgId разбирает только получатель
+      if (targetClient.connection.send(frame)) {
+        this.deliveryStatus.notify(frame, targetKey, DeliveryStatus.DELIVERED, connection);
+        return;
+      }
+      // Получатель не успевает забирать данные – кадр ждёт в почтовом ящике до переподключения
+      const queued = this.mailbox.enqueue(targetHex, frame);
+      this.deliveryStatus.notify(frame, targetKey, queued ? DeliveryStatus.QUEUED : DeliveryStatus.FAILED, connection);
       return;
     }
 
-    this.logger.debug(`Client ${targetHex.slice(0,8)} not local, querying...`);
-    await this.locationService.forwardToRemoteClient(targetKey, frame, senderClient || senderServer);
+    // Отправителя неподписанного DATA знает только его ретранслятор, соседи такой кадр не примут:
+    // он ждёт получателя здесь, в почтовом ящике
+    if (frame.type === MsgType.DATA) {
+      const queued = this.mailbox.enqueue(targetHex, frame);
+      this.deliveryStatus.notify(frame, targetKey, queued ? DeliveryStatus.QUEUED : DeliveryStatus.FAILED, connection);
+      return;
+    }
+
+    this.logger.debug(`Client ${targetHex.slice(0,8)} not local, querying...`, { key: targetHex.slice(0, 8) });
+    await this.locationService.forwardToRemoteClient(targetKey, frame, connection);
+  }
+
+  // Отправитель в заголовке должен совпадать с тем, кто прошёл рукопожатие:
+  // от клиента – его собственный ключ, от соседа – не ключ нашего локального клиента.
+  // Подпись содержимого SIGNED_DATA проверяем на любом ретрансляторе; ENCRYPTED_DATA
+  // подписан внутри шифртекста и проверяется получателем. Неподписанный DATA от соседа
+  // не проверить ничем – такие кадры отбрасываются
+  private checkSender(connection: IConnection, frame: Frame, fromClient: boolean): boolean {
+    const senderHex = Buffer.from(frame.senderId).toString('hex');
+    if (fromClient) {
+      const client = this.clientRepo.getByConnection(connection)!;
+      if (!Buffer.from(client.publicKey).equals(Buffer.from(frame.senderId))) {
+        this.logger.warn(`Client ${connection.id} sent ${MsgType[frame.type]} as ${senderHex.slice(0,8)}, dropping`, { conn: connection.id, key: senderHex.slice(0, 8) });
+        return false;
+      }
+    } else {
+      const localClient = this.clientRepo.get(senderHex);
+      if (localClient && localClient.connection !== connection) {
+        this.logger.warn(`Peer ${connection.id} relayed ${MsgType[frame.type]} from our local client ${senderHex.slice(0,8)}, dropping`, { conn: connection.id, key: senderHex.slice(0, 8) });
+        return false;
+      }
+      if (frame.type === MsgType.DATA) {
+        this.logger.warn(`Peer ${connection.id} relayed unsigned DATA as ${senderHex.slice(0,8)}, dropping`, { conn: connection.id, key: senderHex.slice(0, 8) });
+        return false;
+      }
+    }
+
+    if (frame.type === MsgType.SIGNED_DATA) {
+      // [target(32), подпись(64), содержимое]
+      if (frame.payload.length < 32 + 64) {
+        this.logger.warn(`Invalid SIGNED_DATA payload length from ${connection.id}`, { conn: connection.id });
+        return false;
+      }
+      const signature = frame.payload.slice(32, 32 + 64);
+      const content = frame.payload.slice(32 + 64);
+      if (!verify(frame.senderId, content, signature)) {
+        this.logger.warn(`Bad SIGNED_DATA signature from ${senderHex.slice(0,8)} via ${connection.id}, dropping`, { conn: connection.id, key: senderHex.slice(0, 8) });
+        return false;
+      }
+    }
+    return true;
   }
-}
\ No newline at end of file
+}
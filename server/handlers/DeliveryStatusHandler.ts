@@ -0,0 +1,51 @@
+import { IConnection, IClientRepository, IServerPeerRepository, ILogger } from '../core/types';
+import { Frame, MsgType } from '../../shared/protocol';
+import { ClientLocationService } from '../services/ClientLocationService';
+import { supportsReceipts } from '../services/DeliveryStatusService';
+
+// Статусы доставки, пришедшие от соседних серверов для наших клиентов
+export class DeliveryStatusHandler {
+  constructor(
+    private clientRepo: IClientRepository,
+    private serverRepo: IServerPeerRepository,
+    private locationService: ClientLocationService,
+    private logger: ILogger
+  ) {}
+
+  async handle(connection: IConnection, frame: Frame): Promise<void> {
+    if (!this.serverRepo.getByConnection(connection)) {
+      this.logger.warn(`Received DELIVERY_STATUS from non-server connection ${connection.id}`, { conn: connection.id });
+      return;
+    }
+
+    if (frame.payload.length < 1 + 32 + 32) {
+      this.logger.warn(`Invalid DELIVERY_STATUS payload length from ${connection.id}`, { conn: connection.id });
+      return;
+    }
+
+    const senderHex = Buffer.from(frame.payload.slice(1 + 32, 1 + 32 + 32)).toString('hex');
+    const client = this.clientRepo.get(senderHex);
+    if (!client) {
+      // Отправитель за несколько хопов: квитанция идёт обратно тем же путём, что и кадр
+      const returnPath = frame.msgId && this.locationService.getReturnPath(frame.msgId);
+      if (returnPath && returnPath !== connection && returnPath.peerType === 'server' && supportsReceipts(returnPath)) {
+        returnPath.send(frame);
+        return;
+      }
+      this.logger.debug(`Delivery status for unknown client ${senderHex.slice(0,8)}`, { key: senderHex.slice(0, 8) });
+      return;
+    }
+
+    if (!supportsReceipts(client.connection)) return;
+
+    const receipt: Frame = {
+      type: MsgType.DELIVERY_STATUS,
+      payload: frame.payload.slice(0, 1 + 32),
+      senderId: frame.senderId,
+    };
+    if (frame.msgId) {
+      receipt.msgId = frame.msgId;
+    }
+    client.connection.send(receipt);
+  }
+}
@@ -0,0 +1,112 @@
+import { IConnection, IClientRepository, IServerPeerRepository, ILogger } from '../core/types';
+import { DeliveryStatus, Frame, GROUP_ID_LENGTH } from '../../shared/protocol';
+import { GroupService } from '../services/GroupService';
+import { ClientLocationService } from '../services/ClientLocationService';
+import { DeliveryStatusService } from '../services/DeliveryStatusService';
+import { MailboxService } from '../services/MailboxService';
+import { MetricsService } from '../services/MetricsService';
+
+// GROUP_DATA: [groupId(32), версия ключа(4), зашифрованное содержимое].
+// Отправитель загружает сообщение один раз; каждый ретранслятор отдаёт его своим участникам
+// и пересылает соседям, понимающим группы. Повтор по другому пути отсекается по msgId.
+// Квитанции: ACCEPTED / FAILED с ключом группы, DELIVERED / QUEUED – с ключом участника
+export class GroupDataHandler {
+  constructor(
+    private clientRepo: IClientRepository,
+    private serverRepo: IServerPeerRepository,
+    private groupService: GroupService,
+    private locationService: ClientLocationService,
+    private deliveryStatus: DeliveryStatusService,
+    private mailbox: MailboxService,
+    private metrics: MetricsService,
+    private logger: ILogger
+  ) {}
+
+  async handle(connection: IConnection, frame: Frame): Promise<void> {
+    const senderClient = this.clientRepo.getByConnection(connection);
+    const senderServer = this.serverRepo.getByConnection(connection);
+    if (!senderClient && !senderServer) {
+      this.logger.warn(`Received GROUP_DATA from unauthenticated connection ${connection.id}`, { conn: connection.id });
+      connection.close();
+      return;
+    }
+
+    if (frame.payload.length < GROUP_ID_LENGTH + 4) {
+      this.logger.warn(`Invalid GROUP_DATA payload length from ${connection.id}`, { conn: connection.id });
+      return;
+    }
+
+    const senderHex = Buffer.from(frame.senderId).toString('hex');
+    if (senderClient) {
+      if (!Buffer.from(senderClient.publicKey).equals(Buffer.from(frame.senderId))) {
+        this.logger.warn(`Client ${connection.id} sent GROUP_DATA as ${senderHex.slice(0,8)}, dropping`, { conn: connection.id, key: senderHex.slice(0, 8) });
+        return;
+      }
+    } else {
+      const localClient = this.clientRepo.get(senderHex);
+      if (localClient && localClient.connection !== connection) {
+        this.logger.warn(`Peer ${connection.id} relayed GROUP_DATA from our local client ${senderHex.slice(0,8)}, dropping`, { conn: connection.id, key: senderHex.slice(0, 8) });
+        return;
+      }
+    }
+
+    const groupId = frame.payload.slice(0, GROUP_ID_LENGTH);
+    const groupHex = Buffer.from(groupId).toString('hex');
+    const members = this.groupService.getMembers(groupHex);
+    if (!members || !members.has(senderHex)) {
+      this.logger.warn(`${senderHex.slice(0,8)} is not a member of group ${groupHex.slice(0,8)}, dropping`, { conn: connection.id, key: senderHex.slice(0, 8) });
+      if (senderClient) {
+        this.deliveryStatus.notify(frame, groupId, DeliveryStatus.FAILED, connection);
+      }
+      return;
+    }
+
+    // Без msgId не отличить повтор от нового сообщения – такие кадры не рассылаем
+    if (!frame.msgId || frame.msgId.every(b => b === 0)) {
+      this.logger.warn(`GROUP_DATA without msgId from ${connection.id}, dropping`, { conn: connection.id });
+      return;
+    }
+    const msgIdHex = Buffer.from(frame.msgId).toString('hex');
+    if (!this.groupService.markMessage(msgIdHex)) {
+      this.logger.debug(`Group message ${msgIdHex.slice(0,8)} already handled`);
+      return;
+    }
+    this.groupService.touch(groupHex);
+
+    if (senderClient) {
+      this.deliveryStatus.notify(frame, groupId, DeliveryStatus.ACCEPTED, connection);
+    } else {
+      // Квитанции наших участников уходят обратно к соседу, от которого пришло сообщение
+      this.locationService.rememberReturnPath(frame.msgId, connection);
+    }
+    this.metrics.inc('group_messages_total');
+
+    let delivered = 0;
+    for (const memberHex of members) {
+      if (memberHex === senderHex) continue;
+      const member = this.clientRepo.get(memberHex);
+      const memberKey = Buffer.from(memberHex, 'hex');
+      if (member) {
+        if (member.connection.send(frame)) {
+          delivered++;
+          this.deliveryStatus.notify(frame, memberKey, DeliveryStatus.DELIVERED, connection);
+          continue;
+        }
+        const queued = this.mailbox.enqueue(memberHex, frame);
+        this.deliveryStatus.notify(frame, memberKey, queued ? DeliveryStatus.QUEUED : DeliveryStatus.FAILED, connection);
+        continue;
+      }
+      // Участник не в сети нигде, куда мы знаем маршрут: сообщение ждёт его в почтовом ящике
+      // ретранслятора отправителя. Если он всё же в сети за несколько хопов, он получит
+      // сообщение и рассылкой – SDK отбрасывает повтор по msgId
+      if (senderClient && !this.locationService.hasRoute(memberHex)) {
+        const queued = this.mailbox.enqueue(memberHex, frame);
+        this.deliveryStatus.notify(frame, memberKey, queued ? DeliveryStatus.QUEUED : DeliveryStatus.FAILED, connection);
+      }
+    }
+    this.metrics.inc('group_deliveries_total', {}, delivered);
+
+    const sentTo = this.groupService.forwardToPeers(frame, senderServer ? connection : undefined);
+    this.logger.debug(`Group message ${msgIdHex.slice(0,8)} for ${groupHex.slice(0,8)}: ${delivered} local, ${sentTo} peers`);
+  }
+}
@@ -1,74 +1,229 @@
 import { IConnection, IClientRepository, IServerPeerRepository, ILogger } from '../core/types';
-import { Frame, MsgType, PublicKey } from '../../shared/protocol';
+import {
+  CAP_ENCRYPTION,
+  CAP_GROUPS,
+  CAP_PUBSUB,
+  CAP_RECEIPTS,
+  CLIENT_RESPONSE_LENGTH,
+  DeliveryStatus,
+  Frame,
+  HANDSHAKE_CHALLENGE_LENGTH,
+  HANDSHAKE_CONFIRM,
+  HANDSHAKE_REJECT,
+  HELLO_LENGTH,
+  HandshakeRejectCode,
+  Hello,
+  LEGACY_HELLO,
+  MsgType,
+  PROTOCOL_VERSION_MAX,
+  PROTOCOL_VERSION_MIN,
+  PublicKey,
+  confirmSignedData,
+  decodeHandshakeReject,
+  decodeHello,
+  encodeHandshakeConfirm,
+  encodeHandshakeReject,
+  encodeHello,
+  negotiate,
+} from '../../shared/protocol';
+import { MailboxService } from '../services/MailboxService';
+import { DeliveryStatusService } from '../services/DeliveryStatusService';
+import { ClientLocationService } from '../services/ClientLocationService';
+import { GroupService } from '../services/GroupService';
+import { PubSubService } from '../services/PubSubService';
+import { MetricsService } from '../services/MetricsService';
 import { sign, verify } from '@stablelib/ed25519';
 import { randomBytes } from 'crypto';
 
+// Что объявляет ретранслятор в HELLO
+const SERVER_HELLO: Hello = {
+  minVersion: PROTOCOL_VERSION_MIN,
+  maxVersion: PROTOCOL_VERSION_MAX,
+  capabilities: CAP_ENCRYPTION | CAP_RECEIPTS | CAP_GROUPS | CAP_PUBSUB,
+};
+
 export class HandshakeHandler {
-  private pendingChallenges = new Map<IConnection, Buffer>();
+  // WeakMap: challenge соединения, закрытого без ответа, не держится в памяти
+  private pendingChallenges = new WeakMap<IConnection, Buffer>();
+  // Входящие соединения, приславшие нам свой challenge: так делают только серверы-соседи
+  private peerChallengers = new WeakSet<IConnection>();
+  // Входящие соседи, подтвердившие рукопожатие раньше, чем мы проверили их ключ
+  private earlyConfirms = new WeakSet<IConnection>();
+  private locationService: ClientLocationService | null = null;
+  private groupService: GroupService | null = null;
+  private pubsub: PubSubService | null = null;
 
   constructor(
     private clientRepo: IClientRepository,
     private serverRepo: IServerPeerRepository,
     private serverPrivateKey: Uint8Array,
     private serverPublicKey: PublicKey,
+    private mailbox: MailboxService,
+    private deliveryStatus: DeliveryStatusService,
+    private handshakeTimeoutMs: number,
+    private allowedPeerKeys: ReadonlySet<string>,
+    private metrics: MetricsService,
     private logger: ILogger
   ) {}
 
-  public setPendingChallenge(connection: IConnection, challenge: Buffer): void {
+  // ClientLocationService создаётся позже (зависит от ServerPeerService, которому нужен этот обработчик)
+  public setClientLocationService(locationService: ClientLocationService): void {
+    this.locationService = locationService;
+  }
+
+  public setGroupService(groupService: GroupService): void {
+    this.groupService = groupService;
+  }
+
+  public setPubSubService(pubsub: PubSubService): void {
+    this.pubsub = pubsub;
+  }
+
+  private setPendingChallenge(connection: IConnection, challenge: Buffer): void {
     this.pendingChallenges.set(connection, challenge);
   }
 
+  // Challenge для нового соединения (входящего или исходящего к соседу): 32 случайных байта + HELLO
+  public buildChallenge(connection: IConnection): Frame {
+    const challenge = randomBytes(HANDSHAKE_CHALLENGE_LENGTH);
+    this.setPendingChallenge(connection, challenge);
+    this.armDeadline(connection);
+    const payload = new Uint8Array(HANDSHAKE_CHALLENGE_LENGTH + HELLO_LENGTH);
+    payload.set(challenge, 0);
+    payload.set(encodeHello(SERVER_HELLO), HANDSHAKE_CHALLENGE_LENGTH);
+    return {
+      type: MsgType.HANDSHAKE,
+      payload,
+      senderId: new Uint8Array(32), // пустой senderId
+    };
+  }
+
+  // Соединение, так и не прошедшее рукопожатие, закрываем, чтобы оно не занимало слот
+  private armDeadline(connection: IConnection): void {
+    if (this.handshakeTimeoutMs <= 0) return;
+    const timer = setTimeout(() => {
+      if (!connection.isOpen) return;
+      if (this.clientRepo.getByConnection(connection) || this.serverRepo.getByConnection(connection)) return;
+      this.logger.warn(`[Handshake] ${connection.id} did not authenticate in ${this.handshakeTimeoutMs} ms, closing`, { conn: connection.id });
+      this.metrics.inc('handshake_failures_total', { reason: 'timeout' });
+      this.pendingChallenges.delete(connection);
+      connection.close();
+    }, this.handshakeTimeoutMs);
+    timer.unref();
+  }
+
+  // HELLO идёт после 32 байт challenge; без него сторона говорит на версии 1
+  private readHello(payload: Uint8Array): Hello {
+    return payload.length >= HANDSHAKE_CHALLENGE_LENGTH + HELLO_LENGTH
+      ? decodeHello(payload.slice(HANDSHAKE_CHALLENGE_LENGTH))
+      : LEGACY_HELLO;
+  }
+
+  private reject(connection: IConnection, code: HandshakeRejectCode, reason: string): void {
+    this.logger.warn(`[Handshake] Rejecting ${connection.id}: ${reason}`, { conn: connection.id });
+    this.metrics.inc('handshake_failures_total', { reason: HandshakeRejectCode[code].toLowerCase() });
+    connection.send({
+      type: MsgType.HANDSHAKE,
+      payload: encodeHandshakeReject(code, reason),
+      senderId: this.serverPublicKey,
+    });
+    connection.close();
+  }
+
+  // decodeFrame всегда отдаёт подпись; её отсутствие передаётся нулями
+  private hasSignature(frame: Frame): boolean {
+    return !!frame.signature && frame.signature.some(b => b !== 0);
+  }
+
   async handle(connection: IConnection, frame: Frame): Promise<void> {
-    this.logger.info(`[Handshake] Received frame from ${connection.id}, type: ${frame.type}, payload length: ${frame.payload.length}, has sig: ${!!frame.signature}`);
+    const signed = this.hasSignature(frame);
+    this.logger.info(`[Handshake] Received frame from ${connection.id}, type: ${frame.type}, payload length: ${frame.payload.length}, has sig: ${signed}`, { conn: connection.id });
+
+    const length = frame.payload.length;
+    const isChallengeLength = length === HANDSHAKE_CHALLENGE_LENGTH || length === HANDSHAKE_CHALLENGE_LENGTH + HELLO_LENGTH;
 
     // Challenge from peer (без подписи)
-    if (frame.payload.length === 32 && !frame.signature) {
+    if (isChallengeLength && !signed) {
       await this.handleIncomingChallenge(connection, frame);
     }
-    // Response with signature
-    else if (frame.payload.length === 32 && frame.signature) {
+    // Response with signature (у клиента версии 3 – со своим challenge в конце)
+    else if ((isChallengeLength || length === CLIENT_RESPONSE_LENGTH) && signed) {
       await this.handleAuthentication(connection, frame);
     }
     // Handshake confirm
-    else if (frame.payload.length === 1 && frame.payload[0] === 1) {
+    else if ((length === 1 || length === 6) && frame.payload[0] === HANDSHAKE_CONFIRM) {
       await this.handleHandshakeConfirm(connection, frame);
     }
+    // Отказ другой стороны (например, несовместимые версии)
+    else if (length >= 2 && length < HANDSHAKE_CHALLENGE_LENGTH && frame.payload[0] === HANDSHAKE_REJECT) {
+      const { reason } = decodeHandshakeReject(frame.payload);
+      this.logger.warn(`[Handshake] Rejected by ${connection.id}: ${reason}`, { conn: connection.id });
+      this.metrics.inc('handshake_failures_total', { reason: 'rejected_by_peer' });
+      connection.close();
+    }
     else {
-      this.logger.warn(`Unexpected handshake frame from ${connection.id}`);
+      this.logger.warn(`Unexpected handshake frame from ${connection.id}`, { conn: connection.id });
+      this.metrics.inc('handshake_failures_total', { reason: 'unexpected_frame' });
       connection.close();
     }
   }
 
   private async handleIncomingChallenge(connection: IConnection, frame: Frame): Promise<void> {
-    this.logger.info(`[Handshake] Incoming challenge from ${connection.id}`);
-    const signature = sign(this.serverPrivateKey, frame.payload);
+    this.logger.info(`[Handshake] Incoming challenge from ${connection.id}`, { conn: connection.id });
+    if (connection.peerType !== 'server') {
+      this.peerChallengers.add(connection);
+    }
+    // Сосед старой версии ждёт подпись ровно под 32 байтами, без HELLO
+    const legacy = frame.payload.length === HANDSHAKE_CHALLENGE_LENGTH;
+    if (!legacy && !negotiate(SERVER_HELLO, this.readHello(frame.payload))) {
+      this.reject(connection, HandshakeRejectCode.UNSUPPORTED_VERSION, this.unsupportedReason());
+      return;
+    }
+    const payload = new Uint8Array(frame.payload.length);
+    payload.set(frame.payload.slice(0, HANDSHAKE_CHALLENGE_LENGTH), 0);
+    if (!legacy) {
+      payload.set(encodeHello(SERVER_HELLO), HANDSHAKE_CHALLENGE_LENGTH);
+    }
+    const signature = sign(this.serverPrivateKey, payload);
     connection.send({
       type: MsgType.HANDSHAKE,
-      payload: frame.payload,
+      payload,
       senderId: this.serverPublicKey,
       signature,
     });
-    this.logger.info(`[Handshake] Sent signed challenge response to ${connection.id}`);
+    this.logger.info(`[Handshake] Sent signed challenge response to ${connection.id}`, { conn: connection.id });
   }
 
   private async handleAuthentication(connection: IConnection, frame: Frame): Promise<void> {
-    this.logger.info(`[Handshake] Received authentication from ${connection.id}`);
+    this.logger.info(`[Handshake] Received authentication from ${connection.id}`, { conn: connection.id });
     const publicKey = frame.senderId;
     const isValid = verify(publicKey, frame.payload, frame.signature!);
     if (!isValid) {
-      this.logger.warn(`[Handshake] Invalid signature from ${connection.id}`);
+      this.logger.warn(`[Handshake] Invalid signature from ${connection.id}`, { conn: connection.id });
+      this.metrics.inc('handshake_failures_total', { reason: 'invalid_signature' });
       connection.close();
       return;
     }
-    this.logger.info(`[Handshake] Signature valid for ${connection.id}`);
+    this.logger.info(`[Handshake] Signature valid for ${connection.id}`, { conn: connection.id });
 
     const publicKeyHex = Buffer.from(publicKey).toString('hex');
     const expectedChallenge = this.pendingChallenges.get(connection);
+    const nonce = Buffer.from(frame.payload.slice(0, HANDSHAKE_CHALLENGE_LENGTH));
+
+    const negotiated = negotiate(SERVER_HELLO, this.readHello(frame.payload));
+    if (!negotiated) {
+      this.reject(connection, HandshakeRejectCode.UNSUPPORTED_VERSION, this.unsupportedReason());
+      return;
+    }
+    connection.protocolVersion = negotiated.version;
+    connection.capabilities = negotiated.capabilities;
+    this.logger.debug(`[Handshake] ${connection.id} negotiated v${negotiated.version}, capabilities 0x${negotiated.capabilities.toString(16)}`, { conn: connection.id });
 
     if (connection.peerType === 'server') {
       // Это исходящее соединение к другому серверу (мы инициировали)
-      if (!expectedChallenge || !Buffer.from(frame.payload).equals(expectedChallenge)) {
-        this.logger.warn(`[Handshake] Challenge mismatch for outgoing server ${publicKeyHex.slice(0,8)}`);
+      if (!expectedChallenge || !nonce.equals(expectedChallenge)) {
+        this.logger.warn(`[Handshake] Challenge mismatch for outgoing server ${publicKeyHex.slice(0,8)}`, { key: publicKeyHex.slice(0, 8) });
+        this.metrics.inc('handshake_failures_total', { reason: 'challenge_mismatch' });
         connection.close();
         return;
       }
@@ -77,61 +232,82 @@ export class HandshakeHandler {
       // Закрываем старое соединение, если оно было
       const existing = this.serverRepo.get(publicKeyHex);
       if (existing && existing.connection) {
-        this.logger.info(`[Handshake] Server ${publicKeyHex.slice(0,8)} reconnecting, closing old connection`);
+        this.logger.info(`[Handshake] Server ${publicKeyHex.slice(0,8)} reconnecting, closing old connection`, { key: publicKeyHex.slice(0, 8) });
         existing.connection.close();
       }
 
       let peer = this.serverRepo.get(publicKeyHex);
       if (!peer) {
-        peer = { publicKey, address: 'unknown', connection };
+        peer = { publicKey, address: connection.address ?? 'unknown', connection };
       } else {
         peer.connection = connection;
+        if (connection.address) {
+          peer.address = connection.address;
+        }
       }
       this.serverRepo.add(peer);
-      this.logger.info(`[Handshake] Outgoing server ${publicKeyHex.slice(0,8)} authenticated`);
+      this.serverRepo.markSeen(publicKeyHex);
+      this.logger.info(`[Handshake] Outgoing server ${publicKeyHex.slice(0,8)} authenticated`, { key: publicKeyHex.slice(0, 8) });
       connection.send({
         type: MsgType.HANDSHAKE,
-        payload: new Uint8Array([1]),
+        payload: encodeHandshakeConfirm(negotiated),
         senderId: this.serverPublicKey,
       });
-      this.logger.info(`[Handshake] Sent confirmation to outgoing server ${connection.id}`);
+      this.logger.info(`[Handshake] Sent confirmation to outgoing server ${connection.id}`, { conn: connection.id });
     } else {
       // Входящее соединение (клиент или другой сервер)
       if (!expectedChallenge) {
-        this.logger.warn(`[Handshake] No pending challenge for connection ${connection.id}`);
+        this.logger.warn(`[Handshake] No pending challenge for connection ${connection.id}`, { conn: connection.id });
+        this.metrics.inc('handshake_failures_total', { reason: 'no_challenge' });
         connection.close();
         return;
       }
-      if (!Buffer.from(frame.payload).equals(expectedChallenge)) {
-        this.logger.warn(`[Handshake] Challenge mismatch for incoming connection ${publicKeyHex.slice(0,8)}`);
+      if (!nonce.equals(expectedChallenge)) {
+        this.logger.warn(`[Handshake] Challenge mismatch for incoming connection ${publicKeyHex.slice(0,8)}`, { key: publicKeyHex.slice(0, 8) });
+        this.metrics.inc('handshake_failures_total', { reason: 'challenge_mismatch' });
         connection.close();
         return;
       }
       this.pendingChallenges.delete(connection);
 
-      // Проверяем, не является ли это известным сервером
-      const existingServer = this.serverRepo.get(publicKeyHex);
+      // Соседом становится только разрешённый в конфигурации ключ или ретранслятор, к которому
+      // мы сами подключались по адресу. Остальным доступ соседа (рассылки, квитанции,
+      // присутствие, лимиты серверов) не даётся: ретранслятор с чужим ключом получает отказ
+      const known = this.serverRepo.get(publicKeyHex);
+      const trusted = this.allowedPeerKeys.has(publicKeyHex) || (!!known && known.address !== 'unknown');
+      const challenger = this.peerChallengers.has(connection);
+      if (challenger && !trusted) {
+        this.reject(connection, HandshakeRejectCode.UNKNOWN_PEER, 'peer key not allowed');
+        return;
+      }
+      // Новый разрешённый сосед: адрес неизвестен, пока он сам не подключился к нам исходящим соединением
+      const existingServer = trusted ? known ?? (challenger ? { publicKey, address: 'unknown' } : undefined) : undefined;
       if (existingServer) {
         // Это сервер, подключающийся к нам – закрываем старое соединение
         if (existingServer.connection) {
-          this.logger.info(`[Handshake] Incoming server ${publicKeyHex.slice(0,8)} reconnecting, closing old connection`);
+          this.logger.info(`[Handshake] Incoming server ${publicKeyHex.slice(0,8)} reconnecting, closing old connection`, { key: publicKeyHex.slice(0, 8) });
           existingServer.connection.close();
         }
         existingServer.connection = connection;
         this.serverRepo.add(existingServer);
+        this.serverRepo.markSeen(publicKeyHex);
         connection.peerType = 'server';
-        this.logger.info(`[Handshake] Incoming server ${publicKeyHex.slice(0,8)} authenticated`);
+        this.logger.info(`[Handshake] Incoming server ${publicKeyHex.slice(0,8)} authenticated`, { key: publicKeyHex.slice(0, 8) });
         connection.send({
           type: MsgType.HANDSHAKE,
-          payload: new Uint8Array([1]),
+          payload: encodeHandshakeConfirm(negotiated),
           senderId: this.serverPublicKey,
         });
-        this.logger.info(`[Handshake] Sent confirmation to incoming server ${connection.id}`);
+        this.logger.info(`[Handshake] Sent confirmation to incoming server ${connection.id}`, { conn: connection.id });
+        if (this.earlyConfirms.has(connection)) {
+          this.earlyConfirms.delete(connection);
+          this.announceTo(connection);
+        }
       } else {
         // Это клиент
         const existingClient = this.clientRepo.get(publicKeyHex);
         if (existingClient) {
-          this.logger.info(`[Handshake] Client ${publicKeyHex.slice(0,8)} reconnecting, closing old connection`);
+          this.logger.info(`[Handshake] Client ${publicKeyHex.slice(0,8)} reconnecting, closing old connection`, { key: publicKeyHex.slice(0, 8) });
           existingClient.connection.close();
           this.clientRepo.remove(publicKeyHex);
         }
@@ -142,19 +318,64 @@ export class HandshakeHandler {
         };
         this.clientRepo.add(clientInfo);
         connection.peerType = 'client';
-        this.logger.info(`[Handshake] Client ${publicKeyHex.slice(0,8)} authenticated`);
-        connection.send({
-          type: MsgType.HANDSHAKE,
-          payload: new Uint8Array([1]),
-          senderId: this.serverPublicKey,
-        });
-        this.logger.info(`[Handshake] Sent confirmation to client ${connection.id}`);
+        this.logger.info(`[Handshake] Client ${publicKeyHex.slice(0,8)} authenticated`, { key: publicKeyHex.slice(0, 8) });
+        connection.send(this.buildClientConfirm(frame.payload, encodeHandshakeConfirm(negotiated)));
+        this.logger.info(`[Handshake] Sent confirmation to client ${connection.id}`, { conn: connection.id });
+        this.flushMailbox(connection, publicKey, publicKeyHex);
+        this.locationService?.announcePresence(publicKey, true);
       }
     }
   }
 
+  // Клиент версии 3 прислал свой challenge: подписью подтверждения сервер доказывает владение ключом
+  private buildClientConfirm(response: Uint8Array, confirm: Uint8Array): Frame {
+    const frame: Frame = {
+      type: MsgType.HANDSHAKE,
+      payload: confirm,
+      senderId: this.serverPublicKey,
+    };
+    if (response.length === CLIENT_RESPONSE_LENGTH) {
+      const clientChallenge = response.slice(HANDSHAKE_CHALLENGE_LENGTH + HELLO_LENGTH);
+      frame.signature = sign(this.serverPrivateKey, confirmSignedData(clientChallenge, confirm));
+    }
+    return frame;
+  }
+
+  private unsupportedReason(): string {
+    return `need protocol v${PROTOCOL_VERSION_MIN}-${PROTOCOL_VERSION_MAX}`;
+  }
+
+  // Доставляем кадры, накопленные пока клиент был не в сети
+  private flushMailbox(connection: IConnection, publicKey: PublicKey, publicKeyHex: string): void {
+    const queued = this.mailbox.takeAll(publicKeyHex);
+    if (queued.length === 0) return;
+    this.logger.info(`[Handshake] Delivering ${queued.length} queued frames to client ${publicKeyHex.slice(0,8)}`, { key: publicKeyHex.slice(0, 8) });
+    for (let i = 0; i < queued.length; i++) {
+      const frame = queued[i]!;
+      if (!connection.send(frame)) {
+        // Буфер отправки переполнен: остаток возвращается в ящик до следующего подключения
+        queued.slice(i).forEach(rest => this.mailbox.enqueue(publicKeyHex, rest));
+        this.logger.warn(`[Handshake] ${queued.length - i} queued frames for ${publicKeyHex.slice(0,8)} left in mailbox`, { key: publicKeyHex.slice(0, 8) });
+        return;
+      }
+      this.deliveryStatus.notify(frame, publicKey, DeliveryStatus.DELIVERED);
+    }
+  }
+
   private async handleHandshakeConfirm(connection: IConnection, frame: Frame): Promise<void> {
-    this.logger.debug(`[Handshake] Confirm from ${connection.id}`);
-    // ничего не делаем
+    this.logger.debug(`[Handshake] Confirm from ${connection.id}`, { conn: connection.id });
+    // Сосед нас принял – отправляем ему список наших клиентов для кэша маршрутов,
+    // известные составы групп и подписки на темы. Входящему соседу – только после проверки его ключа
+    if (connection.peerType === 'server') {
+      this.announceTo(connection);
+    } else if (this.peerChallengers.has(connection)) {
+      this.earlyConfirms.add(connection);
+    }
+  }
+
+  private announceTo(connection: IConnection): void {
+    this.locationService?.announceAllTo(connection);
+    this.groupService?.announceAllTo(connection);
+    this.pubsub?.announceAllTo(connection);
   }
 }
\ No newline at end of file
@@ -1,7 +1,8 @@
 import { IConnection, IClientRepository, IServerPeerRepository, ILogger } from '../core/types';
-import { Frame, MsgType, NODE_INFO_REQUEST_SERVERS, NODE_INFO_RESPONSE_SERVERS, NODE_INFO_ADD_SERVER, NODE_INFO_QUERY_CLIENT, NODE_INFO_QUERY_RESPONSE } from '../../shared/protocol';
+import { Frame, MsgType, NODE_INFO_REQUEST_SERVERS, NODE_INFO_RESPONSE_SERVERS, NODE_INFO_ADD_SERVER, NODE_INFO_QUERY_CLIENT, NODE_INFO_QUERY_RESPONSE, NODE_INFO_PRESENCE, NODE_INFO_GROUP_ROSTER } from '../../shared/protocol';
 import { ServerPeerService } from '../services/ServerPeerService';
 import { ClientLocationService } from '../services/ClientLocationService';
+import { GroupService } from '../services/GroupService';
 
 export class NodeInfoHandler {
   constructor(
@@ -9,6 +10,7 @@ export class NodeInfoHandler {
     private serverRepo: IServerPeerRepository,
     private serverPeerService: ServerPeerService,
     private locationService: ClientLocationService,
+    private groupService: GroupService,
     private serverPublicKey: Uint8Array,
     private logger: ILogger
   ) {}
@@ -17,7 +19,7 @@ export class NodeInfoHandler {
     const senderClient = this.clientRepo.getByConnection(connection);
     const senderServer = this.serverRepo.getByConnection(connection);
     if (!senderClient && !senderServer) {
-      this.logger.warn(`Received NODE_INFO from unauthenticated connection ${connection.id}`);
+      this.logger.warn(`Received NODE_INFO from unauthenticated connection ${connection.id}`, { conn: connection.id });
       connection.close();
       return;
     }
@@ -42,13 +44,31 @@ export class NodeInfoHandler {
       case NODE_INFO_QUERY_RESPONSE:
         await this.handleQueryResponse(connection, frame);
         break;
+      case NODE_INFO_PRESENCE:
+        if (senderServer) {
+          this.locationService.handlePresence(connection, frame);
+        }
+        break;
+      case NODE_INFO_GROUP_ROSTER:
+        // Состав подписан администратором – принимаем и от клиентов, и от соседей
+        this.groupService.handleRoster(
+          connection,
+          frame,
+          senderClient ? Buffer.from(senderClient.publicKey).toString('hex') : undefined
+        );
+        break;
       default:
-        this.logger.warn(`Unknown NODE_INFO subtype ${subType} from ${connection.id}`);
+        this.logger.warn(`Unknown NODE_INFO subtype ${subType} from ${connection.id}`, { conn: connection.id });
     }
   }
 
   private async handleRequestServers(connection: IConnection, frame: Frame): Promise<void> {
     const servers: { publicKey: Uint8Array; address: string }[] = [];
+    // Сами сообщаем свой публичный адрес, чтобы клиенты знали ключ этого сервера
+    const ownAddress = this.serverPeerService.getPublicAddress();
+    if (ownAddress) {
+      servers.push({ publicKey: this.serverPublicKey, address: ownAddress });
+    }
     for (const peer of this.serverRepo.getAll()) {
       if (peer.address && peer.address !== 'unknown') {
         servers.push({ publicKey: peer.publicKey, address: peer.address });
@@ -101,8 +121,8 @@ export class NodeInfoHandler {
       offset += addrLen;
 
       const pubKeyHex = pubKey.toString('hex');
-      if (!this.serverRepo.has(pubKeyHex) && !pubKey.equals(this.serverPublicKey)) {
-        this.logger.info(`Discovered new server: ${addr} (${pubKeyHex.slice(0,8)})`);
+      if (!this.serverRepo.has(pubKeyHex) && !pubKey.equals(this.serverPublicKey) && !this.serverPeerService.isOwnAddress(addr)) {
+        this.logger.info(`Discovered new server: ${addr} (${pubKeyHex.slice(0,8)})`, { key: pubKeyHex.slice(0, 8) });
         this.serverRepo.add({
           publicKey: new Uint8Array(pubKey),
           address: addr,
@@ -130,7 +150,7 @@ export class NodeInfoHandler {
         return;
       }
     }
-    if (address === `ws://localhost:${this.serverPeerService.getPort()}`) {
+    if (this.serverPeerService.isOwnAddress(address)) {
       this.logger.debug(`Ignoring self address`);
       return;
     }
@@ -142,31 +162,10 @@ export class NodeInfoHandler {
   }
 
   private async handleQueryClient(connection: IConnection, frame: Frame): Promise<void> {
-    const payload = frame.payload;
-    if (payload.length < 1 + 32) return;
-    const targetKey = payload.slice(1, 33);
-    const targetHex = Buffer.from(targetKey).toString('hex');
-    const found = this.clientRepo.has(targetHex);
-    this.logger.debug(`Query for client ${targetHex.slice(0,8)}: ${found ? 'found' : 'not found'}`);
-
-    const responsePayload = found
-      ? new Uint8Array(1 + 1 + 32 + 32)
-      : new Uint8Array(1 + 1 + 32);
-    responsePayload[0] = NODE_INFO_QUERY_RESPONSE;
-    responsePayload[1] = found ? 1 : 0;
-    responsePayload.set(targetKey, 2);
-    if (found) {
-      responsePayload.set(this.serverPublicKey, 2 + 32);
-    }
-
-    connection.send({
-      type: MsgType.NODE_INFO,
-      payload: responsePayload,
-      senderId: this.serverPublicKey,
-    });
+    await this.locationService.handleQuery(connection, frame);
   }
 
   private async handleQueryResponse(connection: IConnection, frame: Frame): Promise<void> {
-    await this.locationService.handleQueryResponse(frame);
+    await this.locationService.handleQueryResponse(connection, frame);
   }
 }
\ No newline at end of file
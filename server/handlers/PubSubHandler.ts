@@ -0,0 +1,110 @@
+import { IConnection, IClientRepository, IServerPeerRepository, ILogger } from '../core/types';
+import { Frame, MsgType, decodeTopic, publicationSignedData } from '../../shared/protocol';
+import { PubSubService } from '../services/PubSubService';
+import { MetricsService } from '../services/MetricsService';
+import { verify } from '@stablelib/ed25519';
+
+// SUBSCRIBE / UNSUBSCRIBE / PUBLISH. От клиента подписка – [тема], от соседа – [тема, origin(32), seq(8)].
+// Публикация – [тема, подпись(64), содержимое]: подпись проверяет каждый ретранслятор,
+// как у SIGNED_DATA. Публикации не ставятся в почтовые ящики и не подтверждаются квитанциями
+export class PubSubHandler {
+  constructor(
+    private clientRepo: IClientRepository,
+    private serverRepo: IServerPeerRepository,
+    private pubsub: PubSubService,
+    private metrics: MetricsService,
+    private logger: ILogger
+  ) {}
+
+  async handle(connection: IConnection, frame: Frame): Promise<void> {
+    const senderClient = this.clientRepo.getByConnection(connection);
+    const senderServer = this.serverRepo.getByConnection(connection);
+    if (!senderClient && !senderServer) {
+      this.logger.warn(`Received ${MsgType[frame.type]} from unauthenticated connection ${connection.id}`, { conn: connection.id });
+      connection.close();
+      return;
+    }
+
+    let topic: string;
+    let topicLength: number;
+    try {
+      ({ topic, length: topicLength } = decodeTopic(frame.payload));
+    } catch {
+      this.logger.warn(`Invalid ${MsgType[frame.type]} topic from ${connection.id}`, { conn: connection.id });
+      return;
+    }
+
+    if (frame.type === MsgType.PUBLISH) {
+      this.handlePublish(connection, frame, topic, topicLength, !!senderClient);
+      return;
+    }
+
+    const subscribed = frame.type === MsgType.SUBSCRIBE;
+    if (senderClient) {
+      const clientHex = Buffer.from(senderClient.publicKey).toString('hex');
+      if (!subscribed) {
+        this.pubsub.unsubscribe(clientHex, topic);
+      } else if (!this.pubsub.subscribe(clientHex, topic)) {
+        this.logger.warn(`Client ${clientHex.slice(0,8)} exceeded subscription limit, "${topic}" ignored`, { conn: connection.id, key: clientHex.slice(0, 8) });
+      }
+      return;
+    }
+
+    if (frame.payload.length < topicLength + 32 + 8) {
+      this.logger.warn(`Invalid ${MsgType[frame.type]} payload length from ${connection.id}`, { conn: connection.id });
+      return;
+    }
+    const origin = frame.payload.slice(topicLength, topicLength + 32);
+    const dv = new DataView(frame.payload.buffer, frame.payload.byteOffset, frame.payload.byteLength);
+    const seq = Number(dv.getBigUint64(topicLength + 32, false));
+    this.pubsub.handlePeerUpdate(connection, topic, subscribed, origin, seq);
+  }
+
+  private handlePublish(connection: IConnection, frame: Frame, topic: string, topicLength: number, fromClient: boolean): void {
+    const senderHex = Buffer.from(frame.senderId).toString('hex');
+    if (fromClient) {
+      const client = this.clientRepo.getByConnection(connection)!;
+      if (!Buffer.from(client.publicKey).equals(Buffer.from(frame.senderId))) {
+        this.logger.warn(`Client ${connection.id} published as ${senderHex.slice(0,8)}, dropping`, { conn: connection.id, key: senderHex.slice(0, 8) });
+        return;
+      }
+    } else {
+      const localClient = this.clientRepo.get(senderHex);
+      if (localClient && localClient.connection !== connection) {
+        this.logger.warn(`Peer ${connection.id} relayed publication from our local client ${senderHex.slice(0,8)}, dropping`, { conn: connection.id, key: senderHex.slice(0, 8) });
+        return;
+      }
+    }
+
+    if (frame.payload.length < topicLength + 64) {
+      this.logger.warn(`Invalid PUBLISH payload length from ${connection.id}`, { conn: connection.id });
+      return;
+    }
+    const signature = frame.payload.slice(topicLength, topicLength + 64);
+    const content = frame.payload.slice(topicLength + 64);
+    if (!verify(frame.senderId, publicationSignedData(frame.payload.slice(0, topicLength), content), signature)) {
+      this.logger.warn(`Bad publication signature from ${senderHex.slice(0,8)} via ${connection.id}, dropping`, { conn: connection.id, key: senderHex.slice(0, 8) });
+      return;
+    }
+
+    // Без msgId не отличить повтор от новой публикации
+    if (!frame.msgId || frame.msgId.every(b => b === 0)) {
+      this.logger.warn(`PUBLISH without msgId from ${connection.id}, dropping`, { conn: connection.id });
+      return;
+    }
+    const msgIdHex = Buffer.from(frame.msgId).toString('hex');
+    if (!this.pubsub.markMessage(msgIdHex)) return;
+    this.metrics.inc('publications_total');
+
+    let delivered = 0;
+    for (const subscriberHex of this.pubsub.getSubscribers(topic) ?? []) {
+      if (subscriberHex === senderHex) continue;
+      // Лента не копится для отстающих: не ушло сейчас – подписчик пропускает публикацию
+      if (this.clientRepo.get(subscriberHex)?.connection.send(frame)) delivered++;
+    }
+    const sentTo = this.pubsub.hasRemoteInterest(topic)
+      ? this.pubsub.forwardToPeers(frame, fromClient ? undefined : connection)
+      : 0;
+    this.logger.debug(`Publication ${msgIdHex.slice(0,8)} to "${topic}": ${delivered} local, ${sentTo} peers`);
+  }
+}
@@ -0,0 +1,58 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { ILogger } from '../core/types';
+import { MetricsService } from '../services/MetricsService';
+
+// HTTP рядом с WebSocket-сервером: /metrics для Prometheus, /healthz и /readyz для оркестратора
+export class MonitoringServer {
+  private server: Server | null = null;
+
+  constructor(
+    private port: number,
+    private host: string,
+    private metrics: MetricsService,
+    private isReady: () => boolean,
+    private logger: ILogger
+  ) {}
+
+  start(): void {
+    if (this.server) return;
+    this.server = createServer((req, res) => this.handle(req, res));
+    this.server.on('error', (err) => {
+      this.logger.error(`Monitoring server error on ${this.host}:${this.port}:`, err);
+    });
+    this.server.listen(this.port, this.host, () => {
+      this.logger.info(`Monitoring endpoints on http://${this.host}:${this.port}`);
+    });
+  }
+
+  stop(): void {
+    this.server?.close();
+    this.server = null;
+  }
+
+  private handle(req: IncomingMessage, res: ServerResponse): void {
+    if (req.method !== 'GET' && req.method !== 'HEAD') {
+      res.writeHead(405, { Allow: 'GET, HEAD' }).end();
+      return;
+    }
+    const path = (req.url ?? '/').split('?')[0];
+    switch (path) {
+      case '/metrics':
+        res.writeHead(200, { 'Content-Type': 'text/plain; version=0.0.4; charset=utf-8' });
+        res.end(this.metrics.render());
+        break;
+      // Процесс жив и обрабатывает запросы
+      case '/healthz':
+        res.writeHead(200, { 'Content-Type': 'text/plain' }).end('ok\n');
+        break;
+      // WebSocket-сервер слушает порт и принимает подключения
+      case '/readyz': {
+        const ready = this.isReady();
+        res.writeHead(ready ? 200 : 503, { 'Content-Type': 'text/plain' }).end(ready ? 'ready\n' : 'not ready\n');
+        break;
+      }
+      default:
+        res.writeHead(404, { 'Content-Type': 'text/plain' }).end('not found\n');
+    }
+  }
+}
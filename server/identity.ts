@@ -0,0 +1,43 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { dirname } from 'path';
+import { randomBytes } from 'crypto';
+import { generateKeyPairFromSeed, KeyPair } from '@stablelib/ed25519';
+import { ILogger } from './core/types';
+
+interface KeyFileContents {
+  publicKey: string; // hex, для удобства оператора
+  seed: string;      // hex, 32 байта
+}
+
+// Ключ сервера переживает перезапуск: соседи и клиенты видят тот же publicKey
+export function loadOrCreateServerKey(path: string, logger: ILogger): KeyPair {
+  if (existsSync(path)) {
+    let data: Partial<KeyFileContents>;
+    try {
+      data = JSON.parse(readFileSync(path, 'utf8'));
+    } catch (err) {
+      throw new Error(`Failed to read key file ${path}: ${(err as Error).message}`);
+    }
+    if (typeof data.seed !== 'string' || !/^[0-9a-fA-F]{64}$/.test(data.seed)) {
+      throw new Error(`Key file ${path} has no valid 32-byte hex seed`);
+    }
+    const keyPair = generateKeyPairFromSeed(Buffer.from(data.seed, 'hex'));
+    const publicKeyHex = Buffer.from(keyPair.publicKey).toString('hex');
+    if (data.publicKey !== undefined && String(data.publicKey).toLowerCase() !== publicKeyHex) {
+      throw new Error(`Public key in ${path} does not match its seed`);
+    }
+    logger.info(`Loaded server key from ${path}`);
+    return keyPair;
+  }
+
+  const seed = randomBytes(32);
+  const keyPair = generateKeyPairFromSeed(seed);
+  const contents: KeyFileContents = {
+    publicKey: Buffer.from(keyPair.publicKey).toString('hex'),
+    seed: seed.toString('hex'),
+  };
+  mkdirSync(dirname(path), { recursive: true });
+  writeFileSync(path, JSON.stringify(contents, null, 2) + '\n', { mode: 0o600, flag: 'wx' });
+  logger.info(`Generated new server key in ${path}`);
+  return keyPair;
+}
@@ -1,9 +1,27 @@
 import { RelayServer } from './RelayServer';
-import { config } from './config';
+import { loadConfig } from './config';
 import { logger } from './logger';
 
-const server = new RelayServer(config, logger);
+let server: RelayServer;
+try {
+  const config = loadConfig();
+  logger.configure(config.logging);
+  server = new RelayServer(config, logger);
+} catch (err) {
+  logger.error('Failed to initialize server:', err);
+  process.exit(1);
+}
 server.start().catch(err => {
   logger.error('Failed to start server:', err);
   process.exit(1);
-}); 
\ No newline at end of file
+});
+
+// kill -HUP перечитывает конфигурацию и применяет только раздел logging (уровни и приёмники)
+process.on('SIGHUP', () => {
+  try {
+    logger.configure(loadConfig().logging);
+    logger.info('Logging configuration reloaded');
+  } catch (err) {
+    logger.error('Failed to reload logging configuration:', err);
+  }
+});
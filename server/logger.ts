@@ -1,23 +1,186 @@
-export interface Logger {
-  info(message: string, ...args: any[]): void;
-  warn(message: string, ...args: any[]): void;
-  error(message: string, ...args: any[]): void;
-  debug(message: string, ...args: any[]): void;
+import { createWriteStream, mkdirSync, WriteStream } from 'fs';
+import { dirname } from 'path';
+import { ILogger, LogContext } from './core/types';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error' | 'silent';
+
+export const LOG_LEVELS: readonly LogLevel[] = ['debug', 'info', 'warn', 'error', 'silent'];
+
+const LEVEL_RANK: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40, silent: 100 };
+
+// Одна запись – одна строка JSON: time, level, component, msg и поля контекста (conn, key, ...)
+export interface LogRecord extends LogContext {
+  time: string;
+  level: Exclude<LogLevel, 'silent'>;
+  msg: string;
+}
+
+export interface LogSink {
+  write(record: LogRecord): void;
+  close?(): void;
+}
+
+export type LogSinkConfig =
+  | { type: 'console'; format: 'json' | 'text' }
+  | { type: 'file'; path: string };
+
+export interface LoggingConfig {
+  level: LogLevel;
+  components: Record<string, LogLevel>; // уровень для отдельных компонентов, перекрывает level
+  sinks: LogSinkConfig[];
+}
+
+export const DEFAULT_LOGGING: LoggingConfig = {
+  level: 'info',
+  components: {},
+  sinks: [{ type: 'console', format: 'json' }],
+};
+
+// Ключи в логах – первые 8 hex-символов, как и в текстовых сообщениях
+export function shortKey(key: Uint8Array | string): string {
+  return (typeof key === 'string' ? key : Buffer.from(key).toString('hex')).slice(0, 8);
+}
+
+// warn и error – в stderr, остальное – в stdout
+export class ConsoleSink implements LogSink {
+  constructor(private format: 'json' | 'text' = 'json') {}
+
+  write(record: LogRecord): void {
+    const line = this.format === 'json' ? JSON.stringify(record) : formatText(record);
+    const stream = LEVEL_RANK[record.level] >= LEVEL_RANK.warn ? process.stderr : process.stdout;
+    stream.write(line + '\n');
+  }
+}
+
+export class FileSink implements LogSink {
+  private stream: WriteStream;
+
+  constructor(path: string) {
+    mkdirSync(dirname(path), { recursive: true });
+    this.stream = createWriteStream(path, { flags: 'a' });
+    this.stream.on('error', err => {
+      process.stderr.write(`Log file ${path} is not writable: ${err.message}\n`);
+    });
+  }
+
+  write(record: LogRecord): void {
+    this.stream.write(JSON.stringify(record) + '\n');
+  }
+
+  close(): void {
+    this.stream.end();
+  }
+}
+
+export function createSink(config: LogSinkConfig): LogSink {
+  return config.type === 'file' ? new FileSink(config.path) : new ConsoleSink(config.format);
+}
+
+// Общее состояние корневого логгера и всех его потомков: смена уровня или приёмников
+// через configure() сразу действует на уже созданные child-логгеры
+interface LoggerState {
+  level: LogLevel;
+  components: Record<string, LogLevel>;
+  sinks: LogSink[];
 }
 
-class ConsoleLogger implements Logger {
-  info(message: string, ...args: any[]): void {
-    console.log(`[INFO] ${message}`, ...args);
+export class StructuredLogger implements ILogger {
+  private constructor(private state: LoggerState, private context: LogContext) {}
+
+  static create(config: LoggingConfig = DEFAULT_LOGGING): StructuredLogger {
+    const logger = new StructuredLogger({ level: config.level, components: {}, sinks: [] }, {});
+    logger.configure(config);
+    return logger;
   }
-  warn(message: string, ...args: any[]): void {
-    console.warn(`[WARN] ${message}`, ...args);
+
+  // Применяет новую конфигурацию на лету; старые приёмники закрываются
+  configure(config: LoggingConfig): void {
+    const sinks = config.sinks.map(createSink);
+    const old = this.state.sinks;
+    this.state.level = config.level;
+    this.state.components = { ...config.components };
+    this.state.sinks = sinks;
+    for (const sink of old) sink.close?.();
   }
-  error(message: string, ...args: any[]): void {
-    console.error(`[ERROR] ${message}`, ...args);
+
+  setLevel(level: LogLevel, component?: string): void {
+    if (component === undefined) {
+      this.state.level = level;
+    } else {
+      this.state.components[component] = level;
+    }
   }
-  debug(message: string, ...args: any[]): void {
-    console.debug(`[DEBUG] ${message}`, ...args);
+
+  child(context: LogContext): StructuredLogger {
+    return new StructuredLogger(this.state, { ...this.context, ...context });
+  }
+
+  isEnabled(level: Exclude<LogLevel, 'silent'>): boolean {
+    const component = this.context.component;
+    const threshold = (typeof component === 'string' && this.state.components[component]) || this.state.level;
+    return LEVEL_RANK[level] >= LEVEL_RANK[threshold];
+  }
+
+  debug(message: string, ...args: unknown[]): void {
+    this.log('debug', message, args);
+  }
+
+  info(message: string, ...args: unknown[]): void {
+    this.log('info', message, args);
   }
+
+  warn(message: string, ...args: unknown[]): void {
+    this.log('warn', message, args);
+  }
+
+  error(message: string, ...args: unknown[]): void {
+    this.log('error', message, args);
+  }
+
+  close(): void {
+    for (const sink of this.state.sinks) sink.close?.();
+    this.state.sinks = [];
+  }
+
+  private log(level: Exclude<LogLevel, 'silent'>, message: string, args: unknown[]): void {
+    if (!this.isEnabled(level)) return;
+    const record: LogRecord = { time: new Date().toISOString(), level, ...this.context, msg: message };
+    // Простой объект в аргументах – дополнительные поля записи, Error – поле err,
+    // всё остальное собирается в args
+    const extra: unknown[] = [];
+    for (const arg of args) {
+      if (arg instanceof Error) {
+        record.err = { message: arg.message, stack: arg.stack };
+      } else if (isPlainObject(arg)) {
+        Object.assign(record, arg);
+      } else {
+        extra.push(arg instanceof Uint8Array ? shortKey(arg) : arg);
+      }
+    }
+    if (extra.length > 0) record.args = extra;
+    for (const sink of this.state.sinks) {
+      try {
+        sink.write(record);
+      } catch {
+        // Сбой приёмника не должен ронять обработку кадров
+      }
+    }
+  }
+}
+
+function isPlainObject(value: unknown): value is LogContext {
+  if (typeof value !== 'object' || value === null) return false;
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+}
+
+function formatText(record: LogRecord): string {
+  const { time, level, component, msg, ...fields } = record;
+  const prefix = `${time} ${level.toUpperCase()}${component ? ` [${component}]` : ''} ${msg}`;
+  const rest = Object.entries(fields)
+    .map(([key, value]) => `${key}=${typeof value === 'string' ? value : JSON.stringify(value)}`)
+    .join(' ');
+  return rest ? `${prefix} ${rest}` : prefix;
 }
 
-export const logger: Logger = new ConsoleLogger();
\ No newline at end of file
+export const logger = StructuredLogger.create();
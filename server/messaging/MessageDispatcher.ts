@@ -1,18 +1,37 @@
 import { IConnection, ILogger } from '../core/types';
-import { Frame, MsgType } from '../../shared/protocol';
+import { DeliveryStatus, FRAME_HEADER_LENGTH, Frame, MsgType } from '../../shared/protocol';
 import { HandshakeHandler } from '../handlers/HandshakeHandler';
 import { DataHandler } from '../handlers/DataHandler';
 import { NodeInfoHandler } from '../handlers/NodeInfoHandler';
+import { DeliveryStatusHandler } from '../handlers/DeliveryStatusHandler';
+import { GroupDataHandler } from '../handlers/GroupDataHandler';
+import { PubSubHandler } from '../handlers/PubSubHandler';
+import { RateLimitService } from '../services/RateLimitService';
+import { DeliveryStatusService } from '../services/DeliveryStatusService';
+import { MetricsService } from '../services/MetricsService';
 
 export class MessageDispatcher {
   constructor(
     private handshakeHandler: HandshakeHandler,
     private dataHandler: DataHandler,
     private nodeInfoHandler: NodeInfoHandler,
+    private deliveryStatusHandler: DeliveryStatusHandler,
+    private groupDataHandler: GroupDataHandler,
+    private pubSubHandler: PubSubHandler,
+    private rateLimiter: RateLimitService,
+    private deliveryStatus: DeliveryStatusService,
+    private metrics: MetricsService,
     private logger: ILogger
   ) {}
 
   async dispatch(connection: IConnection, frame: Frame): Promise<void> {
+    this.metrics.inc('frames_received_total', { type: MsgType[frame.type] ?? String(frame.type) });
+    this.metrics.inc('bytes_received_total', {}, FRAME_HEADER_LENGTH + frame.payload.length);
+    if (!this.rateLimiter.allowFrame(connection, frame)) {
+      this.metrics.inc('frames_throttled_total');
+      this.throttle(connection, frame);
+      return;
+    }
     try {
       switch (frame.type) {
         case MsgType.HANDSHAKE:
@@ -27,8 +46,22 @@ export class MessageDispatcher {
         case MsgType.SIGNED_DATA:   // новый тип обрабатывается так же, как DATA (сервер только пересылает)
           await this.dataHandler.handle(connection, frame);
           break;
+        case MsgType.ENCRYPTED_DATA: // непрозрачный для сервера кадр, пересылается как SIGNED_DATA
+          await this.dataHandler.handle(connection, frame);
+          break;
+        case MsgType.DELIVERY_STATUS:
+          await this.deliveryStatusHandler.handle(connection, frame);
+          break;
+        case MsgType.GROUP_DATA:
+          await this.groupDataHandler.handle(connection, frame);
+          break;
+        case MsgType.SUBSCRIBE:
+        case MsgType.UNSUBSCRIBE:
+        case MsgType.PUBLISH:
+          await this.pubSubHandler.handle(connection, frame);
+          break;
         default:
-          this.logger.warn(`Unknown frame type ${frame.type} from ${connection.id}`);
+          this.logger.warn(`Unknown frame type ${frame.type} from ${connection.id}`, { conn: connection.id });
           connection.close();
       }
     } catch (err) {
@@ -36,4 +69,13 @@ export class MessageDispatcher {
       connection.close();
     }
   }
-}
\ No newline at end of file
+
+  // Отправитель узнаёт об отброшенном кадре из квитанции THROTTLED с его msgId;
+  // у группового сообщения получатель в квитанции – ключ группы
+  private throttle(connection: IConnection, frame: Frame): void {
+    const isData = frame.type === MsgType.DATA || frame.type === MsgType.SIGNED_DATA ||
+      frame.type === MsgType.ENCRYPTED_DATA || frame.type === MsgType.GROUP_DATA;
+    const recipient = isData && frame.payload.length >= 32 ? frame.payload.slice(0, 32) : new Uint8Array(32);
+    this.deliveryStatus.reply(connection, frame, recipient, DeliveryStatus.THROTTLED);
+  }
+}
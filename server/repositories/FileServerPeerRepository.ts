@@ -0,0 +1,137 @@
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import { dirname } from 'path';
+import { IServerPeerInfo, ILogger } from '../core/types';
+import { InMemoryServerPeerRepository } from './InMemoryServerPeerRepository';
+
+interface PeerRecord {
+  publicKey: string;        // hex
+  address: string;
+  lastSeen: string | null;  // ISO-время последнего рукопожатия; null – ещё не подключались
+  failures: number;
+}
+
+interface PeerFileContents {
+  version: 1;
+  peers: PeerRecord[];
+}
+
+// Запись на диск откладывается, чтобы серия изменений (обнаружение, переподключения) давала одну запись
+const SAVE_DELAY_MS = 1000;
+
+// Известные соседи переживают перезапуск: ключи, адреса, время последнего рукопожатия
+// и число неудач подряд хранятся в JSON-файле. Соединения не сохраняются
+export class FileServerPeerRepository extends InMemoryServerPeerRepository {
+  private saveTimer: NodeJS.Timeout | null = null;
+
+  // Соседи, не ответившие maxFailures раз подряд, при загрузке забываются
+  constructor(private path: string, private maxFailures: number, private logger: ILogger) {
+    super();
+    this.load();
+  }
+
+  override add(peer: IServerPeerInfo): void {
+    super.add(peer);
+    this.scheduleSave();
+  }
+
+  override remove(publicKeyHex: string): void {
+    super.remove(publicKeyHex);
+    this.scheduleSave();
+  }
+
+  override markSeen(publicKeyHex: string): void {
+    super.markSeen(publicKeyHex);
+    this.scheduleSave();
+  }
+
+  override markFailure(address: string): void {
+    super.markFailure(address);
+    this.scheduleSave();
+  }
+
+  // Сбрасывает отложенные изменения на диск (при остановке сервера)
+  close(): void {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+      this.save();
+    }
+  }
+
+  private load(): void {
+    if (!existsSync(this.path)) return;
+    let data: Partial<PeerFileContents>;
+    try {
+      data = JSON.parse(readFileSync(this.path, 'utf8'));
+    } catch (err) {
+      throw new Error(`Failed to read peer registry ${this.path}: ${(err as Error).message}`);
+    }
+    if (!Array.isArray(data.peers)) {
+      throw new Error(`Peer registry ${this.path} has no "peers" array`);
+    }
+
+    let loaded = 0;
+    let forgotten = 0;
+    for (const record of data.peers) {
+      if (!isPeerRecord(record)) {
+        this.logger.warn(`Skipping malformed entry in peer registry ${this.path}`);
+        continue;
+      }
+      if (record.failures >= this.maxFailures) {
+        forgotten++;
+        continue;
+      }
+      const peer: IServerPeerInfo = {
+        publicKey: new Uint8Array(Buffer.from(record.publicKey, 'hex')),
+        address: record.address,
+        failures: record.failures,
+      };
+      if (record.lastSeen !== null) peer.lastSeen = new Date(record.lastSeen);
+      super.add(peer);
+      loaded++;
+    }
+    this.logger.info(`Loaded ${loaded} peers from ${this.path}` + (forgotten ? `, forgot ${forgotten} unreachable` : ''));
+    if (forgotten) this.scheduleSave();
+  }
+
+  private scheduleSave(): void {
+    if (this.saveTimer) return;
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = null;
+      this.save();
+    }, SAVE_DELAY_MS);
+    this.saveTimer.unref();
+  }
+
+  // Пишем во временный файл и переименовываем: оборванная запись не портит реестр
+  private save(): void {
+    const contents: PeerFileContents = {
+      version: 1,
+      // Сосед без адреса (только входящие соединения) не переподключается и доверия не даёт –
+      // хранить его незачем; разрешённые входящие соседи перечислены в peers.allowedKeys
+      peers: Array.from(this.getAll()).filter(peer => peer.address !== 'unknown').map(peer => ({
+        publicKey: Buffer.from(peer.publicKey).toString('hex'),
+        address: peer.address,
+        lastSeen: peer.lastSeen ? peer.lastSeen.toISOString() : null,
+        failures: peer.failures ?? 0,
+      })),
+    };
+    const tmp = `${this.path}.tmp`;
+    try {
+      mkdirSync(dirname(this.path), { recursive: true });
+      writeFileSync(tmp, JSON.stringify(contents, null, 2) + '\n');
+      renameSync(tmp, this.path);
+    } catch (err) {
+      this.logger.error(`Failed to save peer registry ${this.path}:`, err);
+    }
+  }
+}
+
+function isPeerRecord(value: unknown): value is PeerRecord {
+  if (typeof value !== 'object' || value === null) return false;
+  const record = value as Record<string, unknown>;
+  return typeof record.publicKey === 'string' && /^[0-9a-fA-F]{64}$/.test(record.publicKey) &&
+    typeof record.address === 'string' &&
+    (record.lastSeen === null || (typeof record.lastSeen === 'string' && !isNaN(Date.parse(record.lastSeen)))) &&
+    typeof record.failures === 'number' && Number.isInteger(record.failures) && record.failures >= 0;
+}
@@ -6,6 +6,10 @@ export class InMemoryServerPeerRepository implements IServerPeerRepository {
 
   add(peer: IServerPeerInfo): void {
     const key = Buffer.from(peer.publicKey).toString('hex');
+    const previous = this.peers.get(key);
+    if (previous?.connection && previous.connection !== peer.connection) {
+      this.connectionToKey.delete(previous.connection);
+    }
     this.peers.set(key, peer);
     if (peer.connection) {
       this.connectionToKey.set(peer.connection, key);
@@ -38,4 +42,20 @@ export class InMemoryServerPeerRepository implements IServerPeerRepository {
     const key = this.connectionToKey.get(connection);
     return key ? this.peers.get(key) : undefined;
   }
+
+  markSeen(publicKeyHex: string): void {
+    const peer = this.peers.get(publicKeyHex);
+    if (peer) {
+      peer.lastSeen = new Date();
+      peer.failures = 0;
+    }
+  }
+
+  markFailure(address: string): void {
+    for (const peer of this.peers.values()) {
+      if (peer.address === address) {
+        peer.failures = (peer.failures ?? 0) + 1;
+      }
+    }
+  }
 }
\ No newline at end of file
@@ -1,90 +1,428 @@
-import { Frame, MsgType, NODE_INFO_QUERY_CLIENT, PublicKey } from '../../shared/protocol';
-import { IServerPeerRepository, ILogger } from '../core/types';
+import { DeliveryStatus, Frame, MsgType, NODE_INFO_PRESENCE, NODE_INFO_QUERY_CLIENT, NODE_INFO_QUERY_RESPONSE, PublicKey, cloneFrame } from '../../shared/protocol';
+import { IConnection, IClientRepository, IServerPeerRepository, ILogger } from '../core/types';
+import { RoutingConfig } from '../config';
 import { ServerPeerService } from './ServerPeerService';
+import { MailboxService } from './MailboxService';
+import { DeliveryStatusService } from './DeliveryStatusService';
+import { RateLimitService } from './RateLimitService';
+import { MetricsService } from './MetricsService';
+import { randomBytes } from 'crypto';
 
-interface PendingQuery {
+// Запрос: [подтип, ключ клиента(32), id запроса(16), оставшиеся хопы(1)]
+const QUERY_LENGTH = 1 + 32 + 16 + 1;
+// Ответ: [подтип, статус, ключ клиента(32), ключ ответившего сервера(32), id запроса(16)]
+const RESPONSE_LENGTH = 1 + 1 + 32 + 32 + 16;
+// Сколько id запросов и пересланных кадров помним для подавления петель
+const MAX_SEEN_ENTRIES = 10000;
+
+interface WaitingFrame {
   frame: Frame;
+  via: IConnection;
+}
+
+// Запрос, начатый нами: кадры ждут, пока найдётся маршрут
+interface PendingQuery {
+  queryId: string;
+  frames: WaitingFrame[];
+  timer: NodeJS.Timeout;
+  awaitingResponses: number;
+}
+
+// Чужой запрос, который мы переслали дальше: ответ уходит обратно по from
+interface TransitQuery {
+  targetKey: PublicKey;
+  from: IConnection;
   timer: NodeJS.Timeout;
-  sender: any;
+  awaitingResponses: number;
+}
+
+interface CachedLocation {
+  serverHex: string;
+  expiresAt: number;
 }
 
 export class ClientLocationService {
   private pendingQueries = new Map<string, PendingQuery>();
+  private transitQueries = new Map<string, TransitQuery>();
+  // Ключ клиента → сосед, через которого он достижим (из ответов на запросы и анонсов присутствия)
+  private locations = new Map<string, CachedLocation>();
+  // id запроса → срок; повторно пришедший запрос – петля
+  private seenQueries = new Map<string, number>();
+  // msgId пересланного кадра → откуда он пришёл; по этому пути возвращаются квитанции
+  private forwarded = new Map<string, { from: IConnection; expiresAt: number }>();
 
   constructor(
+    private clientRepo: IClientRepository,
     private serverRepo: IServerPeerRepository,
     private serverPeerService: ServerPeerService,
+    private mailbox: MailboxService,
+    private deliveryStatus: DeliveryStatusService,
+    private rateLimiter: RateLimitService,
+    private metrics: MetricsService,
     private serverPublicKey: Uint8Array,
+    private routing: RoutingConfig,
     private logger: ILogger
   ) {}
 
-  async forwardToRemoteClient(targetKey: PublicKey, originalFrame: Frame, sender: any): Promise<void> {
+  async forwardToRemoteClient(targetKey: PublicKey, originalFrame: Frame, via: IConnection): Promise<void> {
     const targetHex = Buffer.from(targetKey).toString('hex');
 
-    if (this.pendingQueries.has(targetHex)) {
-      this.logger.debug(`Query already pending for ${targetHex.slice(0,8)}`);
+    // У клиентов протокола v1 msgId нулевой: по нему не отличить петлю от следующего кадра,
+    // а счётчика хопов в кадре нет. Такой кадр уходит не дальше одного соседа: пришедший
+    // от соседа и не доставленный нам ждёт получателя в почтовом ящике
+    if (!originalFrame.msgId || originalFrame.msgId.every(b => b === 0)) {
+      if (via.peerType === 'server') {
+        this.logger.debug(`Frame without msgId for ${targetHex.slice(0,8)} already relayed once, storing in mailbox`, { key: targetHex.slice(0, 8) });
+        this.storeForLater(targetKey, cloneFrame(originalFrame), via);
+        return;
+      }
+    } else {
+      const msgIdHex = Buffer.from(originalFrame.msgId).toString('hex');
+      if (this.forwarded.has(msgIdHex)) {
+        this.logger.warn(`Routing loop for frame ${msgIdHex.slice(0,8)} to ${targetHex.slice(0,8)}, dropping`, { key: targetHex.slice(0, 8) });
+        return;
+      }
+      this.remember(this.forwarded, msgIdHex, { from: via, expiresAt: Date.now() + this.routing.locationTtlMs });
+    }
+
+    const cachedServer = this.getCachedServer(targetHex, via);
+    if (cachedServer?.connection) {
+      this.logger.debug(`Route cache hit for ${targetHex.slice(0,8)}`, { key: targetHex.slice(0, 8) });
+      this.forwardToServer(cachedServer.connection, targetKey, originalFrame, via);
       return;
     }
 
-    const frameCopy: Frame = {
-      type: originalFrame.type,
-      payload: originalFrame.payload.slice(),
-      senderId: originalFrame.senderId.slice(),
-    };
-    if (originalFrame.signature) {
-      frameCopy.signature = originalFrame.signature.slice();
+    // Пока ждём ответа, остальные кадры этому клиенту копятся в той же очереди
+    const pending = this.pendingQueries.get(targetHex);
+    if (pending) {
+      if (pending.frames.length >= this.routing.maxPendingFrames) {
+        this.logger.warn(`Too many frames waiting for ${targetHex.slice(0,8)}, storing in mailbox`, { key: targetHex.slice(0, 8) });
+        this.storeForLater(targetKey, cloneFrame(originalFrame), via);
+        return;
+      }
+      this.logger.debug(`Query already pending for ${targetHex.slice(0,8)}, frame queued`, { key: targetHex.slice(0, 8) });
+      pending.frames.push({ frame: cloneFrame(originalFrame), via });
+      return;
+    }
+
+    // Новый поиск расходится по всей сети – его стоимость списывается с того, кто его вызвал
+    if (!this.rateLimiter.allowQuery(via)) {
+      this.logger.warn(`Query for ${targetHex.slice(0,8)} throttled for ${via.id}`, { key: targetHex.slice(0, 8) });
+      this.deliveryStatus.reply(via, originalFrame, targetKey, DeliveryStatus.THROTTLED);
+      return;
+    }
+
+    const frames: WaitingFrame[] = [{ frame: cloneFrame(originalFrame), via }];
+    const queryId = randomBytes(16);
+    const queryIdHex = queryId.toString('hex');
+    this.markSeen(queryIdHex);
+
+    // Соседи – первый хоп, поэтому им разрешаем переслать запрос ещё maxHops - 1 раз
+    const sentTo = this.serverPeerService.broadcastToPeers(
+      this.buildQuery(targetKey, queryId, this.routing.maxHops - 1),
+      via.peerType === 'server' ? via : undefined
+    );
+    if (sentTo === 0) {
+      this.logger.debug(`No peers to query for ${targetHex.slice(0,8)}`, { key: targetHex.slice(0, 8) });
+      this.storeAllForLater(targetKey, frames);
+      return;
     }
 
     const timer = setTimeout(() => {
+      const timedOut = this.pendingQueries.get(targetHex);
       this.pendingQueries.delete(targetHex);
-      this.logger.warn(`Query for client ${targetHex.slice(0,8)} timed out`);
-    }, 5000);
+      this.logger.warn(`Query for client ${targetHex.slice(0,8)} timed out`, { key: targetHex.slice(0, 8) });
+      this.metrics.inc('location_query_timeouts_total');
+      if (timedOut) this.storeAllForLater(targetKey, timedOut.frames);
+    }, this.routing.queryTimeoutMs);
 
-    this.pendingQueries.set(targetHex, { frame: frameCopy, timer, sender });
+    this.metrics.inc('location_queries_total');
+    this.pendingQueries.set(targetHex, { queryId: queryIdHex, frames, timer, awaitingResponses: sentTo });
+  }
 
-    const queryPayload = new Uint8Array(1 + 32);
-    queryPayload[0] = NODE_INFO_QUERY_CLIENT;
-    queryPayload.set(targetKey, 1);
+  // Запрос местоположения от соседа: отвечаем сами или пересылаем дальше, уменьшив счётчик хопов
+  async handleQuery(connection: IConnection, frame: Frame): Promise<void> {
+    const payload = frame.payload;
+    if (payload.length < 1 + 32) return;
+    const targetKey = payload.slice(1, 33);
+    const targetHex = Buffer.from(targetKey).toString('hex');
+    // Старый формат без id и счётчика: отвечаем только о своих клиентах
+    const queryId = payload.length >= QUERY_LENGTH ? payload.slice(33, 49) : new Uint8Array(16);
+    const hopsLeft = payload.length >= QUERY_LENGTH ? payload[49]! : 0;
+    const queryIdHex = Buffer.from(queryId).toString('hex');
 
-    this.serverPeerService.broadcastToPeers({
-      type: MsgType.NODE_INFO,
-      payload: queryPayload,
-      senderId: this.serverPublicKey,
-    });
+    if (this.clientRepo.has(targetHex)) {
+      this.logger.debug(`Query for client ${targetHex.slice(0,8)}: found locally`, { key: targetHex.slice(0, 8) });
+      this.sendResponse(connection, targetKey, queryId, true);
+      return;
+    }
+
+    if (payload.length >= QUERY_LENGTH) {
+      if (this.seenQueries.has(queryIdHex)) {
+        this.logger.debug(`Query ${queryIdHex.slice(0,8)} already seen, suppressing loop`);
+        this.sendResponse(connection, targetKey, queryId, false);
+        return;
+      }
+      this.markSeen(queryIdHex);
+    }
+
+    if (this.getCachedServer(targetHex, connection)) {
+      this.logger.debug(`Query for client ${targetHex.slice(0,8)}: known route`, { key: targetHex.slice(0, 8) });
+      this.sendResponse(connection, targetKey, queryId, true);
+      return;
+    }
+
+    if (hopsLeft === 0 || !this.rateLimiter.allowQuery(connection)) {
+      this.sendResponse(connection, targetKey, queryId, false);
+      return;
+    }
+
+    const sentTo = this.serverPeerService.broadcastToPeers(this.buildQuery(targetKey, queryId, hopsLeft - 1), connection);
+    if (sentTo === 0) {
+      this.sendResponse(connection, targetKey, queryId, false);
+      return;
+    }
+
+    // Ждём меньше, чем тот, кто спросил нас, чтобы успеть ответить ему «нет»
+    const timeout = Math.floor(this.routing.queryTimeoutMs * hopsLeft / this.routing.maxHops);
+    const timer = setTimeout(() => {
+      const transit = this.transitQueries.get(queryIdHex);
+      this.transitQueries.delete(queryIdHex);
+      if (transit) this.sendResponse(transit.from, transit.targetKey, queryId, false);
+    }, timeout);
+
+    this.logger.debug(`Relaying query for ${targetHex.slice(0,8)} to ${sentTo} peers (${hopsLeft - 1} hops left)`, { key: targetHex.slice(0, 8) });
+    this.transitQueries.set(queryIdHex, { targetKey, from: connection, timer, awaitingResponses: sentTo });
   }
- 
-  async handleQueryResponse(frame: Frame): Promise<void> {
+
+  async handleQueryResponse(connection: IConnection, frame: Frame): Promise<void> {
     const payload = frame.payload;
     if (payload.length < 1 + 1 + 32) return;
-    const status = payload[1];
+    const found = payload[1] === 1;
     const targetKey = payload.slice(2, 2 + 32);
     const targetHex = Buffer.from(targetKey).toString('hex');
+    const queryIdHex = payload.length >= RESPONSE_LENGTH
+      ? Buffer.from(payload.slice(2 + 32 + 32, RESPONSE_LENGTH)).toString('hex')
+      : null;
+
+    // Следующий хоп – тот сосед, который ответил, а не сервер, у которого сидит клиент
+    const responder = this.serverRepo.getByConnection(connection);
+    if (!responder) return;
+    const responderHex = Buffer.from(responder.publicKey).toString('hex');
+
+    const transit = queryIdHex ? this.transitQueries.get(queryIdHex) : undefined;
+    if (transit) {
+      if (found) {
+        clearTimeout(transit.timer);
+        this.transitQueries.delete(queryIdHex!);
+        this.rememberLocation(targetHex, responderHex);
+        this.sendResponse(transit.from, targetKey, payload.slice(2 + 32 + 32, RESPONSE_LENGTH), true);
+      } else if (--transit.awaitingResponses <= 0) {
+        clearTimeout(transit.timer);
+        this.transitQueries.delete(queryIdHex!);
+        this.sendResponse(transit.from, targetKey, payload.slice(2 + 32 + 32, RESPONSE_LENGTH), false);
+      }
+      return;
+    }
 
     const pending = this.pendingQueries.get(targetHex);
-    if (!pending) {
-      this.logger.debug(`Received query response for unknown pending ${targetHex.slice(0,8)}`);
+    if (!pending || (queryIdHex && queryIdHex !== pending.queryId)) {
+      this.logger.debug(`Received query response for unknown pending ${targetHex.slice(0,8)}`, { key: targetHex.slice(0, 8) });
       return;
     }
 
-    clearTimeout(pending.timer);
-    this.pendingQueries.delete(targetHex);
-
-    if (status === 1 && payload.length >= 1 + 1 + 32 + 32) {
-      const serverKey = payload.slice(2 + 32, 2 + 32 + 32);
-      const serverHex = Buffer.from(serverKey).toString('hex');
-      const targetServer = this.serverRepo.get(serverHex);
-      if (targetServer?.connection) {
-        this.logger.debug(`Forwarding DATA to server ${serverHex.slice(0,8)} for client ${targetHex.slice(0,8)}`);
-        targetServer.connection.send({
-          type: MsgType.DATA,
-          payload: pending.frame.payload,
-          senderId: pending.frame.senderId,
-        });
+    if (found) {
+      clearTimeout(pending.timer);
+      this.pendingQueries.delete(targetHex);
+
+      if (responder.connection?.isOpen) {
+        this.rememberLocation(targetHex, responderHex);
+        this.logger.debug(`Forwarding ${pending.frames.length} frames to server ${responderHex.slice(0,8)} for client ${targetHex.slice(0,8)}`, { key: targetHex.slice(0, 8) });
+        for (const waiting of pending.frames) {
+          this.forwardToServer(responder.connection, targetKey, waiting.frame, waiting.via);
+        }
       } else {
-        this.logger.warn(`Target server ${serverHex.slice(0,8)} not connected`);
+        this.logger.warn(`Next hop ${responderHex.slice(0,8)} not connected`, { key: responderHex.slice(0, 8) });
+        this.storeAllForLater(targetKey, pending.frames);
       }
-    } else {
-      this.logger.debug(`Client ${targetHex.slice(0,8)} not found on any peer`);
+      return;
+    }
+
+    // Ждём ответов остальных соседей; если все ответили «нет» – не ждём таймаута
+    pending.awaitingResponses--;
+    if (pending.awaitingResponses <= 0) {
+      clearTimeout(pending.timer);
+      this.pendingQueries.delete(targetHex);
+      this.logger.debug(`Client ${targetHex.slice(0,8)} not found on any peer`, { key: targetHex.slice(0, 8) });
+      this.storeAllForLater(targetKey, pending.frames);
+    }
+  }
+
+  // Соединение, с которого пришёл пересланный нами кадр, – туда уходят квитанции о нём
+  getReturnPath(msgId: Uint8Array): IConnection | undefined {
+    const entry = this.forwarded.get(Buffer.from(msgId).toString('hex'));
+    if (!entry || entry.expiresAt < Date.now() || !entry.from.isOpen) return undefined;
+    return entry.from;
+  }
+
+  // Кадр, который мы разослали сами (групповое сообщение): квитанции о нём вернутся по from
+  rememberReturnPath(msgId: Uint8Array, from: IConnection): void {
+    const msgIdHex = Buffer.from(msgId).toString('hex');
+    this.remember(this.forwarded, msgIdHex, { from, expiresAt: Date.now() + this.routing.locationTtlMs });
+  }
+
+  // Известен ли сосед, через которого достижим клиент (из анонсов присутствия и ответов на запросы)
+  hasRoute(clientHex: string): boolean {
+    return this.getCachedServer(clientHex) !== undefined;
+  }
+
+  // Анонс присутствия от соседа: [подтип, online, count(2), ключи по 32 байта].
+  // Клиент анонс не подписывает, поэтому верим только соседям, прошедшим рукопожатие
+  // (разрешённым в peers.allowedKeys или тем, к кому подключились мы сами), и никогда –
+  // в отношении клиентов, подключённых к нам
+  handlePresence(serverConnection: IConnection, frame: Frame): void {
+    const server = this.serverRepo.getByConnection(serverConnection);
+    if (!server || serverConnection.peerType !== 'server') {
+      this.logger.warn(`Presence announcement from non-peer ${serverConnection.id}, ignoring`, { conn: serverConnection.id });
+      return;
+    }
+    const payload = frame.payload;
+    if (payload.length < 4) return;
+    const online = payload[1] === 1;
+    const count = (payload[2]! << 8) | payload[3]!;
+    if (payload.length < 4 + count * 32) {
+      this.logger.warn(`Truncated presence announcement from ${serverConnection.id}`);
+      return;
+    }
+
+    const serverHex = Buffer.from(server.publicKey).toString('hex');
+    for (let i = 0; i < count; i++) {
+      const clientHex = Buffer.from(payload.slice(4 + i * 32, 4 + (i + 1) * 32)).toString('hex');
+      if (this.clientRepo.has(clientHex)) {
+        this.logger.warn(`Peer ${serverHex.slice(0,8)} claims local client ${clientHex.slice(0,8)}, ignoring`, { key: serverHex.slice(0, 8) });
+        continue;
+      }
+      if (online) {
+        this.rememberLocation(clientHex, serverHex);
+      } else if (this.locations.get(clientHex)?.serverHex === serverHex) {
+        this.locations.delete(clientHex);
+      }
+    }
+    this.logger.debug(`Presence from ${serverHex.slice(0,8)}: ${count} clients ${online ? 'online' : 'offline'}`, { key: serverHex.slice(0, 8) });
+  }
+
+  // Сообщаем соседям, что наш клиент подключился или отключился
+  announcePresence(clientKey: PublicKey, online: boolean): void {
+    this.serverPeerService.broadcastToPeers(this.buildPresence([clientKey], online));
+  }
+
+  // Новому соседу – полный список наших клиентов
+  announceAllTo(connection: IConnection): void {
+    const keys = Array.from(this.clientRepo.getAll(), client => client.publicKey);
+    for (let i = 0; i < keys.length; i += 0xffff) {
+      connection.send(this.buildPresence(keys.slice(i, i + 0xffff), true));
+    }
+  }
+
+  private buildQuery(targetKey: PublicKey, queryId: Uint8Array, hopsLeft: number): Frame {
+    const payload = new Uint8Array(QUERY_LENGTH);
+    payload[0] = NODE_INFO_QUERY_CLIENT;
+    payload.set(targetKey, 1);
+    payload.set(queryId, 33);
+    payload[49] = hopsLeft;
+    return {
+      type: MsgType.NODE_INFO,
+      payload,
+      senderId: this.serverPublicKey,
+    };
+  }
+
+  private sendResponse(connection: IConnection, targetKey: PublicKey, queryId: Uint8Array, found: boolean): void {
+    if (!connection.isOpen) return;
+    const payload = new Uint8Array(RESPONSE_LENGTH);
+    payload[0] = NODE_INFO_QUERY_RESPONSE;
+    payload[1] = found ? 1 : 0;
+    payload.set(targetKey, 2);
+    if (found) {
+      payload.set(this.serverPublicKey, 2 + 32);
+    }
+    payload.set(queryId, 2 + 32 + 32);
+    connection.send({
+      type: MsgType.NODE_INFO,
+      payload,
+      senderId: this.serverPublicKey,
+    });
+  }
+
+  private buildPresence(keys: PublicKey[], online: boolean): Frame {
+    const payload = new Uint8Array(4 + keys.length * 32);
+    payload[0] = NODE_INFO_PRESENCE;
+    payload[1] = online ? 1 : 0;
+    payload[2] = (keys.length >> 8) & 0xff;
+    payload[3] = keys.length & 0xff;
+    keys.forEach((key, i) => payload.set(key, 4 + i * 32));
+    return {
+      type: MsgType.NODE_INFO,
+      payload,
+      senderId: this.serverPublicKey,
+    };
+  }
+
+  // Клиент, подключённый к нам, доставляется напрямую – маршрут через соседа для него не храним
+  private rememberLocation(clientHex: string, serverHex: string): void {
+    if (this.clientRepo.has(clientHex)) return;
+    this.locations.set(clientHex, { serverHex, expiresAt: Date.now() + this.routing.locationTtlMs });
+  }
+
+  private markSeen(queryIdHex: string): void {
+    this.remember(this.seenQueries, queryIdHex, Date.now() + this.routing.queryTimeoutMs * 2);
+  }
+
+  // Map хранит порядок вставки: самые старые записи вытесняются первыми
+  private remember<T>(map: Map<string, T>, key: string, value: T): void {
+    map.set(key, value);
+    while (map.size > MAX_SEEN_ENTRIES) {
+      map.delete(map.keys().next().value!);
+    }
+  }
+
+  // Маршрут через соседа, от которого кадр пришёл, вёл бы обратно – такой не используем
+  private getCachedServer(clientHex: string, exclude?: IConnection) {
+    const location = this.locations.get(clientHex);
+    if (!location) return undefined;
+    const server = this.serverRepo.get(location.serverHex);
+    if (location.expiresAt < Date.now() || !server?.connection?.isOpen) {
+      this.locations.delete(clientHex);
+      return undefined;
     }
+    if (server.connection === exclude) return undefined;
+    return server;
+  }
+
+  // Как и при локальной доставке, кадр уходит без изменений: тип, подпись и msgId
+  // нужны получателю, чтобы проверить отправителя и разобрать содержимое.
+  // Сосед не успевает забирать данные – кадр ждёт в почтовом ящике, отправитель получает QUEUED
+  private forwardToServer(connection: IConnection, targetKey: PublicKey, frame: Frame, via: IConnection): void {
+    if (connection.send(frame)) return;
+    const targetHex = Buffer.from(targetKey).toString('hex');
+    this.logger.warn(`Peer ${connection.id} did not accept frame for ${targetHex.slice(0,8)}, storing in mailbox`, { conn: connection.id, key: targetHex.slice(0, 8) });
+    this.storeForLater(targetKey, cloneFrame(frame), via);
   }
-}
\ No newline at end of file
+
+  private storeAllForLater(targetKey: PublicKey, frames: WaitingFrame[]): void {
+    for (const waiting of frames) {
+      this.storeForLater(targetKey, waiting.frame, waiting.via);
+    }
+  }
+
+  private storeForLater(targetKey: PublicKey, frame: Frame, via: IConnection): void {
+    const targetHex = Buffer.from(targetKey).toString('hex');
+    const queued = this.mailbox.enqueue(targetHex, frame);
+    this.deliveryStatus.notify(
+      frame,
+      targetKey,
+      queued ? DeliveryStatus.QUEUED : DeliveryStatus.FAILED,
+      via
+    );
+  }
+}
@@ -0,0 +1,68 @@
+import { CAP_RECEIPTS, DeliveryStatus, Frame, MsgType, PublicKey } from '../../shared/protocol';
+import { IConnection, IClientRepository, ILogger } from '../core/types';
+
+// Квитанции отправителю о судьбе его кадра; msgId исходного кадра копируется в заголовок
+export class DeliveryStatusService {
+  constructor(
+    private clientRepo: IClientRepository,
+    private serverPublicKey: PublicKey,
+    private logger: ILogger
+  ) {}
+
+  // via – соединение, по которому пришёл кадр; если отправитель не наш клиент,
+  // квитанция уходит обратно серверу-соседу вместе с ключом отправителя
+  notify(frame: Frame, recipient: PublicKey, status: DeliveryStatus, via?: IConnection): void {
+    const senderHex = Buffer.from(frame.senderId).toString('hex');
+    const localSender = this.clientRepo.get(senderHex);
+    if (localSender) {
+      // Клиент, не объявивший CAP_RECEIPTS, не знает кадра DELIVERY_STATUS
+      if (!supportsReceipts(localSender.connection)) return;
+      const payload = new Uint8Array(1 + 32);
+      payload[0] = status;
+      payload.set(recipient, 1);
+      localSender.connection.send(this.buildReceipt(frame, payload));
+      return;
+    }
+
+    if (via && via.peerType === 'server' && via.isOpen && supportsReceipts(via)) {
+      const payload = new Uint8Array(1 + 32 + 32);
+      payload[0] = status;
+      payload.set(recipient, 1);
+      payload.set(frame.senderId, 1 + 32);
+      via.send(this.buildReceipt(frame, payload));
+      return;
+    }
+
+    this.logger.debug(`Sender ${senderHex.slice(0,8)} unreachable, dropping ${DeliveryStatus[status]} status`, { key: senderHex.slice(0, 8) });
+  }
+
+  // Ответ прямо в соединение, с которого пришёл кадр (например, при превышении лимита):
+  // ключу отправителя в заголовке здесь не доверяем
+  reply(connection: IConnection, frame: Frame, recipient: PublicKey, status: DeliveryStatus): void {
+    if (!connection.isOpen || !supportsReceipts(connection)) return;
+    const server = connection.peerType === 'server';
+    const payload = new Uint8Array(server ? 1 + 32 + 32 : 1 + 32);
+    payload[0] = status;
+    payload.set(recipient, 1);
+    if (server) {
+      payload.set(frame.senderId, 1 + 32);
+    }
+    connection.send(this.buildReceipt(frame, payload));
+  }
+
+  private buildReceipt(frame: Frame, payload: Uint8Array): Frame {
+    const receipt: Frame = {
+      type: MsgType.DELIVERY_STATUS,
+      payload,
+      senderId: this.serverPublicKey,
+    };
+    if (frame.msgId) {
+      receipt.msgId = frame.msgId;
+    }
+    return receipt;
+  }
+}
+
+export function supportsReceipts(connection: IConnection): boolean {
+  return ((connection.capabilities ?? 0) & CAP_RECEIPTS) !== 0;
+}
@@ -0,0 +1,190 @@
+import {
+  CAP_GROUPS,
+  Frame,
+  GroupRoster,
+  MsgType,
+  NODE_INFO_GROUP_ROSTER,
+  decodeGroupRoster,
+  encodeGroupRoster,
+  verifyGroupRoster,
+} from '../../shared/protocol';
+import { IConnection, ILogger } from '../core/types';
+import { GroupsConfig } from '../config';
+import { ServerPeerService } from './ServerPeerService';
+import { verify } from '@stablelib/ed25519';
+
+// Сколько msgId групповых сообщений помним, чтобы не разослать одно сообщение дважды
+const MAX_SEEN_MESSAGES = 10000;
+const SEEN_MESSAGE_TTL_MS = 10 * 60 * 1000;
+
+interface GroupRecord {
+  roster: GroupRoster;
+  encoded: Uint8Array;
+  members: Set<string>; // hex-ключи участников
+  activeAt: number;     // последнее сообщение группы или полученный состав
+  addedBy?: string;     // локальный клиент, который первым прислал состав, – в счёт его квоты
+}
+
+// Составы групп, известные ретранслятору. Состав подписан администратором, поэтому его
+// может прислать кто угодно – клиент-участник или сосед; действует старший по версии.
+// Новые версии расходятся по всем соседям, понимающим группы.
+// Подписать состав может любой ключ, поэтому каждый локальный клиент может добавить
+// не больше maxGroupsPerClient новых групп, а группы без сообщений и составов дольше
+// idleTtlMs забываются. Участники заново присылают составы при подключении
+export class GroupService {
+  // Порядок вставки = порядок активности: активная группа переставляется в конец,
+  // давно неактивные – в начале, оттуда и забываются
+  private groups = new Map<string, GroupRecord>();
+  // клиент → число добавленных им групп, которые ещё помним
+  private addedByClient = new Map<string, number>();
+  // msgId → срок; сообщение, пришедшее второй раз по другому пути, уже разослано
+  private seenMessages = new Map<string, number>();
+
+  constructor(
+    private serverPeerService: ServerPeerService,
+    private serverPublicKey: Uint8Array,
+    private config: GroupsConfig,
+    private logger: ILogger
+  ) {}
+
+  get size(): number {
+    return this.groups.size;
+  }
+
+  // [подтип, состав]; clientHex – ключ отправителя, если состав прислал локальный клиент
+  handleRoster(connection: IConnection, frame: Frame, clientHex?: string): void {
+    let roster: GroupRoster;
+    try {
+      roster = decodeGroupRoster(frame.payload.slice(1));
+    } catch (err) {
+      this.logger.warn(`Malformed group roster from ${connection.id}: ${(err as Error).message}`, { conn: connection.id });
+      return;
+    }
+    const groupHex = Buffer.from(roster.groupId).toString('hex');
+
+    if (roster.members.length > this.config.maxMembers) {
+      this.logger.warn(`Group ${groupHex.slice(0,8)} has ${roster.members.length} members, limit ${this.config.maxMembers}`, { conn: connection.id });
+      return;
+    }
+    this.evictIdle();
+    const current = this.groups.get(groupHex);
+    if (current && current.roster.version >= roster.version) {
+      // Тот же состав от переподключившегося клиента – группа ещё нужна. Составы от соседей
+      // активность не продлевают: иначе соседи, обмениваясь составами, держали бы группы вечно
+      if (current.roster.version === roster.version && clientHex !== undefined) this.touch(groupHex);
+      this.logger.debug(`Group ${groupHex.slice(0,8)} roster v${roster.version} is not newer than v${current.roster.version}`, { conn: connection.id });
+      return;
+    }
+    if (!current && this.groups.size >= this.config.maxGroups) {
+      this.logger.warn(`Group limit reached, roster for ${groupHex.slice(0,8)} rejected`, { conn: connection.id });
+      return;
+    }
+    if (!current && clientHex !== undefined && (this.addedByClient.get(clientHex) ?? 0) >= this.config.maxGroupsPerClient) {
+      this.logger.warn(`Client ${clientHex.slice(0,8)} reached its group limit, roster for ${groupHex.slice(0,8)} rejected`, { conn: connection.id, key: clientHex.slice(0, 8) });
+      return;
+    }
+    if (!verifyGroupRoster(roster, verify)) {
+      this.logger.warn(`Invalid group roster signature for ${groupHex.slice(0,8)} from ${connection.id}`, { conn: connection.id });
+      return;
+    }
+
+    const addedBy = current ? current.addedBy : clientHex;
+    const record: GroupRecord = {
+      roster,
+      encoded: encodeGroupRoster(roster),
+      members: new Set(roster.members.map(member => Buffer.from(member).toString('hex'))),
+      activeAt: Date.now(),
+    };
+    if (addedBy !== undefined) record.addedBy = addedBy;
+    if (!current && addedBy !== undefined) {
+      this.addedByClient.set(addedBy, (this.addedByClient.get(addedBy) ?? 0) + 1);
+    }
+    this.groups.delete(groupHex);
+    this.groups.set(groupHex, record);
+    this.logger.info(`Group ${groupHex.slice(0,8)} roster v${roster.version}: ${roster.members.length} members`);
+
+    const sentTo = this.serverPeerService.broadcastToPeers(
+      this.buildRosterFrame(this.groups.get(groupHex)!.encoded),
+      connection.peerType === 'server' ? connection : undefined,
+      CAP_GROUPS
+    );
+    this.logger.debug(`Group ${groupHex.slice(0,8)} roster relayed to ${sentTo} peers`);
+  }
+
+  // Участники группы (hex) или undefined, если группа неизвестна
+  getMembers(groupHex: string): ReadonlySet<string> | undefined {
+    const group = this.groups.get(groupHex);
+    if (group && this.isIdle(group, Date.now())) {
+      this.forget(groupHex, group);
+      return undefined;
+    }
+    return group?.members;
+  }
+
+  // Через группу прошло сообщение – она не забывается ещё idleTtlMs
+  touch(groupHex: string): void {
+    const group = this.groups.get(groupHex);
+    if (!group) return;
+    group.activeAt = Date.now();
+    this.groups.delete(groupHex);
+    this.groups.set(groupHex, group);
+  }
+
+  // false – сообщение с таким msgId уже проходило через этот ретранслятор
+  markMessage(msgIdHex: string): boolean {
+    const now = Date.now();
+    const expiresAt = this.seenMessages.get(msgIdHex);
+    if (expiresAt !== undefined && expiresAt > now) return false;
+    this.seenMessages.set(msgIdHex, now + SEEN_MESSAGE_TTL_MS);
+    // Map хранит порядок вставки: самые старые записи вытесняются первыми
+    while (this.seenMessages.size > MAX_SEEN_MESSAGES) {
+      this.seenMessages.delete(this.seenMessages.keys().next().value!);
+    }
+    return true;
+  }
+
+  // Групповое сообщение – всем соседям, понимающим группы, кроме того, от кого оно пришло
+  forwardToPeers(frame: Frame, exclude?: IConnection): number {
+    return this.serverPeerService.broadcastToPeers(frame, exclude, CAP_GROUPS);
+  }
+
+  // Новому соседу – все известные составы, чтобы он мог проверять участников
+  announceAllTo(connection: IConnection): void {
+    if (((connection.capabilities ?? 0) & CAP_GROUPS) === 0) return;
+    for (const group of this.groups.values()) {
+      connection.send(this.buildRosterFrame(group.encoded));
+    }
+  }
+
+  private evictIdle(): void {
+    const now = Date.now();
+    for (const [groupHex, group] of this.groups) {
+      if (!this.isIdle(group, now)) break;
+      this.forget(groupHex, group);
+      this.logger.debug(`Group ${groupHex.slice(0,8)} idle, forgotten`);
+    }
+  }
+
+  private isIdle(group: GroupRecord, now: number): boolean {
+    return this.config.idleTtlMs > 0 && now - group.activeAt > this.config.idleTtlMs;
+  }
+
+  private forget(groupHex: string, group: GroupRecord): void {
+    this.groups.delete(groupHex);
+    if (group.addedBy === undefined) return;
+    const count = (this.addedByClient.get(group.addedBy) ?? 0) - 1;
+    if (count > 0) this.addedByClient.set(group.addedBy, count);
+    else this.addedByClient.delete(group.addedBy);
+  }
+
+  private buildRosterFrame(encoded: Uint8Array): Frame {
+    const payload = new Uint8Array(1 + encoded.length);
+    payload[0] = NODE_INFO_GROUP_ROSTER;
+    payload.set(encoded, 1);
+    return {
+      type: MsgType.NODE_INFO,
+      payload,
+      senderId: this.serverPublicKey,
+    };
+  }
+}
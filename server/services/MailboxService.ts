@@ -0,0 +1,90 @@
+import { Frame, cloneFrame } from '../../shared/protocol';
+import { ILogger } from '../core/types';
+import { MailboxConfig } from '../config';
+
+interface QueuedFrame {
+  frame: Frame;
+  size: number;
+  queuedAt: number;
+}
+
+// Почтовые ящики для получателей не в сети: кадры хранятся до их следующего рукопожатия
+export class MailboxService {
+  private boxes = new Map<string, QueuedFrame[]>();
+  private cleanupTimer: NodeJS.Timeout | null = null;
+
+  constructor(
+    private limits: MailboxConfig,
+    private logger: ILogger
+  ) {}
+
+  start(): void {
+    if (this.cleanupTimer) return;
+    this.cleanupTimer = setInterval(() => this.purgeExpired(), 60000);
+    this.cleanupTimer.unref();
+  }
+
+  stop(): void {
+    if (this.cleanupTimer) {
+      clearInterval(this.cleanupTimer);
+      this.cleanupTimer = null;
+    }
+  }
+
+  // false, если кадр не помещается в ящик получателя
+  enqueue(recipientHex: string, frame: Frame): boolean {
+    const size = frame.payload.length;
+    if (size > this.limits.maxBytesPerRecipient) {
+      this.logger.warn(`Frame for ${recipientHex.slice(0,8)} exceeds mailbox size limit`, { key: recipientHex.slice(0, 8) });
+      return false;
+    }
+
+    const box = this.dropExpired(recipientHex) ?? [];
+    const used = box.reduce((acc, item) => acc + item.size, 0);
+    if (box.length >= this.limits.maxMessagesPerRecipient || used + size > this.limits.maxBytesPerRecipient) {
+      this.logger.warn(`Mailbox for ${recipientHex.slice(0,8)} is full (${box.length} frames, ${used} bytes)`, { key: recipientHex.slice(0, 8) });
+      return false;
+    }
+
+    box.push({ frame: cloneFrame(frame), size, queuedAt: Date.now() });
+    this.boxes.set(recipientHex, box);
+    this.logger.debug(`Queued frame for ${recipientHex.slice(0,8)} (${box.length} in mailbox)`, { key: recipientHex.slice(0, 8) });
+    return true;
+  }
+
+  // Всего кадров во всех ящиках
+  get totalFrames(): number {
+    let total = 0;
+    for (const box of this.boxes.values()) total += box.length;
+    return total;
+  }
+
+  // Забирает все неустаревшие кадры получателя, очищая ящик
+  takeAll(recipientHex: string): Frame[] {
+    const box = this.dropExpired(recipientHex);
+    this.boxes.delete(recipientHex);
+    return box ? box.map(item => item.frame) : [];
+  }
+
+  private dropExpired(recipientHex: string): QueuedFrame[] | undefined {
+    const box = this.boxes.get(recipientHex);
+    if (!box) return undefined;
+    const minTime = Date.now() - this.limits.maxAgeMs;
+    const fresh = box.filter(item => item.queuedAt >= minTime);
+    if (fresh.length !== box.length) {
+      this.logger.debug(`Dropped ${box.length - fresh.length} expired frames for ${recipientHex.slice(0,8)}`, { key: recipientHex.slice(0, 8) });
+    }
+    if (fresh.length === 0) {
+      this.boxes.delete(recipientHex);
+      return undefined;
+    }
+    this.boxes.set(recipientHex, fresh);
+    return fresh;
+  }
+
+  private purgeExpired(): void {
+    for (const recipientHex of Array.from(this.boxes.keys())) {
+      this.dropExpired(recipientHex);
+    }
+  }
+}
@@ -0,0 +1,87 @@
+// Счётчики и датчики ретранслятора в текстовом формате Prometheus.
+// Датчики не хранятся, а считаются при каждом запросе /metrics
+
+export type CounterName =
+  | 'frames_received_total'
+  | 'frames_sent_total'
+  | 'bytes_received_total'
+  | 'bytes_sent_total'
+  | 'frames_throttled_total'
+  | 'location_queries_total'
+  | 'location_query_timeouts_total'
+  | 'handshake_failures_total'
+  | 'group_messages_total'
+  | 'group_deliveries_total'
+  | 'publications_total';
+
+export type Labels = Record<string, string>;
+
+const PREFIX = 'exvia_';
+
+const COUNTER_HELP: Record<CounterName, string> = {
+  frames_received_total: 'Frames received, by message type',
+  frames_sent_total: 'Frames sent, by message type',
+  bytes_received_total: 'Bytes received in frames (header and payload)',
+  bytes_sent_total: 'Bytes sent in frames (header and payload)',
+  frames_throttled_total: 'Frames dropped by rate limits',
+  location_queries_total: 'Client location queries started by this relay',
+  location_query_timeouts_total: 'Client location queries that got no answer in time',
+  handshake_failures_total: 'Failed handshakes, by reason',
+  group_messages_total: 'Group messages fanned out by this relay',
+  group_deliveries_total: 'Group messages handed to local members',
+  publications_total: 'Topic publications handled by this relay',
+};
+
+interface Gauge {
+  help: string;
+  read: () => number;
+}
+
+export class MetricsService {
+  // имя → (метки в виде текста → значение)
+  private counters = new Map<CounterName, Map<string, number>>();
+  private gauges = new Map<string, Gauge>();
+
+  inc(name: CounterName, labels: Labels = {}, value = 1): void {
+    let series = this.counters.get(name);
+    if (!series) {
+      series = new Map();
+      this.counters.set(name, series);
+    }
+    const key = formatLabels(labels);
+    series.set(key, (series.get(key) ?? 0) + value);
+  }
+
+  registerGauge(name: string, help: string, read: () => number): void {
+    this.gauges.set(name, { help, read });
+  }
+
+  render(): string {
+    const lines: string[] = [];
+    for (const name of Object.keys(COUNTER_HELP) as CounterName[]) {
+      lines.push(`# HELP ${PREFIX}${name} ${COUNTER_HELP[name]}`);
+      lines.push(`# TYPE ${PREFIX}${name} counter`);
+      const series = this.counters.get(name);
+      if (!series) {
+        lines.push(`${PREFIX}${name} 0`);
+        continue;
+      }
+      for (const [labels, value] of series) {
+        lines.push(`${PREFIX}${name}${labels} ${value}`);
+      }
+    }
+    for (const [name, gauge] of this.gauges) {
+      lines.push(`# HELP ${PREFIX}${name} ${gauge.help}`);
+      lines.push(`# TYPE ${PREFIX}${name} gauge`);
+      lines.push(`${PREFIX}${name} ${gauge.read()}`);
+    }
+    return lines.join('\n') + '\n';
+  }
+}
+
+function formatLabels(labels: Labels): string {
+  const entries = Object.entries(labels);
+  if (entries.length === 0) return '';
+  const escaped = entries.map(([k, v]) => `${k}="${v.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`);
+  return `{${escaped.join(',')}}`;
+}
@@ -0,0 +1,233 @@
+import { CAP_PUBSUB, Frame, MsgType, encodeTopic } from '../../shared/protocol';
+import { IConnection, ILogger } from '../core/types';
+import { PubSubConfig } from '../config';
+import { ServerPeerService } from './ServerPeerService';
+
+// Сколько msgId публикаций помним, чтобы не разослать одну публикацию дважды
+const MAX_SEEN_MESSAGES = 10000;
+const SEEN_MESSAGE_TTL_MS = 10 * 60 * 1000;
+
+interface Interest {
+  subscribed: boolean;
+  seq: number;
+  expiresAt: number;
+}
+
+// Подписки на темы. Локальные подписчики – клиенты этого ретранслятора. О подписках в сети
+// каждый ретранслятор сообщает от своего имени (origin): SUBSCRIBE / UNSUBSCRIBE с origin и seq
+// расходятся по всем соседям, более новый seq заменяет старый. Публикация уходит соседям,
+// только если где-то в сети есть подписчики темы; повторы по другому пути отсекаются по msgId.
+// Ретранслятор, пропавший из сети, отписаться не может, поэтому чужие подписки живут
+// interestTtlMs: каждый ретранслятор повторяет свои подписки с новым seq втрое чаще
+export class PubSubService {
+  // тема → hex-ключи локальных подписчиков
+  private local = new Map<string, Set<string>>();
+  // клиент → его темы
+  private byClient = new Map<string, Set<string>>();
+  // тема → seq, с которым мы объявили свою подписку
+  private ownSeq = new Map<string, number>();
+  // тема → origin → последнее известное состояние; отписки хранятся, чтобы не принять старую подписку
+  private remote = new Map<string, Map<string, Interest>>();
+  private remoteEntries = 0;
+  private seq = 0;
+  private seenMessages = new Map<string, number>();
+  private refreshTimer: NodeJS.Timeout | null = null;
+  private readonly serverHex: string;
+
+  constructor(
+    private serverPeerService: ServerPeerService,
+    private serverPublicKey: Uint8Array,
+    private config: PubSubConfig,
+    private logger: ILogger
+  ) {
+    this.serverHex = Buffer.from(serverPublicKey).toString('hex');
+  }
+
+  start(): void {
+    if (this.refreshTimer) return;
+    this.refreshTimer = setInterval(() => this.refresh(), Math.max(1, Math.floor(this.config.interestTtlMs / 3)));
+    this.refreshTimer.unref();
+  }
+
+  stop(): void {
+    if (this.refreshTimer) {
+      clearInterval(this.refreshTimer);
+      this.refreshTimer = null;
+    }
+  }
+
+  // Темы, на которые подписан хотя бы один наш клиент
+  get topicCount(): number {
+    return this.local.size;
+  }
+
+  // false – клиент исчерпал лимит подписок
+  subscribe(clientHex: string, topic: string): boolean {
+    let topics = this.byClient.get(clientHex);
+    if (topics?.has(topic)) return true;
+    if (topics && topics.size >= this.config.maxSubscriptionsPerClient) return false;
+    if (!topics) {
+      topics = new Set();
+      this.byClient.set(clientHex, topics);
+    }
+    topics.add(topic);
+
+    let subscribers = this.local.get(topic);
+    if (!subscribers) {
+      subscribers = new Set();
+      this.local.set(topic, subscribers);
+    }
+    subscribers.add(clientHex);
+    if (subscribers.size === 1) {
+      this.announceOwn(topic, true);
+    }
+    return true;
+  }
+
+  unsubscribe(clientHex: string, topic: string): void {
+    const topics = this.byClient.get(clientHex);
+    if (!topics?.delete(topic)) return;
+    if (topics.size === 0) this.byClient.delete(clientHex);
+
+    const subscribers = this.local.get(topic);
+    if (!subscribers) return;
+    subscribers.delete(clientHex);
+    if (subscribers.size === 0) {
+      this.local.delete(topic);
+      this.announceOwn(topic, false);
+    }
+  }
+
+  // Клиент отключился: после переподключения SDK подпишется заново
+  removeClient(clientHex: string): void {
+    for (const topic of Array.from(this.byClient.get(clientHex) ?? [])) {
+      this.unsubscribe(clientHex, topic);
+    }
+  }
+
+  getSubscribers(topic: string): ReadonlySet<string> | undefined {
+    return this.local.get(topic);
+  }
+
+  // Есть ли подписчики темы на других ретрансляторах
+  hasRemoteInterest(topic: string): boolean {
+    const now = Date.now();
+    for (const interest of this.remote.get(topic)?.values() ?? []) {
+      if (interest.subscribed && interest.expiresAt > now) return true;
+    }
+    return false;
+  }
+
+  // SUBSCRIBE / UNSUBSCRIBE от соседа
+  handlePeerUpdate(connection: IConnection, topic: string, subscribed: boolean, origin: Uint8Array, seq: number): void {
+    const originHex = Buffer.from(origin).toString('hex');
+    if (originHex === this.serverHex) {
+      this.correctOwn(topic, subscribed, seq);
+      return;
+    }
+
+    let entries = this.remote.get(topic);
+    const current = entries?.get(originHex);
+    if (current && current.seq >= seq) return;
+    if (!current && this.remoteEntries >= this.config.maxTopics) {
+      this.logger.warn(`Topic table full, ignoring ${subscribed ? 'subscription' : 'unsubscription'} from ${originHex.slice(0,8)}`, { conn: connection.id });
+      return;
+    }
+    if (!entries) {
+      entries = new Map();
+      this.remote.set(topic, entries);
+    }
+    if (!current) this.remoteEntries++;
+    entries.set(originHex, { subscribed, seq, expiresAt: Date.now() + this.config.interestTtlMs });
+    this.logger.debug(`Relay ${originHex.slice(0,8)} ${subscribed ? 'subscribed to' : 'unsubscribed from'} "${topic}"`, { key: originHex.slice(0, 8) });
+
+    this.serverPeerService.broadcastToPeers(this.buildUpdate(topic, subscribed, origin, seq), connection, CAP_PUBSUB);
+  }
+
+  // false – публикация с таким msgId уже проходила через этот ретранслятор
+  markMessage(msgIdHex: string): boolean {
+    const now = Date.now();
+    const expiresAt = this.seenMessages.get(msgIdHex);
+    if (expiresAt !== undefined && expiresAt > now) return false;
+    this.seenMessages.set(msgIdHex, now + SEEN_MESSAGE_TTL_MS);
+    // Map хранит порядок вставки: самые старые записи вытесняются первыми
+    while (this.seenMessages.size > MAX_SEEN_MESSAGES) {
+      this.seenMessages.delete(this.seenMessages.keys().next().value!);
+    }
+    return true;
+  }
+
+  forwardToPeers(frame: Frame, exclude?: IConnection): number {
+    return this.serverPeerService.broadcastToPeers(frame, exclude, CAP_PUBSUB);
+  }
+
+  // Новому соседу – все действующие подписки: свои и известные нам чужие
+  announceAllTo(connection: IConnection): void {
+    if (((connection.capabilities ?? 0) & CAP_PUBSUB) === 0) return;
+    for (const [topic, seq] of this.ownSeq) {
+      connection.send(this.buildUpdate(topic, true, this.serverPublicKey, seq));
+    }
+    const now = Date.now();
+    for (const [topic, entries] of this.remote) {
+      for (const [originHex, interest] of entries) {
+        if (interest.subscribed && interest.expiresAt > now) {
+          connection.send(this.buildUpdate(topic, true, Buffer.from(originHex, 'hex'), interest.seq));
+        }
+      }
+    }
+  }
+
+  // Свои подписки – заново с новым seq, чужие без повторов – забываем (вместе с отписками)
+  private refresh(): void {
+    for (const topic of this.ownSeq.keys()) {
+      this.announceOwn(topic, true);
+    }
+    const now = Date.now();
+    for (const [topic, entries] of this.remote) {
+      for (const [originHex, interest] of entries) {
+        if (interest.expiresAt > now) continue;
+        entries.delete(originHex);
+        this.remoteEntries--;
+        this.logger.debug(`Interest of ${originHex.slice(0,8)} in "${topic}" expired`, { key: originHex.slice(0, 8) });
+      }
+      if (entries.size === 0) this.remote.delete(topic);
+    }
+  }
+
+  private announceOwn(topic: string, subscribed: boolean, after = 0): void {
+    // seq растёт и между перезапусками: старт – текущее время
+    this.seq = Math.max(this.seq + 1, Date.now(), after + 1);
+    if (subscribed) {
+      this.ownSeq.set(topic, this.seq);
+    } else {
+      this.ownSeq.delete(topic);
+    }
+    this.serverPeerService.broadcastToPeers(this.buildUpdate(topic, subscribed, this.serverPublicKey, this.seq), undefined, CAP_PUBSUB);
+  }
+
+  // Сеть помнит о нас не то, что есть на самом деле (например, подписку до перезапуска) –
+  // объявляем текущее состояние с seq новее услышанного
+  private correctOwn(topic: string, subscribed: boolean, seq: number): void {
+    const subscribedHere = this.local.has(topic);
+    const ownSeq = this.ownSeq.get(topic) ?? 0;
+    const stale = subscribedHere ? seq > ownSeq || (seq === ownSeq && !subscribed) : subscribed;
+    if (stale) {
+      this.logger.debug(`Correcting stale ${subscribed ? 'subscription' : 'unsubscription'} to "${topic}" announced for this relay`);
+      this.announceOwn(topic, subscribedHere, seq);
+    }
+  }
+
+  // [тема, origin(32), seq(8)]
+  private buildUpdate(topic: string, subscribed: boolean, origin: Uint8Array, seq: number): Frame {
+    const encoded = encodeTopic(topic);
+    const payload = new Uint8Array(encoded.length + 32 + 8);
+    payload.set(encoded, 0);
+    payload.set(origin, encoded.length);
+    new DataView(payload.buffer).setBigUint64(encoded.length + 32, BigInt(seq), false);
+    return {
+      type: subscribed ? MsgType.SUBSCRIBE : MsgType.UNSUBSCRIBE,
+      payload,
+      senderId: this.serverPublicKey,
+    };
+  }
+}
@@ -0,0 +1,133 @@
+import { Frame } from '../../shared/protocol';
+import { IConnection, IClientRepository, IServerPeerRepository, ILogger } from '../core/types';
+import { RateLimitConfig, RateLimitsConfig } from '../config';
+
+// Ведро токенов: пополняется со скоростью rate в секунду до capacity
+class TokenBucket {
+  private tokens: number;
+  private updatedAt = Date.now();
+
+  constructor(private rate: number, private capacity: number) {
+    this.tokens = capacity;
+  }
+
+  take(amount: number): boolean {
+    if (this.rate === 0) return true; // 0 – без ограничения
+    this.refill();
+    if (this.tokens < amount) return false;
+    this.tokens -= amount;
+    return true;
+  }
+
+  // Ведро полное и не использовалось – его можно выбросить без потери состояния
+  isIdle(): boolean {
+    this.refill();
+    return this.tokens >= this.capacity;
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    this.tokens = Math.min(this.capacity, this.tokens + (now - this.updatedAt) / 1000 * this.rate);
+    this.updatedAt = now;
+  }
+}
+
+interface Buckets {
+  limits: RateLimitConfig; // для кого построены: клиентские или серверные лимиты
+  frames: TokenBucket;
+  bytes: TokenBucket;
+  queries: TokenBucket;
+}
+
+// Лимиты на соединение и на аутентифицированный ключ: переподключение не обнуляет счётчики ключа.
+// Для клиентов и серверов-соседей – разные лимиты
+export class RateLimitService {
+  private byConnection = new WeakMap<IConnection, Buckets>();
+  private byKey = new Map<string, Buckets>();
+  private cleanupTimer: NodeJS.Timeout | null = null;
+
+  constructor(
+    private limits: RateLimitsConfig,
+    private clientRepo: IClientRepository,
+    private serverRepo: IServerPeerRepository,
+    private logger: ILogger
+  ) {}
+
+  start(): void {
+    if (this.cleanupTimer) return;
+    this.cleanupTimer = setInterval(() => this.purgeIdle(), 60000);
+    this.cleanupTimer.unref();
+  }
+
+  stop(): void {
+    if (this.cleanupTimer) {
+      clearInterval(this.cleanupTimer);
+      this.cleanupTimer = null;
+    }
+  }
+
+  // Кадр целиком (заголовок + payload) списывается из обоих наборов вёдер
+  allowFrame(connection: IConnection, frame: Frame): boolean {
+    const size = 120 + frame.payload.length;
+    for (const buckets of this.bucketsFor(connection)) {
+      if (!buckets.frames.take(1) || !buckets.bytes.take(size)) {
+        this.logger.debug(`Rate limit exceeded by ${connection.id}`, { conn: connection.id });
+        return false;
+      }
+    }
+    return true;
+  }
+
+  // Поиск клиента по сети (рассылка NODE_INFO_QUERY_CLIENT соседям)
+  allowQuery(connection: IConnection): boolean {
+    for (const buckets of this.bucketsFor(connection)) {
+      if (!buckets.queries.take(1)) {
+        this.logger.debug(`Query rate limit exceeded by ${connection.id}`, { conn: connection.id });
+        return false;
+      }
+    }
+    return true;
+  }
+
+  private bucketsFor(connection: IConnection): Buckets[] {
+    const server = this.serverRepo.getByConnection(connection);
+    const client = server ? undefined : this.clientRepo.getByConnection(connection);
+    const limits = server || connection.peerType === 'server' ? this.limits.server : this.limits.client;
+
+    // Первый кадр входящего соседа – рукопожатие, до него соединение не отличить от клиента.
+    // Когда класс соединения становится известен, вёдра строятся заново под его лимиты
+    let connectionBuckets = this.byConnection.get(connection);
+    if (connectionBuckets?.limits !== limits) {
+      connectionBuckets = this.createBuckets(limits);
+      this.byConnection.set(connection, connectionBuckets);
+    }
+
+    const publicKey = server?.publicKey ?? client?.publicKey;
+    if (!publicKey) return [connectionBuckets];
+
+    const keyHex = Buffer.from(publicKey).toString('hex');
+    let keyBuckets = this.byKey.get(keyHex);
+    if (keyBuckets?.limits !== limits) {
+      keyBuckets = this.createBuckets(limits);
+      this.byKey.set(keyHex, keyBuckets);
+    }
+    return [connectionBuckets, keyBuckets];
+  }
+
+  private createBuckets(limits: RateLimitConfig): Buckets {
+    return {
+      limits,
+      frames: new TokenBucket(limits.framesPerSecond, limits.framesPerSecond * limits.burstSeconds),
+      bytes: new TokenBucket(limits.bytesPerSecond, limits.bytesPerSecond * limits.burstSeconds),
+      queries: new TokenBucket(limits.queriesPerSecond, limits.queriesPerSecond * limits.burstSeconds),
+    };
+  }
+
+  private purgeIdle(): void {
+    for (const [keyHex, buckets] of this.byKey) {
+      if (buckets.frames.isIdle() && buckets.bytes.isIdle() && buckets.queries.isIdle()) {
+        this.byKey.delete(keyHex);
+      }
+    }
+  }
+}
@@ -1,13 +1,23 @@
 import WebSocket from 'ws';
-import { randomBytes } from 'crypto';
 import { IConnection, IServerPeerRepository, ILogger } from '../core/types';
-import { Frame, MsgType, PublicKey, decodeFrame } from '../../shared/protocol';
+import { Frame, PublicKey, decodeFrame } from '../../shared/protocol';
 import { WebSocketConnection } from '../websocket/WebSocketConnection';
 import { MessageDispatcher } from '../messaging/MessageDispatcher';
 import { HandshakeHandler } from '../handlers/HandshakeHandler';
+import { ConnectionLimitsConfig, RedialConfig } from '../config';
+import { MetricsService } from './MetricsService';
+
+// Состояние постоянной связи с соседом, адрес которого мы знаем
+interface PeerLink {
+  attempt: number;                   // число неудачных попыток подряд
+  timer: NodeJS.Timeout | null;      // запланированное переподключение
+  connection: WebSocketConnection | null;
+}
 
 export class ServerPeerService {
   private messageDispatcher: MessageDispatcher;
+  private links = new Map<string, PeerLink>();
+  private stopped = false;
 
   constructor(
     private serverRepo: IServerPeerRepository,
@@ -15,7 +25,12 @@ export class ServerPeerService {
     private handshakeHandler: HandshakeHandler, // добавлено
     private serverPublicKey: PublicKey,
     private logger: ILogger,
-    private port: number
+    private port: number,
+    private publicAddress: string | null,
+    private heartbeatIntervalMs: number,
+    private redial: RedialConfig,
+    private connectionLimits: ConnectionLimitsConfig,
+    private metrics: MetricsService
   ) {
     this.messageDispatcher = messageDispatcher;
   }
@@ -24,65 +39,148 @@ export class ServerPeerService {
     this.messageDispatcher = dispatcher;
   }
 
+  stop(): void {
+    this.stopped = true;
+    for (const link of this.links.values()) {
+      if (link.timer) clearTimeout(link.timer);
+      link.timer = null;
+      link.connection?.close();
+    }
+  }
+
+  // Адрес запоминается: после обрыва к нему переподключаемся с экспоненциальной задержкой
   async connectToPeer(address: string): Promise<void> {
-    for (const peer of this.serverRepo.getAll()) {
-      if (peer.address === address && peer.connection) {
-        this.logger.debug(`Already connected to peer ${address}`);
-        return;
-      }
+    if (this.isOwnAddress(address)) {
+      this.logger.debug(`Ignoring own address ${address}`);
+      return;
+    }
+    let link = this.links.get(address);
+    if (!link) {
+      link = { attempt: 0, timer: null, connection: null };
+      this.links.set(address, link);
+    }
+    if (link.connection || link.timer) {
+      this.logger.debug(`Link to peer ${address} already maintained`);
+      return;
+    }
+    this.dial(address, link);
+  }
+
+  private dial(address: string, link: PeerLink): void {
+    if (this.stopped) return;
+    if (this.isConnectedTo(address)) {
+      this.logger.debug(`Already connected to peer ${address}`);
+      link.attempt = 0;
+      return;
     }
 
     this.logger.info(`Connecting to peer server: ${address}`);
-    const ws = new WebSocket(address);
+    const ws = new WebSocket(address, { maxPayload: this.connectionLimits.maxFrameBytes });
     ws.binaryType = 'arraybuffer';
 
-    const connection = new WebSocketConnection(ws);
+    const connection = new WebSocketConnection(ws, this.logger, this.connectionLimits.maxBufferedBytes, this.metrics);
     connection.peerType = 'server';
+    connection.address = address;
+    link.connection = connection;
 
     ws.onopen = () => {
       this.logger.debug(`WebSocket opened to ${address}`);
-      const challenge = randomBytes(32);
-      this.handshakeHandler.setPendingChallenge(connection, challenge);
-      connection.send({
-        type: MsgType.HANDSHAKE,
-        payload: new Uint8Array(challenge),
-        senderId: new Uint8Array(32),
-      });
+      connection.startHeartbeat(this.heartbeatIntervalMs);
+      connection.send(this.handshakeHandler.buildChallenge(connection));
     };
 
     ws.onmessage = async (event) => {
       try {
-        const frame = decodeFrame(event.data as ArrayBuffer);
+        const frame = decodeFrame(event.data as ArrayBuffer, this.connectionLimits.maxFrameBytes);
         await this.messageDispatcher.dispatch(connection, frame);
+        if (link.attempt > 0 && this.serverRepo.getByConnection(connection)) {
+          link.attempt = 0; // рукопожатие прошло – задержка снова минимальная
+        }
       } catch (err) {
         this.logger.error(`Error handling peer message from ${address}:`, err);
       }
     };
 
     ws.onerror = (err) => {
-      this.logger.error(`Peer connection error to ${address}:`, err);
+      this.logger.error(`Peer connection error to ${address}:`, err.message);
     };
 
     ws.onclose = () => {
       this.logger.info(`Disconnected from peer ${address}`);
-      for (const peer of this.serverRepo.getAll()) {
-        if (peer.connection === connection) {
-          this.serverRepo.remove(Buffer.from(peer.publicKey).toString('hex'));
-          break;
-        }
+      if (!this.serverRepo.getByConnection(connection)) {
+        this.serverRepo.markFailure(address); // до рукопожатия не дошло
+      }
+      if (link.connection === connection) {
+        link.connection = null;
       }
+      this.handleDisconnect(connection);
+      this.scheduleRedial(address, link);
     };
   }
 
-  broadcastToPeers(frame: Frame, exclude?: IConnection): void {
+  // Соединение с соседом (входящее или исходящее) закрылось: запись о нём остаётся без соединения
+  handleDisconnect(connection: IConnection): void {
+    const peer = this.serverRepo.getByConnection(connection);
+    if (!peer || peer.connection !== connection) return;
+    const publicKeyHex = Buffer.from(peer.publicKey).toString('hex');
+    const { connection: _closed, ...record } = peer;
+    this.serverRepo.remove(publicKeyHex);
+    this.serverRepo.add(record);
+    this.logger.info(`Peer ${publicKeyHex.slice(0,8)} link lost`, { key: publicKeyHex.slice(0, 8) });
+
+    const link = this.links.get(peer.address);
+    if (link && !link.connection) {
+      this.scheduleRedial(peer.address, link);
+    }
+  }
+
+  private scheduleRedial(address: string, link: PeerLink): void {
+    if (this.stopped || link.timer) return;
+    const base = Math.min(
+      this.redial.maxDelayMs,
+      this.redial.initialDelayMs * Math.pow(2, link.attempt)
+    );
+    const delay = Math.round(base * (0.8 + 0.4 * Math.random()));
+    link.attempt++;
+    this.logger.debug(`Redialing peer ${address} in ${delay} ms (attempt ${link.attempt})`);
+    link.timer = setTimeout(() => {
+      link.timer = null;
+      this.dial(address, link);
+    }, delay);
+  }
+
+  private isConnectedTo(address: string): boolean {
+    for (const peer of this.serverRepo.getAll()) {
+      if (peer.address === address && peer.connection?.isOpen) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  // Возвращает число соседей, которым ушёл кадр
+  // capabilities – только соседям, договорившимся об этих возможностях (кадры новых типов)
+  broadcastToPeers(frame: Frame, exclude?: IConnection, capabilities = 0): number {
+    let sent = 0;
     for (const peer of this.serverRepo.getAll()) {
-      if (peer.connection && peer.connection !== exclude && peer.connection.isOpen) {
+      if (peer.connection && peer.connection !== exclude && peer.connection.isOpen &&
+          ((peer.connection.capabilities ?? 0) & capabilities) === capabilities) {
         peer.connection.send(frame);
+        sent++;
       }
     }
+    return sent;
   }
 
   getPort(): number {
     return this.port;
   }
+
+  getPublicAddress(): string | null {
+    return this.publicAddress;
+  }
+
+  isOwnAddress(address: string): boolean {
+    return address === this.publicAddress || address === `ws://localhost:${this.port}`;
+  }
 }
\ No newline at end of file
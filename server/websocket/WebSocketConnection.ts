@@ -1,22 +1,64 @@
 import WebSocket from 'ws';
-import { IConnection } from '../core/types';
-import { Frame, encodeFrame } from '../../shared/protocol';
-import { logger } from '../logger';
+import { IConnection, ILogger } from '../core/types';
+import { Frame, MsgType, encodeFrame } from '../../shared/protocol';
+import { MetricsService } from '../services/MetricsService';
 
 export class WebSocketConnection implements IConnection {
   public readonly id: string;
   public peerType?: 'client' | 'server';
+  public address?: string;
+  private alive = true;
+  private heartbeatTimer: NodeJS.Timeout | null = null;
+  private logger: ILogger;
 
-  constructor(private ws: WebSocket) {
+  // maxBufferedBytes – сколько неотправленных данных может скопиться у медленного получателя
+  constructor(private ws: WebSocket, logger: ILogger, private maxBufferedBytes = Infinity, private metrics?: MetricsService) {
     this.id = Math.random().toString(36).substring(2, 10);
+    this.logger = logger.child({ conn: this.id });
+    // Любой входящий трафик подтверждает, что соединение живо
+    ws.on('pong', () => { this.alive = true; });
+    ws.on('message', () => { this.alive = true; });
+    ws.on('close', () => this.stopHeartbeat());
   }
 
-  send(frame: Frame): void {
-    if (this.ws.readyState === WebSocket.OPEN) {
-      this.ws.send(encodeFrame(frame));
-    } else {
-      logger.warn(`Attempt to send on closed connection ${this.id}`);
+  // ping раз в intervalMs; если за интервал не пришло ни pong, ни данных – соединение обрывается
+  startHeartbeat(intervalMs: number): void {
+    if (this.heartbeatTimer || intervalMs <= 0) return;
+    this.heartbeatTimer = setInterval(() => {
+      if (!this.alive) {
+        this.logger.warn(`Connection ${this.id} missed heartbeat, terminating`);
+        this.stopHeartbeat();
+        this.ws.terminate();
+        return;
+      }
+      this.alive = false;
+      if (this.ws.readyState === WebSocket.OPEN) {
+        this.ws.ping();
+      }
+    }, intervalMs);
+  }
+
+  private stopHeartbeat(): void {
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+  }
+
+  send(frame: Frame): boolean {
+    if (this.ws.readyState !== WebSocket.OPEN) {
+      this.logger.warn(`Attempt to send on closed connection ${this.id}`);
+      return false;
+    }
+    const data = encodeFrame(frame);
+    if (this.ws.bufferedAmount + data.byteLength > this.maxBufferedBytes) {
+      this.logger.warn(`Send buffer of ${this.id} is full, frame not sent`, { bufferedBytes: this.ws.bufferedAmount });
+      return false;
     }
+    this.ws.send(data);
+    this.metrics?.inc('frames_sent_total', { type: MsgType[frame.type] ?? String(frame.type) });
+    this.metrics?.inc('bytes_sent_total', {}, data.byteLength);
+    return true;
   }
 
   close(): void {
@@ -26,4 +68,4 @@ export class WebSocketConnection implements IConnection {
   get isOpen(): boolean {
     return this.ws.readyState === WebSocket.OPEN;
   }
-}
\ No newline at end of file
+}
@@ -3,20 +3,32 @@ import { IConnectionManager, IConnectionListener, ILogger } from '../core/types'
 import { WebSocketConnection } from './WebSocketConnection';
 import { MessageDispatcher } from '../messaging/MessageDispatcher';
 import { decodeFrame } from '../../shared/protocol';
+import { ConnectionLimitsConfig } from '../config';
+import { MetricsService } from '../services/MetricsService';
 
 export class WebSocketServerAdapter implements IConnectionManager {
   private wss: WebSocketServer;
   private listeners: IConnectionListener[] = [];
+  private listening = false;
 
   constructor(
-    port: number,
+    private port: number,
+    private host: string,
+    private heartbeatIntervalMs: number,
+    private limits: ConnectionLimitsConfig,
     private dispatcher: MessageDispatcher,
+    private metrics: MetricsService,
     private logger: ILogger
   ) {
-    this.wss = new WebSocketServer({ port });
+    // Сообщение больше maxPayload ws отвергает сам (код 1009), не собирая его в памяти
+    this.wss = new WebSocketServer({ port, host, maxPayload: limits.maxFrameBytes });
+    this.wss.on('listening', () => { this.listening = true; });
+    this.wss.on('close', () => { this.listening = false; });
     this.wss.on('connection', (ws: WebSocket) => {
-      const connection = new WebSocketConnection(ws);
-      this.logger.info(`New connection: ${connection.id}`);
+      const connection = new WebSocketConnection(ws, this.logger, limits.maxBufferedBytes, metrics);
+      const log = this.logger.child({ conn: connection.id });
+      connection.startHeartbeat(this.heartbeatIntervalMs);
+      log.info(`New connection: ${connection.id}`);
       this.listeners.forEach(listener => listener.onConnection(connection));
 
       ws.on('message', async (data: WebSocket.RawData) => {
@@ -34,31 +46,42 @@ export class WebSocketServerAdapter implements IConnectionManager {
             const combined = Buffer.concat(data);
             arrayBuffer = combined.buffer.slice(combined.byteOffset, combined.byteOffset + combined.byteLength) as ArrayBuffer;
           } else {
-            this.logger.error(`Unexpected message type from ${connection.id}: ${typeof data}`);
+            log.error(`Unexpected message type from ${connection.id}: ${typeof data}`);
             return;
           }
-          const frame = decodeFrame(arrayBuffer);
+          const frame = decodeFrame(arrayBuffer, this.limits.maxFrameBytes);
           await this.dispatcher.dispatch(connection, frame);
         } catch (err) {
-          this.logger.error(`Error handling message from ${connection.id}:`, err);
+          log.error(`Error handling message from ${connection.id}:`, err);
           connection.close();
         }
       });
 
+      // Ошибки протокола (в том числе превышение maxPayload): ws сам закрывает сокет
+      ws.on('error', (err) => {
+        log.warn(`Connection ${connection.id} error: ${err.message}`);
+      });
+
       ws.on('close', () => {
-        this.logger.info(`Connection closed: ${connection.id}`);
+        log.info(`Connection closed: ${connection.id}`);
+        this.listeners.forEach(listener => listener.onDisconnection(connection));
       });
     });
   }
 
   start(): void {
-    this.logger.info(`WebSocket server started on port ${(this.wss.options as any).port}`);
+    this.logger.info(`WebSocket server started on ${this.host}:${this.port}`);
   }
 
   stop(): void {
+    this.listening = false;
     this.wss.close();
   }
 
+  isListening(): boolean {
+    return this.listening;
+  }
+
   registerListener(listener: IConnectionListener): void {
     this.listeners.push(listener);
   }
@@ -1,10 +1,27 @@
+import { hash as sha256 } from '@stablelib/sha256';
+
 export const MAGIC = 0x58;
 export const VERSION = 0x01;
 export enum MsgType { 
   HANDSHAKE = 1, 
   DATA = 2,
   NODE_INFO = 3,
-  SIGNED_DATA = 4   // новый тип
+  SIGNED_DATA = 4,  // новый тип
+  ENCRYPTED_DATA = 5, // подписанное и зашифрованное содержимое (E2E)
+  DELIVERY_STATUS = 6, // ретранслятор → отправитель: квитанция по msgId исходного кадра
+  GROUP_DATA = 7,     // сообщение группе: groupId(32) | версия ключа(4) | зашифрованное содержимое
+  SUBSCRIBE = 8,      // подписка на тему: тема (см. encodeTopic); от соседа – ещё origin(32) | seq(8)
+  UNSUBSCRIBE = 9,    // отписка, формат как у SUBSCRIBE
+  PUBLISH = 10        // публикация: тема | подпись(64) | содержимое
+}
+
+// Статусы DELIVERY_STATUS
+export enum DeliveryStatus {
+  DELIVERED = 1, // передано получателю
+  QUEUED = 2,    // получатель не в сети, кадр в почтовом ящике ретранслятора
+  FAILED = 3,    // не доставлено и не поставлено в очередь (ящик переполнен)
+  ACCEPTED = 4,  // принято ретранслятором отправителя
+  THROTTLED = 5  // отброшено: отправитель превысил лимит ретранслятора, можно повторить позже
 }
 
 // Подтипы NODE_INFO
@@ -15,12 +32,123 @@ export const NODE_INFO_RESPONSE_SERVERS = 3;
 export const NODE_INFO_ADD_SERVER = 4;        // клиент → сервер: добавь эту трубу
 export const NODE_INFO_QUERY_CLIENT = 5;       // запрос: есть ли у тебя клиент с таким ключом?
 export const NODE_INFO_QUERY_RESPONSE = 6;     // ответ: статус + информация
+export const NODE_INFO_PRESENCE = 7;           // сервер → соседям: клиенты подключились/отключились
+export const NODE_INFO_GROUP_ROSTER = 8;       // подписанный состав группы: клиент → серверу, сервер → соседям
+
+// Версии протокола, которые понимает эта сборка. 1 – рукопожатие без обмена версиями,
+// 2 – challenge и ответ на него несут HELLO: [minVersion, maxVersion, capabilities(4)],
+// 3 – клиент добавляет в ответ свой challenge, сервер подписывает подтверждение
+export const PROTOCOL_VERSION_MIN = 1;
+export const PROTOCOL_VERSION_MAX = 3;
+// С этой версии клиент может проверить ключ сервера; SDK ниже не опускается
+export const PROTOCOL_VERSION_SERVER_AUTH = 3;
+
+// Возможности (битовая маска в HELLO); договорённый набор – пересечение двух сторон
+export const CAP_ENCRYPTION = 1 << 0;  // понимает ENCRYPTED_DATA
+export const CAP_RECEIPTS = 1 << 1;    // понимает DELIVERY_STATUS
+export const CAP_COMPRESSION = 1 << 2; // зарезервировано: сжатие содержимого
+export const CAP_GROUPS = 1 << 3;      // понимает GROUP_DATA и составы групп
+export const CAP_PUBSUB = 1 << 4;      // понимает SUBSCRIBE / UNSUBSCRIBE / PUBLISH
+
+export const HANDSHAKE_CHALLENGE_LENGTH = 32;
+export const HELLO_LENGTH = 6;
+// Ответ клиента версии 3: [challenge сервера(32), HELLO(6), challenge клиента(32)]
+export const CLIENT_RESPONSE_LENGTH = HANDSHAKE_CHALLENGE_LENGTH + HELLO_LENGTH + HANDSHAKE_CHALLENGE_LENGTH;
+export const HANDSHAKE_CONFIRM = 1;
+export const HANDSHAKE_REJECT = 0;
+
+// Причины отказа в рукопожатии
+export enum HandshakeRejectCode {
+  PROTOCOL_ERROR = 0,
+  UNSUPPORTED_VERSION = 1,
+  UNKNOWN_PEER = 2,        // ретранслятор, которому не разрешено подключаться к нам соседом
+}
+
+export interface Hello {
+  minVersion: number;
+  maxVersion: number;
+  capabilities: number;
+}
+
+export interface Negotiated {
+  version: number;
+  capabilities: number;
+}
+
+// Сторона, приславшая голый 32-байтовый challenge, говорит на версии 1 и ничего не объявляет
+export const LEGACY_HELLO: Hello = { minVersion: 1, maxVersion: 1, capabilities: 0 };
+
+export function encodeHello(hello: Hello): Uint8Array {
+  const bytes = new Uint8Array(HELLO_LENGTH);
+  bytes[0] = hello.minVersion;
+  bytes[1] = hello.maxVersion;
+  new DataView(bytes.buffer).setUint32(2, hello.capabilities >>> 0, false);
+  return bytes;
+}
+
+export function decodeHello(bytes: Uint8Array): Hello {
+  if (bytes.length < HELLO_LENGTH) throw new Error('hello too short');
+  const dv = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  return { minVersion: bytes[0]!, maxVersion: bytes[1]!, capabilities: dv.getUint32(2, false) };
+}
+
+// Старшая общая версия; null – диапазоны не пересекаются
+export function negotiate(local: Hello, remote: Hello): Negotiated | null {
+  const version = Math.min(local.maxVersion, remote.maxVersion);
+  if (version < Math.max(local.minVersion, remote.minVersion)) return null;
+  return { version, capabilities: (local.capabilities & remote.capabilities) >>> 0 };
+}
+
+// Подтверждение: [1] для версии 1, [1, version, capabilities(4)] начиная с версии 2
+export function encodeHandshakeConfirm(negotiated: Negotiated): Uint8Array {
+  if (negotiated.version < 2) return new Uint8Array([HANDSHAKE_CONFIRM]);
+  const bytes = new Uint8Array(1 + 1 + 4);
+  bytes[0] = HANDSHAKE_CONFIRM;
+  bytes[1] = negotiated.version;
+  new DataView(bytes.buffer).setUint32(2, negotiated.capabilities >>> 0, false);
+  return bytes;
+}
+
+// Что подписывает сервер в подтверждении: challenge клиента + само подтверждение
+export function confirmSignedData(clientChallenge: Uint8Array, confirm: Uint8Array): Uint8Array {
+  const data = new Uint8Array(clientChallenge.length + confirm.length);
+  data.set(clientChallenge, 0);
+  data.set(confirm, clientChallenge.length);
+  return data;
+}
+
+export function decodeHandshakeConfirm(payload: Uint8Array): Negotiated {
+  if (payload.length < 6) return { version: 1, capabilities: 0 };
+  const dv = new DataView(payload.buffer, payload.byteOffset, payload.byteLength);
+  return { version: payload[1]!, capabilities: dv.getUint32(2, false) };
+}
+
+// Отказ: [0, код, причина в UTF-8]. Длина держится меньше 32 байт,
+// чтобы отказ нельзя было спутать с challenge
+export function encodeHandshakeReject(code: HandshakeRejectCode, reason: string): Uint8Array {
+  const text = new TextEncoder().encode(reason).slice(0, HANDSHAKE_CHALLENGE_LENGTH - 3);
+  const bytes = new Uint8Array(2 + text.length);
+  bytes[0] = HANDSHAKE_REJECT;
+  bytes[1] = code;
+  bytes.set(text, 2);
+  return bytes;
+}
+
+export function decodeHandshakeReject(payload: Uint8Array): { code: HandshakeRejectCode; reason: string } {
+  return {
+    code: (payload[1] ?? HandshakeRejectCode.PROTOCOL_ERROR) as HandshakeRejectCode,
+    reason: new TextDecoder().decode(payload.slice(2)),
+  };
+}
+
+export const FRAME_HEADER_LENGTH = 120;
 
 export interface Frame {
   type: MsgType;
   payload: Uint8Array;
   senderId: Uint8Array; // 32 байта
   signature?: Uint8Array; // 64 байта
+  msgId?: Uint8Array; // 16 байт, нули – без идентификатора
 }
 
 export function encodeFrame(frame: Frame): ArrayBuffer {
@@ -32,8 +160,10 @@ export function encodeFrame(frame: Frame): ArrayBuffer {
   dv.setUint8(3, 0); // flags
   dv.setUint32(4, frame.payload.length, false); // big-endian
 
-  // msgId (16 байт) – пока нули
-  for (let i = 0; i < 16; i++) dv.setUint8(8 + i, 0);
+  // msgId (16 байт) – если не передан, нули
+  if (frame.msgId) {
+    new Uint8Array(header, 8, 16).set(frame.msgId);
+  }
   // senderId
   new Uint8Array(header, 24, 32).set(frame.senderId);
   // signature (64 байт) – если передано, копируем, иначе нули
@@ -46,17 +176,171 @@ export function encodeFrame(frame: Frame): ArrayBuffer {
   return total.buffer;
 }
 
-export function decodeFrame(buffer: ArrayBuffer): Frame {
+// maxLength – предел для всего кадра (заголовок + payload); поле длины должно точно совпадать с размером буфера
+export function decodeFrame(buffer: ArrayBuffer, maxLength = Infinity): Frame {
   if (buffer.byteLength < 120) throw new Error('frame too short');
+  if (buffer.byteLength > maxLength) throw new Error('frame too large');
   const dv = new DataView(buffer);
   if (dv.getUint8(0) !== MAGIC) throw new Error('bad magic');
+  // Версия заголовка меняется только при несовместимой смене формата кадра
+  if (dv.getUint8(1) !== VERSION) throw new Error(`unsupported frame version ${dv.getUint8(1)}`);
   const type = dv.getUint8(2) as MsgType;
   const len = dv.getUint32(4, false);
+  if (120 + len > maxLength) throw new Error('frame too large');
   if (buffer.byteLength < 120 + len) throw new Error('incomplete frame');
+  if (buffer.byteLength > 120 + len) throw new Error('trailing data after frame');
+  const msgId = new Uint8Array(buffer, 8, 16);
   const senderId = new Uint8Array(buffer, 24, 32);
   const signature = new Uint8Array(buffer, 56, 64);
   const payload = new Uint8Array(buffer, 120, len);
-  return { type, payload, senderId, signature };
+  return { type, payload, senderId, signature, msgId };
+}
+
+// Копия кадра, не разделяющая память с исходным буфером (для хранения в очередях)
+export function cloneFrame(frame: Frame): Frame {
+  const copy: Frame = {
+    type: frame.type,
+    payload: frame.payload.slice(),
+    senderId: frame.senderId.slice(),
+  };
+  if (frame.signature) {
+    copy.signature = frame.signature.slice();
+  }
+  if (frame.msgId) {
+    copy.msgId = frame.msgId.slice();
+  }
+  return copy;
+}
+
+export type PublicKey = Uint8Array;
+
+// Тема публикаций: [длина(1), UTF-8], от 1 до 255 байт
+export const MAX_TOPIC_LENGTH = 255;
+
+export function encodeTopic(topic: string): Uint8Array {
+  const bytes = new TextEncoder().encode(topic);
+  if (bytes.length === 0 || bytes.length > MAX_TOPIC_LENGTH) {
+    throw new Error(`Topic must be 1..${MAX_TOPIC_LENGTH} bytes in UTF-8`);
+  }
+  const encoded = new Uint8Array(1 + bytes.length);
+  encoded[0] = bytes.length;
+  encoded.set(bytes, 1);
+  return encoded;
+}
+
+// Тема в начале payload; length – сколько байт она заняла вместе с байтом длины
+export function decodeTopic(payload: Uint8Array): { topic: string; length: number } {
+  const size = payload[0] ?? 0;
+  if (size === 0 || payload.length < 1 + size) throw new Error('malformed topic');
+  return { topic: new TextDecoder().decode(payload.slice(1, 1 + size)), length: 1 + size };
+}
+
+// Подпись публикации покрывает и тему: ретранслятор не может переложить её в другую
+export function publicationSignedData(encodedTopic: Uint8Array, content: Uint8Array): Uint8Array {
+  const data = new Uint8Array(encodedTopic.length + content.length);
+  data.set(encodedTopic, 0);
+  data.set(content, encodedTopic.length);
+  return data;
+}
+
+// Состав группы, подписанный её администратором:
+//   groupId(32) | admin(32) | salt(16) | version(4) | count(2) | участники(32 * count) | подпись(64).
+// groupId = SHA-256(admin | salt): чужой ключ не может выдать себя за администратора группы.
+// Из двух составов одной группы действует тот, у которого version больше
+export interface GroupRoster {
+  groupId: Uint8Array;
+  admin: PublicKey;
+  salt: Uint8Array;
+  version: number;
+  members: PublicKey[];
+  signature: Uint8Array;
+}
+
+export const GROUP_ID_LENGTH = 32;
+export const GROUP_SALT_LENGTH = 16;
+const ROSTER_HEADER_LENGTH = GROUP_ID_LENGTH + 32 + GROUP_SALT_LENGTH + 4 + 2;
+const ROSTER_CONTEXT = new TextEncoder().encode('exvia-group-roster-v1');
+
+export function deriveGroupId(admin: PublicKey, salt: Uint8Array): Uint8Array {
+  const data = new Uint8Array(admin.length + salt.length);
+  data.set(admin, 0);
+  data.set(salt, admin.length);
+  return sha256(data);
+}
+
+// Что подписывает администратор: метка формата + всё, кроме подписи
+export function groupRosterSignedData(roster: Omit<GroupRoster, 'signature'>): Uint8Array {
+  const body = encodeRosterBody(roster);
+  const data = new Uint8Array(ROSTER_CONTEXT.length + body.length);
+  data.set(ROSTER_CONTEXT, 0);
+  data.set(body, ROSTER_CONTEXT.length);
+  return data;
+}
+
+export function encodeGroupRoster(roster: GroupRoster): Uint8Array {
+  const body = encodeRosterBody(roster);
+  const bytes = new Uint8Array(body.length + 64);
+  bytes.set(body, 0);
+  bytes.set(roster.signature, body.length);
+  return bytes;
+}
+
+// Подпись и groupId не проверяются – это дело получателя (verifyGroupRoster)
+export function decodeGroupRoster(bytes: Uint8Array): GroupRoster {
+  if (bytes.length < ROSTER_HEADER_LENGTH + 64) throw new Error('roster too short');
+  const dv = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let offset = 0;
+  const groupId = bytes.slice(offset, offset += GROUP_ID_LENGTH);
+  const admin = bytes.slice(offset, offset += 32);
+  const salt = bytes.slice(offset, offset += GROUP_SALT_LENGTH);
+  const version = dv.getUint32(offset, false);
+  const count = dv.getUint16(offset + 4, false);
+  offset += 6;
+  if (bytes.length !== ROSTER_HEADER_LENGTH + count * 32 + 64) throw new Error('roster length mismatch');
+  const members: PublicKey[] = [];
+  for (let i = 0; i < count; i++) {
+    members.push(bytes.slice(offset, offset += 32));
+  }
+  const signature = bytes.slice(offset, offset + 64);
+  return { groupId, admin, salt, version, members, signature };
+}
+
+// groupId выведен из ключа администратора, администратор в составе, подпись верна
+export function verifyGroupRoster(
+  roster: GroupRoster,
+  verify: (publicKey: PublicKey, data: Uint8Array, signature: Uint8Array) => boolean
+): boolean {
+  if (!bytesEqual(deriveGroupId(roster.admin, roster.salt), roster.groupId)) return false;
+  if (!roster.members.some(member => bytesEqual(member, roster.admin))) return false;
+  return verify(roster.admin, groupRosterSignedData(roster), roster.signature);
+}
+
+// Associated data для GROUP_DATA: отправитель, группа и версия ключа не подменяются по дороге
+export function groupAssociatedData(senderId: PublicKey, groupId: Uint8Array, keyVersion: number): Uint8Array {
+  const data = new Uint8Array(32 + GROUP_ID_LENGTH + 4);
+  data.set(senderId, 0);
+  data.set(groupId, 32);
+  new DataView(data.buffer).setUint32(32 + GROUP_ID_LENGTH, keyVersion >>> 0, false);
+  return data;
+}
+
+function encodeRosterBody(roster: Omit<GroupRoster, 'signature'>): Uint8Array {
+  const bytes = new Uint8Array(ROSTER_HEADER_LENGTH + roster.members.length * 32);
+  const dv = new DataView(bytes.buffer);
+  let offset = 0;
+  bytes.set(roster.groupId, offset); offset += GROUP_ID_LENGTH;
+  bytes.set(roster.admin, offset); offset += 32;
+  bytes.set(roster.salt, offset); offset += GROUP_SALT_LENGTH;
+  dv.setUint32(offset, roster.version >>> 0, false);
+  dv.setUint16(offset + 4, roster.members.length, false);
+  offset += 6;
+  for (const member of roster.members) {
+    bytes.set(member, offset);
+    offset += 32;
+  }
+  return bytes;
 }
 
-export type PublicKey = Uint8Array;
\ No newline at end of file
+function bytesEqual(a: Uint8Array, b: Uint8Array): boolean {
+  return a.length === b.length && a.every((byte, i) => byte === b[i]);
+}
\ No newline at end of file
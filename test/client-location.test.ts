@@ -0,0 +1,135 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { generateKeyPair } from '@stablelib/ed25519';
+import { Frame, MsgType, NODE_INFO_PRESENCE } from '../shared/protocol';
+import { loadConfig } from '../server/config';
+import { ClientLocationService } from '../server/services/ClientLocationService';
+import { ServerPeerService } from '../server/services/ServerPeerService';
+import { InMemoryClientRepository } from '../server/repositories/InMemoryClientRepository';
+import { InMemoryServerPeerRepository } from '../server/repositories/InMemoryServerPeerRepository';
+import { MailboxService } from '../server/services/MailboxService';
+import { DeliveryStatusService } from '../server/services/DeliveryStatusService';
+import { RateLimitService } from '../server/services/RateLimitService';
+import { MetricsService } from '../server/services/MetricsService';
+import { FakeConnection, quietLogger, toHex } from './helpers';
+
+function setup() {
+  const config = loadConfig([], {});
+  const server = generateKeyPair();
+  const clientRepo = new InMemoryClientRepository();
+  const serverRepo = new InMemoryServerPeerRepository();
+  // Рассылка соседям здесь не нужна
+  const peers = { broadcastToPeers: () => 0 } as unknown as ServerPeerService;
+  const mailbox = new MailboxService(config.mailbox, quietLogger);
+  const location = new ClientLocationService(
+    clientRepo,
+    serverRepo,
+    peers,
+    mailbox,
+    new DeliveryStatusService(clientRepo, server.publicKey, quietLogger),
+    new RateLimitService(config.rateLimits, clientRepo, serverRepo, quietLogger),
+    new MetricsService(),
+    server.publicKey,
+    config.routing,
+    quietLogger
+  );
+  return { location, clientRepo, serverRepo, mailbox };
+}
+
+function addPeer(serverRepo: InMemoryServerPeerRepository): FakeConnection {
+  const connection = new FakeConnection();
+  connection.peerType = 'server';
+  serverRepo.add({ publicKey: generateKeyPair().publicKey, address: 'ws://10.0.0.2:8080', connection });
+  return connection;
+}
+
+function presence(keys: Uint8Array[], online: boolean): Frame {
+  const payload = new Uint8Array(4 + keys.length * 32);
+  payload[0] = NODE_INFO_PRESENCE;
+  payload[1] = online ? 1 : 0;
+  payload[2] = keys.length >> 8;
+  payload[3] = keys.length & 0xff;
+  keys.forEach((key, i) => payload.set(key, 4 + i * 32));
+  return { type: MsgType.NODE_INFO, payload, senderId: new Uint8Array(32) };
+}
+
+test('presence from a peer sets a route that only the same peer can withdraw', () => {
+  const { location, serverRepo } = setup();
+  const peer = addPeer(serverRepo);
+  const other = addPeer(serverRepo);
+  const client = generateKeyPair().publicKey;
+
+  location.handlePresence(peer, presence([client], true));
+  assert.equal(location.hasRoute(toHex(client)), true);
+
+  location.handlePresence(other, presence([client], false));
+  assert.equal(location.hasRoute(toHex(client)), true);
+
+  location.handlePresence(peer, presence([client], false));
+  assert.equal(location.hasRoute(toHex(client)), false);
+});
+
+test('presence from a connection that is not an authenticated peer is ignored', () => {
+  const { location, serverRepo } = setup();
+  const client = generateKeyPair().publicKey;
+
+  location.handlePresence(new FakeConnection(), presence([client], true));
+  assert.equal(location.hasRoute(toHex(client)), false);
+
+  // В реестре, но не соседом – например, соединение, не прошедшее проверку ключа
+  const connection = new FakeConnection();
+  serverRepo.add({ publicKey: generateKeyPair().publicKey, address: 'unknown', connection });
+  location.handlePresence(connection, presence([client], true));
+  assert.equal(location.hasRoute(toHex(client)), false);
+});
+
+test('peer cannot claim a client that is connected locally', () => {
+  const { location, clientRepo, serverRepo } = setup();
+  const peer = addPeer(serverRepo);
+  const local = generateKeyPair().publicKey;
+  const remote = generateKeyPair().publicKey;
+  clientRepo.add({ publicKey: local, connection: new FakeConnection(), authenticatedAt: new Date() });
+
+  location.handlePresence(peer, presence([local, remote], true));
+  assert.equal(location.hasRoute(toHex(local)), false);
+  assert.equal(location.hasRoute(toHex(remote)), true);
+});
+
+function dataFrame(target: Uint8Array, msgId: Uint8Array): Frame {
+  const payload = new Uint8Array(32 + 1);
+  payload.set(target, 0);
+  return { type: MsgType.SIGNED_DATA, payload, senderId: generateKeyPair().publicKey, msgId };
+}
+
+test('frame without msgId goes at most one hop, then waits in the mailbox', async () => {
+  const { location, serverRepo, clientRepo, mailbox } = setup();
+  const from = addPeer(serverRepo);
+  const next = addPeer(serverRepo);
+  const client = generateKeyPair().publicKey;
+  location.handlePresence(next, presence([client], true));
+
+  // От соседа: дальше по (возможно устаревшему) маршруту не уходит
+  await location.forwardToRemoteClient(client, dataFrame(client, new Uint8Array(16)), from);
+  assert.equal(next.sent.length, 0);
+  assert.equal(mailbox.takeAll(toHex(client)).length, 1);
+
+  // От своего клиента – первый хоп, пересылается
+  const sender = new FakeConnection();
+  sender.peerType = 'client';
+  clientRepo.add({ publicKey: generateKeyPair().publicKey, connection: sender, authenticatedAt: new Date() });
+  await location.forwardToRemoteClient(client, dataFrame(client, new Uint8Array(16)), sender);
+  assert.equal(next.sent.length, 1);
+});
+
+test('frame with a msgId seen before is dropped as a loop', async () => {
+  const { location, serverRepo } = setup();
+  const from = addPeer(serverRepo);
+  const next = addPeer(serverRepo);
+  const client = generateKeyPair().publicKey;
+  location.handlePresence(next, presence([client], true));
+  const msgId = crypto.getRandomValues(new Uint8Array(16));
+
+  await location.forwardToRemoteClient(client, dataFrame(client, msgId), from);
+  await location.forwardToRemoteClient(client, dataFrame(client, msgId), from);
+  assert.equal(next.sent.length, 1);
+});
@@ -0,0 +1,77 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ContactBook, MAX_ALIAS_LENGTH } from '../client/sdk/contact-book';
+import { silentLogger } from '../client/sdk/logger';
+import { MemoryStorage } from './helpers';
+
+const ALICE = 'aa'.repeat(32);
+const BOB = 'bb'.repeat(32);
+const fromHex = (hex: string) => Uint8Array.from(Buffer.from(hex, 'hex'));
+
+// Хранилище, запись в которое можно сломать
+class FlakyStorage extends MemoryStorage {
+  failing = false;
+
+  override async setItem(key: string, value: string): Promise<void> {
+    if (this.failing) throw new Error('quota exceeded');
+    await super.setItem(key, value);
+  }
+}
+
+async function book(storage = new FlakyStorage(), contactsOnly = false): Promise<ContactBook> {
+  const contacts = new ContactBook(storage, contactsOnly, silentLogger);
+  await contacts.load();
+  return contacts;
+}
+
+test('contacts survive a reload; empty strings clear optional fields', async () => {
+  const storage = new FlakyStorage();
+  const contacts = await book(storage);
+  await contacts.set(ALICE, { alias: 'Alice', preferredServer: 'ws://relay' });
+  await contacts.update(ALICE, { verified: true, preferredServer: '' });
+
+  const reloaded = (await book(storage)).get(ALICE)!;
+  assert.equal(reloaded.alias, 'Alice');
+  assert.equal(reloaded.verified, true);
+  assert.equal('preferredServer' in reloaded, false);
+  await assert.rejects(contacts.update(BOB, { alias: 'Bob' }), /Unknown contact/);
+  await assert.rejects(contacts.set(BOB, { alias: 'x'.repeat(MAX_ALIAS_LENGTH + 1) }), /Alias must be/);
+});
+
+test('a change that could not be saved is rolled back in memory', async () => {
+  const storage = new FlakyStorage();
+  const contacts = await book(storage);
+  await contacts.set(ALICE, { alias: 'Alice' });
+
+  storage.failing = true;
+  await assert.rejects(contacts.set(BOB, { blocked: true }), /quota exceeded/);
+  assert.equal(contacts.get(BOB), null);
+  assert.equal(contacts.isBlocked(BOB), false);
+
+  await assert.rejects(contacts.update(ALICE, { alias: 'Mallory', blocked: true }), /quota exceeded/);
+  assert.equal(contacts.get(ALICE)!.alias, 'Alice');
+  assert.equal(contacts.isBlocked(ALICE), false);
+
+  await assert.rejects(contacts.remove(ALICE), /quota exceeded/);
+  assert.equal(contacts.get(ALICE)!.alias, 'Alice');
+
+  // В памяти то же, что в хранилище
+  assert.deepEqual((await book(storage)).list(), contacts.list());
+});
+
+test('blocked keys are refused everywhere, contactsOnly refuses strangers only in direct messages', async () => {
+  const contacts = await book(new FlakyStorage(), true);
+  await contacts.set(ALICE);
+  await contacts.set(BOB, { blocked: true });
+  const stranger = fromHex('cc'.repeat(32));
+
+  assert.equal(contacts.accepts(fromHex(ALICE), true), true);
+  assert.equal(contacts.accepts(fromHex(BOB), true), false);
+  assert.equal(contacts.accepts(fromHex(BOB), false), false);
+  assert.equal(contacts.accepts(stranger, true), false);
+  assert.equal(contacts.accepts(stranger, false), true);
+
+  // Удаление снимает блокировку
+  await contacts.remove(BOB);
+  assert.equal(contacts.accepts(fromHex(BOB), false), true);
+});
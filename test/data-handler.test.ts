@@ -0,0 +1,92 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { generateKeyPair, sign } from '@stablelib/ed25519';
+import { Frame, MsgType } from '../shared/protocol';
+import { DataHandler } from '../server/handlers/DataHandler';
+import { ClientLocationService } from '../server/services/ClientLocationService';
+import { InMemoryClientRepository } from '../server/repositories/InMemoryClientRepository';
+import { InMemoryServerPeerRepository } from '../server/repositories/InMemoryServerPeerRepository';
+import { MailboxService } from '../server/services/MailboxService';
+import { DeliveryStatusService } from '../server/services/DeliveryStatusService';
+import { FakeConnection, quietLogger, toHex } from './helpers';
+
+function setup() {
+  const server = generateKeyPair();
+  const clientRepo = new InMemoryClientRepository();
+  const serverRepo = new InMemoryServerPeerRepository();
+  const mailbox = new MailboxService({ maxMessagesPerRecipient: 10, maxBytesPerRecipient: 64 * 1024, maxAgeMs: 60000 }, quietLogger);
+  const forwarded: Frame[] = [];
+  // Поиск по соседям здесь не нужен – запоминаем, что кадр ушёл бы дальше
+  const location = { forwardToRemoteClient: async (_target: Uint8Array, frame: Frame) => { forwarded.push(frame); } } as unknown as ClientLocationService;
+  const handler = new DataHandler(clientRepo, serverRepo, location, new DeliveryStatusService(clientRepo, server.publicKey, quietLogger), mailbox, quietLogger);
+
+  const recipient = generateKeyPair();
+  const recipientConnection = new FakeConnection();
+  clientRepo.add({ publicKey: recipient.publicKey, connection: recipientConnection, authenticatedAt: new Date() });
+  const peerConnection = new FakeConnection();
+  serverRepo.add({ publicKey: generateKeyPair().publicKey, address: 'ws://10.0.0.2:8080', connection: peerConnection });
+  return { handler, clientRepo, mailbox, forwarded, recipient, recipientConnection, peerConnection };
+}
+
+function dataFrame(type: MsgType, target: Uint8Array, sender: Uint8Array, body: Uint8Array): Frame {
+  const payload = new Uint8Array(32 + body.length);
+  payload.set(target, 0);
+  payload.set(body, 32);
+  return { type, payload, senderId: sender, msgId: crypto.getRandomValues(new Uint8Array(16)) };
+}
+
+function signedBody(secretKey: Uint8Array, content: Uint8Array, signWith = secretKey): Uint8Array {
+  const body = new Uint8Array(64 + content.length);
+  body.set(sign(signWith, content), 0);
+  body.set(content, 64);
+  return body;
+}
+
+test('unsigned DATA relayed by a peer is dropped', async () => {
+  const { handler, recipient, recipientConnection, peerConnection } = setup();
+  const claimed = generateKeyPair();
+  await handler.handle(peerConnection, dataFrame(MsgType.DATA, recipient.publicKey, claimed.publicKey, new Uint8Array([1, 2, 3])));
+  assert.equal(recipientConnection.sent.length, 0);
+});
+
+test('SIGNED_DATA relayed by a peer reaches the local client only with a valid signature', async () => {
+  const { handler, recipient, recipientConnection, peerConnection } = setup();
+  const sender = generateKeyPair();
+  const forger = generateKeyPair();
+  const content = new Uint8Array([1, 104, 105]);
+
+  await handler.handle(peerConnection, dataFrame(MsgType.SIGNED_DATA, recipient.publicKey, sender.publicKey, signedBody(sender.secretKey, content, forger.secretKey)));
+  assert.equal(recipientConnection.sent.length, 0);
+
+  await handler.handle(peerConnection, dataFrame(MsgType.SIGNED_DATA, recipient.publicKey, sender.publicKey, signedBody(sender.secretKey, content)));
+  assert.equal(recipientConnection.sent.length, 1);
+});
+
+test('client frames must carry the key the client authenticated with', async () => {
+  const { handler, clientRepo, recipient, recipientConnection } = setup();
+  const sender = generateKeyPair();
+  const senderConnection = new FakeConnection();
+  clientRepo.add({ publicKey: sender.publicKey, connection: senderConnection, authenticatedAt: new Date() });
+
+  await handler.handle(senderConnection, dataFrame(MsgType.DATA, recipient.publicKey, generateKeyPair().publicKey, new Uint8Array([1])));
+  assert.equal(recipientConnection.sent.length, 0);
+
+  await handler.handle(senderConnection, dataFrame(MsgType.DATA, recipient.publicKey, sender.publicKey, new Uint8Array([1])));
+  assert.equal(recipientConnection.sent.length, 1);
+});
+
+test('unsigned DATA for a client that is not local waits in the mailbox instead of going to peers', async () => {
+  const { handler, clientRepo, mailbox, forwarded } = setup();
+  const sender = generateKeyPair();
+  const senderConnection = new FakeConnection();
+  clientRepo.add({ publicKey: sender.publicKey, connection: senderConnection, authenticatedAt: new Date() });
+  const absent = generateKeyPair().publicKey;
+
+  await handler.handle(senderConnection, dataFrame(MsgType.DATA, absent, sender.publicKey, new Uint8Array([1])));
+  assert.equal(forwarded.length, 0);
+  assert.equal(mailbox.takeAll(toHex(absent)).length, 1);
+
+  const content = new Uint8Array([1, 104, 105]);
+  await handler.handle(senderConnection, dataFrame(MsgType.SIGNED_DATA, absent, sender.publicKey, signedBody(sender.secretKey, content)));
+  assert.equal(forwarded.length, 1);
+});
@@ -0,0 +1,191 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { generateKeyPair } from '@stablelib/ed25519';
+import { FileTransferManager, FileTransferLimits } from '../client/sdk/file-transfer';
+import { bytesSource } from '../client/sdk/file-source';
+import { silentLogger } from '../client/sdk/logger';
+import { ContentType, DeliveryStatus, HexString } from '../client/sdk/types';
+
+// Два менеджера, соединённые в памяти; кадры доставляются асинхронно, как по сети
+
+const CHUNK_SIZE = 4;
+const STALL_TIMEOUT = 15000;
+
+interface Sent {
+  contentType: ContentType;
+  content: Uint8Array;
+  msgId: HexString;
+}
+
+function pair(receiverLimits: Partial<FileTransferLimits> = {}) {
+  const senderKey = generateKeyPair().publicKey;
+  const receiverKey = generateKeyPair().publicKey;
+  const link = {
+    online: true,
+    sent: [] as Sent[],
+    // Подмена содержимого по пути к получателю
+    tamper: (content: Uint8Array, _contentType: ContentType) => content,
+  };
+  let nextMsgId = 0;
+
+  const sender: FileTransferManager = new FileTransferManager((_target, content, contentType) => {
+    if (!link.online) throw new Error('Not connected');
+    const msgId = (++nextMsgId).toString(16).padStart(32, '0');
+    link.sent.push({ contentType, content, msgId });
+    const delivered = link.tamper(content, contentType);
+    queueMicrotask(() => receiver.handleContent(senderKey, contentType, delivered));
+    return msgId;
+  }, CHUNK_SIZE, silentLogger);
+
+  const receiver: FileTransferManager = new FileTransferManager((_target, content, contentType) => {
+    queueMicrotask(() => sender.handleContent(receiverKey, contentType, content));
+    return (++nextMsgId).toString(16).padStart(32, '0');
+  }, CHUNK_SIZE, silentLogger, receiverLimits);
+
+  return { sender, receiver, receiverKey, link };
+}
+
+function fileOf(length: number): Uint8Array {
+  return Uint8Array.from({ length }, (_, i) => i % 251);
+}
+
+function once<T extends unknown[]>(manager: FileTransferManager, event: 'received' | 'sent' | 'failed'): Promise<T> {
+  return new Promise(resolve => manager.once(event, (...args: unknown[]) => resolve(args as T)));
+}
+
+function chunkIndices(sent: Sent[]): number[] {
+  return sent
+    .filter(s => s.contentType === ContentType.FILE_CHUNK)
+    .map(s => new DataView(s.content.buffer, s.content.byteOffset).getUint32(16, false));
+}
+
+test('file is split into chunks and reassembled by the receiver', async () => {
+  const { sender, receiver, receiverKey } = pair();
+  const data = fileOf(50);
+  const received = once<[Uint8Array, HexString, string, Uint8Array]>(receiver, 'received');
+  const sent = once(sender, 'sent');
+
+  const id = await sender.sendFile(receiverKey, bytesSource(data), 'notes.bin');
+  const [, transferId, name, bytes] = await received;
+  await sent;
+
+  assert.equal(transferId, id);
+  assert.equal(name, 'notes.bin');
+  assert.deepEqual(bytes, data);
+});
+
+test('after a reconnect the transfer resumes from the first chunk the receiver is missing', async () => {
+  const { sender, receiver, receiverKey, link } = pair();
+  const data = fileOf(100);
+  let resumedAt = 0;
+  receiver.on('progress', (_id, _direction, transferred) => {
+    if (!resumedAt && transferred >= 5 * CHUNK_SIZE) {
+      link.online = false;
+      resumedAt = transferred / CHUNK_SIZE;
+      sender.pauseAll();
+    }
+  });
+  const received = once<[Uint8Array, HexString, string, Uint8Array]>(receiver, 'received');
+
+  await sender.sendFile(receiverKey, bytesSource(data), 'big.bin');
+  await new Promise(resolve => setImmediate(resolve));
+  assert.equal(link.online, false);
+
+  const before = link.sent.length;
+  link.online = true;
+  sender.resumeAll();
+  const [, , , bytes] = await received;
+
+  assert.deepEqual(bytes, data);
+  const resent = chunkIndices(link.sent.slice(before));
+  assert.ok(resent.length > 0);
+  assert.ok(Math.min(...resent) >= resumedAt, `resent chunk ${Math.min(...resent)} before ${resumedAt}`);
+});
+
+test('receiver rejects a file whose hash does not match the manifest', async () => {
+  const { sender, receiver, receiverKey, link } = pair();
+  link.tamper = (content, contentType) => {
+    if (contentType !== ContentType.FILE_CHUNK) return content;
+    const copy = content.slice();
+    copy[copy.length - 1]! ^= 0xff;
+    return copy;
+  };
+  const receiverFailed = once<[HexString, Error]>(receiver, 'failed');
+  const senderFailed = once<[HexString, Error]>(sender, 'failed');
+  let delivered = false;
+  receiver.on('received', () => { delivered = true; });
+
+  await sender.sendFile(receiverKey, bytesSource(fileOf(10)), 'tampered.bin');
+
+  assert.equal((await receiverFailed)[1].message, 'File hash mismatch');
+  assert.equal((await senderFailed)[1].message, 'Receiver rejected the file');
+  assert.equal(delivered, false);
+});
+
+test('receiver rejects a file larger than maxFileSize by its manifest', async () => {
+  const { sender, receiverKey, link } = pair({ maxFileSize: 16 });
+  const failed = once<[HexString, Error]>(sender, 'failed');
+
+  await sender.sendFile(receiverKey, bytesSource(fileOf(17)), 'too-big.bin');
+
+  assert.equal((await failed)[1].message, 'Receiver rejected the file');
+  assert.deepEqual(chunkIndices(link.sent), []);
+});
+
+test('manifest over maxIncoming is ignored', async () => {
+  const { sender, receiverKey, link } = pair({ maxIncoming: 1 });
+  // Первую передачу держим незавершённой: получатель видит только манифест
+  link.tamper = (content, contentType) => contentType === ContentType.FILE_CHUNK ? new Uint8Array(0) : content;
+
+  await sender.sendFile(receiverKey, bytesSource(fileOf(10)), 'first.bin');
+  await new Promise(resolve => setImmediate(resolve));
+  const chunksOfFirst = chunkIndices(link.sent).length;
+  assert.ok(chunksOfFirst > 0);
+
+  await sender.sendFile(receiverKey, bytesSource(fileOf(10)), 'second.bin');
+  await new Promise(resolve => setImmediate(resolve));
+  // На второй манифест ответа нет – его части не отправлялись
+  assert.equal(chunkIndices(link.sent).length, chunksOfFirst);
+});
+
+test('outgoing transfer fails after maxSendRetries unanswered manifests', async (t) => {
+  t.mock.timers.enable({ apis: ['setTimeout'] });
+  let manifests = 0;
+  const sender = new FileTransferManager((_target, _content, contentType) => {
+    if (contentType === ContentType.FILE_MANIFEST) manifests++;
+    return '00'.repeat(16);
+  }, CHUNK_SIZE, silentLogger, { maxSendRetries: 2 });
+  const failures: string[] = [];
+  sender.on('failed', (_id, error) => { failures.push(error.message); });
+
+  await sender.sendFile(generateKeyPair().publicKey, bytesSource(fileOf(10)), 'lost.bin');
+  for (let i = 0; i < 5; i++) t.mock.timers.tick(STALL_TIMEOUT);
+
+  assert.equal(manifests, 3);
+  assert.deepEqual(failures, ['Receiver did not respond']);
+});
+
+test('manifest queued for an offline receiver is not resent, and the deadline fails the transfer', async (t) => {
+  t.mock.timers.enable({ apis: ['setTimeout'] });
+  const manifestIds: HexString[] = [];
+  let nextMsgId = 0;
+  const sender = new FileTransferManager((_target, _content, contentType) => {
+    const msgId = (++nextMsgId).toString(16).padStart(32, '0');
+    if (contentType === ContentType.FILE_MANIFEST) manifestIds.push(msgId);
+    return msgId;
+  }, CHUNK_SIZE, silentLogger, { maxSendRetries: 2, sendTimeoutMs: 10 * STALL_TIMEOUT });
+  const failures: string[] = [];
+  sender.on('failed', (_id, error) => { failures.push(error.message); });
+
+  await sender.sendFile(generateKeyPair().publicKey, bytesSource(fileOf(10)), 'later.bin');
+  sender.handleDeliveryStatus(manifestIds[0]!, DeliveryStatus.QUEUED);
+  for (let i = 0; i < 5; i++) t.mock.timers.tick(STALL_TIMEOUT);
+  sender.pauseAll();
+  sender.resumeAll();
+
+  assert.equal(manifestIds.length, 1);
+  assert.deepEqual(failures, []);
+
+  t.mock.timers.tick(5 * STALL_TIMEOUT);
+  assert.deepEqual(failures, ['File transfer timed out']);
+});
@@ -0,0 +1,120 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import WebSocket from 'ws';
+import { generateKeyPair } from '@stablelib/ed25519';
+import { FRAME_HEADER_LENGTH, Frame, MsgType, decodeFrame, encodeFrame } from '../shared/protocol';
+import { WebSocketConnection } from '../server/websocket/WebSocketConnection';
+import { HandshakeHandler } from '../server/handlers/HandshakeHandler';
+import { InMemoryClientRepository } from '../server/repositories/InMemoryClientRepository';
+import { InMemoryServerPeerRepository } from '../server/repositories/InMemoryServerPeerRepository';
+import { MailboxService } from '../server/services/MailboxService';
+import { DeliveryStatusService } from '../server/services/DeliveryStatusService';
+import { MetricsService } from '../server/services/MetricsService';
+import { FakeConnection, quietLogger } from './helpers';
+
+function frame(payloadBytes: number): Frame {
+  return {
+    type: MsgType.SIGNED_DATA,
+    payload: new Uint8Array(payloadBytes).fill(7),
+    senderId: new Uint8Array(32).fill(1),
+    signature: new Uint8Array(64).fill(2),
+    msgId: new Uint8Array(16).fill(3),
+  };
+}
+
+test('encoded frame decodes back unchanged', () => {
+  const decoded = decodeFrame(encodeFrame(frame(10)));
+  assert.equal(decoded.type, MsgType.SIGNED_DATA);
+  assert.deepEqual(decoded.payload, new Uint8Array(10).fill(7));
+  assert.deepEqual(decoded.senderId, new Uint8Array(32).fill(1));
+  assert.deepEqual(decoded.signature, new Uint8Array(64).fill(2));
+  assert.deepEqual(decoded.msgId, new Uint8Array(16).fill(3));
+});
+
+test('decodeFrame rejects malformed headers', () => {
+  assert.throws(() => decodeFrame(new ArrayBuffer(FRAME_HEADER_LENGTH - 1)), /too short/);
+
+  const badMagic = new Uint8Array(encodeFrame(frame(0)));
+  badMagic[0] = 0;
+  assert.throws(() => decodeFrame(badMagic.buffer), /bad magic/);
+
+  const badVersion = new Uint8Array(encodeFrame(frame(0)));
+  badVersion[1] = 0xee;
+  assert.throws(() => decodeFrame(badVersion.buffer), /unsupported frame version/);
+});
+
+test('length field must match the buffer exactly', () => {
+  const encoded = new Uint8Array(encodeFrame(frame(10)));
+  assert.throws(() => decodeFrame(encoded.slice(0, encoded.length - 1).buffer), /incomplete frame/);
+
+  const trailing = new Uint8Array(encoded.length + 1);
+  trailing.set(encoded);
+  assert.throws(() => decodeFrame(trailing.buffer), /trailing data/);
+});
+
+test('decodeFrame enforces maxLength for the whole frame, including a lying length field', () => {
+  const encoded = encodeFrame(frame(10));
+  assert.doesNotThrow(() => decodeFrame(encoded, FRAME_HEADER_LENGTH + 10));
+  assert.throws(() => decodeFrame(encoded, FRAME_HEADER_LENGTH + 9), /too large/);
+
+  // Заголовок обещает 4 ГБ – отказ по полю длины, не дожидаясь данных
+  const lying = new Uint8Array(encodeFrame(frame(0)));
+  new DataView(lying.buffer).setUint32(4, 0xffffffff, false);
+  assert.throws(() => decodeFrame(lying.buffer, 1024), /too large/);
+});
+
+// Сокет, у которого отправленные данные копятся в буфере
+function slowSocket() {
+  const socket = {
+    readyState: WebSocket.OPEN,
+    bufferedAmount: 0,
+    sent: 0,
+    on() {},
+    send(data: ArrayBuffer) {
+      socket.bufferedAmount += data.byteLength;
+      socket.sent++;
+    },
+  };
+  return socket;
+}
+
+test('frame that would overflow the send buffer is refused instead of queued', () => {
+  const socket = slowSocket();
+  const frameBytes = FRAME_HEADER_LENGTH + 100;
+  const connection = new WebSocketConnection(socket as unknown as WebSocket, quietLogger, 3 * frameBytes);
+
+  assert.equal(connection.send(frame(100)), true);
+  assert.equal(connection.send(frame(100)), true);
+  assert.equal(connection.send(frame(100)), true);
+  assert.equal(connection.send(frame(100)), false);
+  assert.equal(socket.sent, 3);
+
+  // Буфер освободился – отправка снова проходит
+  socket.bufferedAmount = 0;
+  assert.equal(connection.send(frame(100)), true);
+});
+
+test('connection that does not authenticate in time is closed', (t) => {
+  t.mock.timers.enable({ apis: ['setTimeout'] });
+  const server = generateKeyPair();
+  const clientRepo = new InMemoryClientRepository();
+  const handler = new HandshakeHandler(
+    clientRepo,
+    new InMemoryServerPeerRepository(),
+    server.secretKey,
+    server.publicKey,
+    new MailboxService({ maxMessagesPerRecipient: 10, maxBytesPerRecipient: 1024, maxAgeMs: 60000 }, quietLogger),
+    new DeliveryStatusService(clientRepo, server.publicKey, quietLogger),
+    5000,
+    new Set(),
+    new MetricsService(),
+    quietLogger
+  );
+  const connection = new FakeConnection();
+  handler.buildChallenge(connection);
+
+  t.mock.timers.tick(4999);
+  assert.equal(connection.isOpen, true);
+  t.mock.timers.tick(1);
+  assert.equal(connection.isOpen, false);
+});
@@ -0,0 +1,134 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { generateKeyPair, sign } from '@stablelib/ed25519';
+import {
+  Frame,
+  GroupRoster,
+  MsgType,
+  NODE_INFO_GROUP_ROSTER,
+  deriveGroupId,
+  encodeGroupRoster,
+  groupRosterSignedData,
+} from '../shared/protocol';
+import { GroupsConfig } from '../server/config';
+import { GroupService } from '../server/services/GroupService';
+import { ServerPeerService } from '../server/services/ServerPeerService';
+import { FakeConnection, quietLogger, toHex } from './helpers';
+
+const CONFIG: GroupsConfig = { maxGroups: 10, maxMembers: 5, maxGroupsPerClient: 2, idleTtlMs: 60000 };
+
+function setup(config: GroupsConfig = CONFIG) {
+  const relayed: Frame[] = [];
+  // Соседей нет – запоминаем, что ушло бы им
+  const peers = { broadcastToPeers: (frame: Frame) => { relayed.push(frame); return 0; } } as unknown as ServerPeerService;
+  return { groups: new GroupService(peers, new Uint8Array(32), config, quietLogger), relayed };
+}
+
+function roster(admin = generateKeyPair(), version = 1, extraMembers = 1, salt = crypto.getRandomValues(new Uint8Array(16))) {
+  const members = [admin.publicKey, ...Array.from({ length: extraMembers }, () => generateKeyPair().publicKey)];
+  const body = { groupId: deriveGroupId(admin.publicKey, salt), admin: admin.publicKey, salt, version, members };
+  const signed: GroupRoster = { ...body, signature: sign(admin.secretKey, groupRosterSignedData(body)) };
+  return { admin, salt, roster: signed, groupHex: toHex(signed.groupId) };
+}
+
+function rosterFrame(value: GroupRoster): Frame {
+  const encoded = encodeGroupRoster(value);
+  const payload = new Uint8Array(1 + encoded.length);
+  payload[0] = NODE_INFO_GROUP_ROSTER;
+  payload.set(encoded, 1);
+  return { type: MsgType.NODE_INFO, payload, senderId: new Uint8Array(32) };
+}
+
+test('roster signed by the admin is stored and relayed to peers', () => {
+  const { groups, relayed } = setup();
+  const { roster: value, groupHex } = roster();
+  groups.handleRoster(new FakeConnection(), rosterFrame(value), 'aa'.repeat(32));
+
+  assert.deepEqual([...groups.getMembers(groupHex)!], value.members.map(toHex));
+  assert.equal(relayed.length, 1);
+});
+
+test('roster with a forged signature, a foreign groupId or an admin outside the members is rejected', () => {
+  const { groups } = setup();
+  const connection = new FakeConnection();
+
+  const forged = roster();
+  forged.roster.signature = sign(generateKeyPair().secretKey, groupRosterSignedData(forged.roster));
+  groups.handleRoster(connection, rosterFrame(forged.roster));
+  assert.equal(groups.getMembers(forged.groupHex), undefined);
+
+  // Подписано правильно, но groupId выведен не из ключа администратора
+  const admin = generateKeyPair();
+  const stolen = roster().roster;
+  const body = { ...stolen, admin: admin.publicKey, members: [admin.publicKey] };
+  groups.handleRoster(connection, rosterFrame({ ...body, signature: sign(admin.secretKey, groupRosterSignedData(body)) }));
+  assert.equal(groups.getMembers(toHex(stolen.groupId)), undefined);
+
+  const outsider = generateKeyPair();
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const noAdmin = { groupId: deriveGroupId(outsider.publicKey, salt), admin: outsider.publicKey, salt, version: 1, members: [generateKeyPair().publicKey] };
+  groups.handleRoster(connection, rosterFrame({ ...noAdmin, signature: sign(outsider.secretKey, groupRosterSignedData(noAdmin)) }));
+  assert.equal(groups.size, 0);
+});
+
+test('only a newer version replaces the roster', () => {
+  const { groups } = setup();
+  const admin = generateKeyPair();
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const v2 = roster(admin, 2, 2, salt);
+  const v1 = roster(admin, 1, 1, salt);
+  const v3 = roster(admin, 3, 0, salt);
+  const connection = new FakeConnection();
+
+  groups.handleRoster(connection, rosterFrame(v2.roster));
+  groups.handleRoster(connection, rosterFrame(v1.roster));
+  assert.equal(groups.getMembers(v2.groupHex)!.size, 3);
+
+  groups.handleRoster(connection, rosterFrame(v3.roster));
+  assert.deepEqual([...groups.getMembers(v2.groupHex)!], [toHex(admin.publicKey)]);
+});
+
+test('roster over maxMembers is rejected', () => {
+  const { groups } = setup();
+  const big = roster(generateKeyPair(), 1, CONFIG.maxMembers);
+  groups.handleRoster(new FakeConnection(), rosterFrame(big.roster));
+  assert.equal(groups.getMembers(big.groupHex), undefined);
+});
+
+test('a local client adds at most maxGroupsPerClient groups, peers and other clients are not affected', () => {
+  const { groups } = setup();
+  const connection = new FakeConnection();
+  const client = 'aa'.repeat(32);
+
+  const added = [roster(), roster(), roster()];
+  added.forEach(({ roster: value }) => groups.handleRoster(connection, rosterFrame(value), client));
+  assert.deepEqual(added.map(({ groupHex }) => groups.getMembers(groupHex) !== undefined), [true, true, false]);
+
+  const byOther = roster();
+  groups.handleRoster(connection, rosterFrame(byOther.roster), 'bb'.repeat(32));
+  const fromPeer = roster();
+  groups.handleRoster(connection, rosterFrame(fromPeer.roster));
+  assert.equal(groups.size, 4);
+});
+
+test('idle groups are forgotten and give the client its quota back', (t) => {
+  t.mock.timers.enable({ apis: ['Date'], now: 0 });
+  const { groups } = setup();
+  const connection = new FakeConnection();
+  const client = 'aa'.repeat(32);
+  const first = roster();
+  const second = roster();
+  groups.handleRoster(connection, rosterFrame(first.roster), client);
+  groups.handleRoster(connection, rosterFrame(second.roster), client);
+
+  // Сообщения через первую группу продлевают ей жизнь
+  t.mock.timers.tick(40000);
+  groups.touch(first.groupHex);
+  t.mock.timers.tick(40000);
+  assert.notEqual(groups.getMembers(first.groupHex), undefined);
+  assert.equal(groups.getMembers(second.groupHex), undefined);
+
+  const third = roster();
+  groups.handleRoster(connection, rosterFrame(third.roster), client);
+  assert.notEqual(groups.getMembers(third.groupHex), undefined);
+});
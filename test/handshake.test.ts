@@ -0,0 +1,102 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { generateKeyPair, sign } from '@stablelib/ed25519';
+import { randomBytes } from 'crypto';
+import {
+  Frame,
+  HANDSHAKE_CHALLENGE_LENGTH,
+  HANDSHAKE_REJECT,
+  HandshakeRejectCode,
+  MsgType,
+  PROTOCOL_VERSION_MAX,
+  PROTOCOL_VERSION_MIN,
+  encodeHello,
+} from '../shared/protocol';
+import { HandshakeHandler } from '../server/handlers/HandshakeHandler';
+import { InMemoryClientRepository } from '../server/repositories/InMemoryClientRepository';
+import { InMemoryServerPeerRepository } from '../server/repositories/InMemoryServerPeerRepository';
+import { MailboxService } from '../server/services/MailboxService';
+import { DeliveryStatusService } from '../server/services/DeliveryStatusService';
+import { MetricsService } from '../server/services/MetricsService';
+import { FakeConnection, quietLogger, toHex } from './helpers';
+
+const HELLO = encodeHello({ minVersion: PROTOCOL_VERSION_MIN, maxVersion: PROTOCOL_VERSION_MAX, capabilities: 0 });
+
+function setup(allowedKeys: string[] = []) {
+  const server = generateKeyPair();
+  const clientRepo = new InMemoryClientRepository();
+  const serverRepo = new InMemoryServerPeerRepository();
+  const handler = new HandshakeHandler(
+    clientRepo,
+    serverRepo,
+    server.secretKey,
+    server.publicKey,
+    new MailboxService({ maxMessagesPerRecipient: 10, maxBytesPerRecipient: 1024, maxAgeMs: 60000 }, quietLogger),
+    new DeliveryStatusService(clientRepo, server.publicKey, quietLogger),
+    0,
+    new Set(allowedKeys),
+    new MetricsService(),
+    quietLogger
+  );
+  return { handler, clientRepo, serverRepo };
+}
+
+// Входящее соединение: ретранслятор присылает свой challenge, затем подписывает наш
+async function connectInbound(handler: HandshakeHandler, key = generateKeyPair(), asPeer = true) {
+  const connection = new FakeConnection();
+  const challenge = handler.buildChallenge(connection).payload.slice(0, HANDSHAKE_CHALLENGE_LENGTH);
+  if (asPeer) {
+    const own = new Uint8Array(HANDSHAKE_CHALLENGE_LENGTH + HELLO.length);
+    own.set(randomBytes(HANDSHAKE_CHALLENGE_LENGTH), 0);
+    own.set(HELLO, HANDSHAKE_CHALLENGE_LENGTH);
+    await handler.handle(connection, { type: MsgType.HANDSHAKE, payload: own, senderId: new Uint8Array(32) });
+  }
+  const response = new Uint8Array(HANDSHAKE_CHALLENGE_LENGTH + HELLO.length);
+  response.set(challenge, 0);
+  response.set(HELLO, HANDSHAKE_CHALLENGE_LENGTH);
+  const frame: Frame = { type: MsgType.HANDSHAKE, payload: response, senderId: key.publicKey, signature: sign(key.secretKey, response) };
+  await handler.handle(connection, frame);
+  return { connection, keyHex: toHex(key.publicKey) };
+}
+
+test('inbound relay with an unknown key is rejected instead of becoming a peer', async () => {
+  const { handler, clientRepo, serverRepo } = setup();
+  const { connection, keyHex } = await connectInbound(handler);
+
+  assert.equal(connection.isOpen, false);
+  assert.equal(serverRepo.get(keyHex), undefined);
+  assert.equal(clientRepo.get(keyHex), undefined);
+  const reject = connection.sent.at(-1)!.payload;
+  assert.equal(reject[0], HANDSHAKE_REJECT);
+  assert.equal(reject[1], HandshakeRejectCode.UNKNOWN_PEER);
+});
+
+test('inbound relay listed in peers.allowedKeys becomes a peer', async () => {
+  const key = generateKeyPair();
+  const { handler, serverRepo } = setup([toHex(key.publicKey)]);
+  const { connection, keyHex } = await connectInbound(handler, key);
+
+  assert.equal(connection.isOpen, true);
+  assert.equal(connection.peerType, 'server');
+  assert.equal(serverRepo.get(keyHex)?.connection, connection);
+});
+
+test('inbound relay we have dialed before is accepted, one without an address is not', async () => {
+  const known = generateKeyPair();
+  const inboundOnly = generateKeyPair();
+  const { handler, serverRepo } = setup();
+  serverRepo.add({ publicKey: known.publicKey, address: 'ws://10.0.0.2:8080' });
+  serverRepo.add({ publicKey: inboundOnly.publicKey, address: 'unknown' });
+
+  assert.equal((await connectInbound(handler, known)).connection.peerType, 'server');
+  assert.equal((await connectInbound(handler, inboundOnly)).connection.isOpen, false);
+});
+
+test('connection without a peer challenge is a client', async () => {
+  const { handler, clientRepo, serverRepo } = setup();
+  const { connection, keyHex } = await connectInbound(handler, generateKeyPair(), false);
+
+  assert.equal(connection.peerType, 'client');
+  assert.ok(clientRepo.get(keyHex));
+  assert.equal(serverRepo.get(keyHex), undefined);
+});
@@ -0,0 +1,58 @@
+import { Frame } from '../shared/protocol';
+import { IConnection, ILogger } from '../server/core/types';
+import { IStorage } from '../client/sdk/storage';
+
+// Общее для тестов: логгер без вывода, соединение, которое запоминает отправленные кадры,
+// и хранилище клиента в памяти
+
+export const quietLogger: ILogger = {
+  info() {}, warn() {}, error() {}, debug() {},
+  child() { return quietLogger; },
+};
+
+let nextConnectionId = 0;
+
+export class FakeConnection implements IConnection {
+  readonly id = `fake-${++nextConnectionId}`;
+  sent: Frame[] = [];
+  isOpen = true;
+  accepts = true; // false – как при переполненном буфере отправки
+  peerType?: 'client' | 'server';
+  address?: string;
+  protocolVersion?: number;
+  capabilities?: number;
+
+  send(frame: Frame): boolean {
+    if (!this.isOpen || !this.accepts) return false;
+    this.sent.push(frame);
+    return true;
+  }
+
+  close(): void {
+    this.isOpen = false;
+  }
+}
+
+export class MemoryStorage implements IStorage {
+  items = new Map<string, string>();
+
+  async getItem(key: string): Promise<string | null> {
+    return this.items.get(key) ?? null;
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    this.items.set(key, value);
+  }
+
+  async removeItem(key: string): Promise<void> {
+    this.items.delete(key);
+  }
+}
+
+export function toHex(bytes: Uint8Array): string {
+  return Buffer.from(bytes).toString('hex');
+}
+
+export function delay(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
@@ -0,0 +1,64 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Ed25519KeyManager } from '../client/sdk/key-manager';
+import { MemoryStorage } from './helpers';
+
+async function keyManager(storage = new MemoryStorage()): Promise<Ed25519KeyManager> {
+  const keys = new Ed25519KeyManager(storage);
+  await keys.load();
+  return keys;
+}
+
+const text = (s: string) => new TextEncoder().encode(s);
+
+test('both sides derive the same key: what one seals, the other opens', async () => {
+  const alice = await keyManager();
+  const bob = await keyManager();
+
+  const sealed = alice.encrypt(bob.getPublicKey(), text('hi bob'));
+  assert.deepEqual(bob.decrypt(alice.getPublicKey(), sealed), text('hi bob'));
+
+  const reply = bob.encrypt(alice.getPublicKey(), text('hi alice'));
+  assert.deepEqual(alice.decrypt(bob.getPublicKey(), reply), text('hi alice'));
+});
+
+test('each message gets a fresh nonce', async () => {
+  const alice = await keyManager();
+  const bob = await keyManager();
+  const first = alice.encrypt(bob.getPublicKey(), text('same'));
+  const second = alice.encrypt(bob.getPublicKey(), text('same'));
+  assert.notDeepEqual(first, second);
+});
+
+test('a third party, a tampered ciphertext or other associated data cannot open the message', async () => {
+  const alice = await keyManager();
+  const bob = await keyManager();
+  const eve = await keyManager();
+  const header = text('header');
+  const sealed = alice.encrypt(bob.getPublicKey(), text('secret'), header);
+
+  assert.equal(eve.decrypt(alice.getPublicKey(), sealed, header), null);
+
+  const tampered = sealed.slice();
+  tampered[tampered.length - 1]! ^= 1;
+  assert.equal(bob.decrypt(alice.getPublicKey(), tampered, header), null);
+
+  assert.equal(bob.decrypt(alice.getPublicKey(), sealed, text('other')), null);
+  assert.equal(bob.decrypt(alice.getPublicKey(), sealed.slice(0, 5), header), null);
+  assert.deepEqual(bob.decrypt(alice.getPublicKey(), sealed, header), text('secret'));
+});
+
+test('keys survive a reload, and a new identity drops cached shared keys', async () => {
+  const storage = new MemoryStorage();
+  const alice = await keyManager(storage);
+  const bob = await keyManager();
+  const sealed = bob.encrypt(alice.getPublicKey(), text('stored'));
+
+  const reloaded = await keyManager(storage);
+  assert.equal(reloaded.getPublicKeyHex(), alice.getPublicKeyHex());
+  assert.deepEqual(reloaded.decrypt(bob.getPublicKey(), sealed), text('stored'));
+
+  await reloaded.generate();
+  assert.notEqual(reloaded.getPublicKeyHex(), alice.getPublicKeyHex());
+  assert.equal(reloaded.decrypt(bob.getPublicKey(), sealed), null);
+});
@@ -0,0 +1,58 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Frame, MsgType } from '../shared/protocol';
+import { MailboxService } from '../server/services/MailboxService';
+import { quietLogger } from './helpers';
+
+const RECIPIENT = 'ab'.repeat(32);
+const OTHER = 'cd'.repeat(32);
+
+function frame(size: number, marker = 0): Frame {
+  const payload = new Uint8Array(size);
+  payload[0] = marker;
+  return { type: MsgType.SIGNED_DATA, payload, senderId: new Uint8Array(32) };
+}
+
+test('mailbox refuses frames beyond the per-recipient count', () => {
+  const mailbox = new MailboxService({ maxMessagesPerRecipient: 2, maxBytesPerRecipient: 1000, maxAgeMs: 60000 }, quietLogger);
+  assert.equal(mailbox.enqueue(RECIPIENT, frame(10, 1)), true);
+  assert.equal(mailbox.enqueue(RECIPIENT, frame(10, 2)), true);
+  assert.equal(mailbox.enqueue(RECIPIENT, frame(10, 3)), false);
+  // Ящики получателей независимы
+  assert.equal(mailbox.enqueue(OTHER, frame(10)), true);
+
+  assert.deepEqual(mailbox.takeAll(RECIPIENT).map(f => f.payload[0]), [1, 2]);
+  assert.equal(mailbox.totalFrames, 1);
+});
+
+test('mailbox refuses frames beyond the per-recipient byte limit', () => {
+  const mailbox = new MailboxService({ maxMessagesPerRecipient: 10, maxBytesPerRecipient: 100, maxAgeMs: 60000 }, quietLogger);
+  assert.equal(mailbox.enqueue(RECIPIENT, frame(101)), false);
+  assert.equal(mailbox.enqueue(RECIPIENT, frame(60)), true);
+  assert.equal(mailbox.enqueue(RECIPIENT, frame(41)), false);
+  assert.equal(mailbox.enqueue(RECIPIENT, frame(40)), true);
+});
+
+test('expired frames are dropped and free their space', (t) => {
+  t.mock.timers.enable({ apis: ['Date'], now: 0 });
+  const mailbox = new MailboxService({ maxMessagesPerRecipient: 1, maxBytesPerRecipient: 1000, maxAgeMs: 60000 }, quietLogger);
+  assert.equal(mailbox.enqueue(RECIPIENT, frame(10, 1)), true);
+  assert.equal(mailbox.enqueue(RECIPIENT, frame(10, 2)), false);
+
+  t.mock.timers.tick(60001);
+  assert.equal(mailbox.enqueue(RECIPIENT, frame(10, 3)), true);
+  assert.deepEqual(mailbox.takeAll(RECIPIENT).map(f => f.payload[0]), [3]);
+
+  mailbox.enqueue(RECIPIENT, frame(10, 4));
+  t.mock.timers.tick(60001);
+  assert.deepEqual(mailbox.takeAll(RECIPIENT), []);
+  assert.equal(mailbox.totalFrames, 0);
+});
+
+test('queued frame is a copy: later changes to the original do not leak in', () => {
+  const mailbox = new MailboxService({ maxMessagesPerRecipient: 10, maxBytesPerRecipient: 1000, maxAgeMs: 60000 }, quietLogger);
+  const original = frame(10, 7);
+  mailbox.enqueue(RECIPIENT, original);
+  original.payload[0] = 9;
+  assert.equal(mailbox.takeAll(RECIPIENT)[0]!.payload[0], 7);
+});
@@ -0,0 +1,149 @@
+import 'fake-indexeddb/auto';
+import { test, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { IMessageStore, IndexedDBMessageStore, NewHistoryMessage } from '../client/sdk/message-store';
+import { FileMessageStore } from '../client/sdk/node';
+import { ContentType, DeliveryStatus } from '../client/sdk/types';
+
+// Оба хранилища проходят одни и те же проверки; IndexedDB – в реализации fake-indexeddb
+
+const ALICE = 'aa'.repeat(32);
+const BOB = 'bb'.repeat(32);
+
+const dir = mkdtempSync(join(tmpdir(), 'exvia-history-'));
+let nextStore = 0;
+
+after(() => rmSync(dir, { recursive: true, force: true }));
+
+function message(conversation: string, id: string, text: string, extra: Partial<NewHistoryMessage> = {}): NewHistoryMessage {
+  return {
+    id,
+    conversation,
+    group: false,
+    direction: 'in',
+    from: conversation,
+    contentType: ContentType.TEXT,
+    text,
+    timestamp: Date.now(),
+    read: false,
+    ...extra,
+  };
+}
+
+const stores: [string, () => IMessageStore][] = [
+  ['FileMessageStore', () => new FileMessageStore(join(dir, `history-${++nextStore}.json`))],
+  ['IndexedDBMessageStore', () => new IndexedDBMessageStore(`history-${++nextStore}`)],
+];
+
+for (const [kind, createStore] of stores) {
+  test(`${kind}: pages go from the newest back, oldest first within a page`, async () => {
+    const store = createStore();
+    for (let i = 1; i <= 5; i++) {
+      await store.add(message(ALICE, `a${i}`, `alice ${i}`));
+      await store.add(message(BOB, `b${i}`, `bob ${i}`));
+    }
+
+    const last = await store.getMessages(ALICE, { limit: 2 });
+    assert.deepEqual(last.map(m => m.text), ['alice 4', 'alice 5']);
+    const previous = await store.getMessages(ALICE, { limit: 2, before: last[0]!.seq });
+    assert.deepEqual(previous.map(m => m.text), ['alice 2', 'alice 3']);
+    const first = await store.getMessages(ALICE, { limit: 2, before: previous[0]!.seq });
+    assert.deepEqual(first.map(m => m.text), ['alice 1']);
+  });
+
+  test(`${kind}: the same id is a duplicate only within one conversation`, async () => {
+    const store = createStore();
+    assert.notEqual(await store.add(message(ALICE, '01', 'first')), null);
+    assert.equal(await store.add(message(ALICE, '01', 'again')), null);
+    // msgId выбирает отправитель – у другого собеседника он может совпасть
+    assert.notEqual(await store.add(message(BOB, '01', 'other')), null);
+
+    assert.deepEqual((await store.getMessages(ALICE)).map(m => m.text), ['first']);
+    assert.deepEqual((await store.getMessages(BOB)).map(m => m.text), ['other']);
+  });
+
+  test(`${kind}: receipts only improve the status of outgoing messages`, async () => {
+    const store = createStore();
+    await store.add(message(ALICE, '02', 'sent', { direction: 'out', read: true }));
+    await store.add(message(BOB, '02', 'received'));
+
+    await store.setStatus('02', DeliveryStatus.DELIVERED);
+    await store.setStatus('02', DeliveryStatus.QUEUED);
+    assert.equal((await store.getMessages(ALICE))[0]!.status, DeliveryStatus.DELIVERED);
+    assert.equal((await store.getMessages(BOB))[0]!.status, undefined);
+  });
+
+  test(`${kind}: unread counts, conversations, search and deletion`, async () => {
+    const store = createStore();
+    await store.add(message(ALICE, '01', 'Hello there'));
+    await store.add(message(BOB, '01', 'hello from bob'));
+    await store.add(message(ALICE, '02', 'bye'));
+
+    assert.equal(await store.getUnreadCount(), 3);
+    await store.markRead(ALICE);
+    assert.equal(await store.getUnreadCount(ALICE), 0);
+    assert.equal(await store.getUnreadCount(), 1);
+
+    const conversations = await store.getConversations();
+    assert.deepEqual(conversations.map(c => [c.conversation, c.last.text, c.unread]), [[ALICE, 'bye', 0], [BOB, 'hello from bob', 1]]);
+
+    assert.deepEqual((await store.search('HELLO')).map(m => m.conversation), [BOB, ALICE]);
+    assert.deepEqual((await store.search('hello', { conversation: ALICE })).map(m => m.text), ['Hello there']);
+
+    await store.deleteMessage(BOB, '01');
+    assert.deepEqual(await store.getMessages(BOB), []);
+    assert.equal((await store.getMessages(ALICE)).length, 2);
+    await store.deleteConversation(ALICE);
+    assert.deepEqual(await store.getConversations(), []);
+  });
+}
+
+test('FileMessageStore keeps history across restarts', async () => {
+  const path = join(dir, 'persistent.json');
+  const first = new FileMessageStore(path);
+  await first.add(message(ALICE, '01', 'kept'));
+
+  const second = new FileMessageStore(path);
+  assert.deepEqual((await second.getMessages(ALICE)).map(m => m.text), ['kept']);
+  assert.equal(await second.add(message(ALICE, '01', 'kept')), null);
+});
+
+// База версии 1: индекс id уникален во всей истории
+function createVersion1(name: string, records: NewHistoryMessage[]): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(name, 1);
+    request.onerror = () => reject(request.error);
+    request.onupgradeneeded = () => {
+      const store = request.result.createObjectStore('messages', { keyPath: 'seq', autoIncrement: true });
+      store.createIndex('conversation', 'conversation');
+      store.createIndex('conversationSeq', ['conversation', 'seq']);
+      store.createIndex('unread', 'unreadIn');
+      store.createIndex('id', 'id', { unique: true });
+      for (const record of records) {
+        store.add(record.read ? record : { ...record, unreadIn: record.conversation });
+      }
+    };
+    request.onsuccess = () => {
+      request.result.close();
+      resolve();
+    };
+  });
+}
+
+test('IndexedDBMessageStore migrates a version 1 database without losing messages', async () => {
+  const name = `history-v1-${++nextStore}`;
+  await createVersion1(name, [message(ALICE, '01', 'old alice'), message(BOB, '02', 'old bob')]);
+
+  const store = new IndexedDBMessageStore(name);
+  assert.deepEqual((await store.getMessages(ALICE)).map(m => m.text), ['old alice']);
+  assert.equal(await store.getUnreadCount(), 2);
+
+  // В версии 1 этот id вытеснил бы сообщение Алисы
+  assert.notEqual(await store.add(message(BOB, '01', 'new bob')), null);
+  assert.equal(await store.add(message(ALICE, '01', 'old alice')), null);
+  assert.deepEqual((await store.getMessages(BOB)).map(m => m.text), ['old bob', 'new bob']);
+  assert.deepEqual((await store.getMessages(ALICE)).map(m => m.text), ['old alice']);
+});
@@ -0,0 +1,124 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { RelayServer } from '../server/RelayServer';
+import { Config, loadConfig } from '../server/config';
+import { loadOrCreateServerKey } from '../server/identity';
+import { NodeClient, FileStorage, ContentType, silentLogger } from '../client/sdk/node';
+import { PublicKey, HexString } from '../client/sdk/types';
+import { quietLogger as quiet } from './helpers';
+
+// Два ретранслятора, соединённые друг с другом; отправитель на одном, получатель на другом.
+// Кадр уходит соседу без изменений – получатель должен увидеть TEXT, а не RAW
+
+const PORT_A = 19101;
+const PORT_B = 19102;
+const MONITORING_A = 19191;
+const MONITORING_B = 19192;
+
+let dir: string;
+const relays: RelayServer[] = [];
+const clients: NodeClient[] = [];
+
+// B подключается к A, поэтому A должен заранее знать ключ B
+function relayConfig(name: string, port: number, monitoringPort: number, seedPeers: string[], allowedKeys: string[] = []): Config {
+  const defaults = loadConfig([], {});
+  return {
+    ...defaults,
+    port,
+    host: '127.0.0.1',
+    publicAddress: `ws://127.0.0.1:${port}`,
+    keyFile: join(dir, `${name}-key.json`),
+    seedPeers,
+    peers: { file: null, maxFailures: defaults.peers.maxFailures, allowedKeys },
+    heartbeatIntervalMs: 0,
+    monitoring: { enabled: true, port: monitoringPort, host: '127.0.0.1' },
+  };
+}
+
+async function waitFor(what: string, check: () => Promise<boolean>, timeoutMs = 5000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!(await check())) {
+    if (Date.now() > deadline) throw new Error(`Timed out waiting for ${what}`);
+    await new Promise(resolve => setTimeout(resolve, 50));
+  }
+}
+
+async function connectedPeers(monitoringPort: number): Promise<number> {
+  try {
+    const metrics = await (await fetch(`http://127.0.0.1:${monitoringPort}/metrics`)).text();
+    const match = metrics.match(/^exvia_connected_peers (\d+)$/m);
+    return match ? Number(match[1]) : 0;
+  } catch {
+    return 0;
+  }
+}
+
+async function startClient(name: string, port: number, encryption: boolean): Promise<NodeClient> {
+  const client = new NodeClient(new FileStorage(join(dir, `${name}.json`)), { logger: silentLogger, encryption });
+  clients.push(client);
+  await client.init();
+  await client.connect(`ws://127.0.0.1:${port}`);
+  return client;
+}
+
+interface Received {
+  from: HexString;
+  contentType: ContentType | undefined;
+  parsed: any;
+  msgId: HexString | undefined;
+}
+
+function nextMessage(client: NodeClient, timeoutMs = 5000): Promise<Received> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => {
+      client.off('message', onMessage);
+      reject(new Error('No message received'));
+    }, timeoutMs);
+    const onMessage = (from: PublicKey, _content: Uint8Array, contentType?: ContentType, parsed?: any, msgId?: HexString) => {
+      clearTimeout(timer);
+      client.off('message', onMessage);
+      resolve({ from: Buffer.from(from).toString('hex'), contentType, parsed, msgId });
+    };
+    client.on('message', onMessage);
+  });
+}
+
+before(async () => {
+  dir = mkdtempSync(join(tmpdir(), 'exvia-multi-relay-'));
+  const keyB = loadOrCreateServerKey(join(dir, 'b-key.json'), quiet).publicKey;
+  const relayA = new RelayServer(relayConfig('a', PORT_A, MONITORING_A, [], [Buffer.from(keyB).toString('hex')]), quiet);
+  relays.push(relayA);
+  await relayA.start();
+  const relayB = new RelayServer(relayConfig('b', PORT_B, MONITORING_B, [`ws://127.0.0.1:${PORT_A}`]), quiet);
+  relays.push(relayB);
+  await relayB.start();
+  await waitFor('relays to peer', async () =>
+    (await connectedPeers(MONITORING_A)) === 1 && (await connectedPeers(MONITORING_B)) === 1);
+});
+
+after(async () => {
+  clients.forEach(client => client.disconnect());
+  for (const relay of relays) await relay.stop();
+  rmSync(dir, { recursive: true, force: true });
+});
+
+for (const encryption of [false, true]) {
+  const kind = encryption ? 'encrypted' : 'signed';
+
+  test(`${kind} sendText reaches a client on a peer relay as TEXT`, async () => {
+    const receiver = await startClient(`receiver-${kind}`, PORT_B, encryption);
+    const sender = await startClient(`sender-${kind}`, PORT_A, encryption);
+
+    const received = nextMessage(receiver);
+    const msgId = sender.sendText(receiver.getPublicKeyHex(), `hello over two relays (${kind})`);
+    const message = await received;
+
+    assert.equal(message.contentType, ContentType.TEXT);
+    assert.equal(message.parsed, `hello over two relays (${kind})`);
+    assert.equal(message.from, sender.getPublicKeyHex());
+    assert.equal(message.msgId, msgId);
+  });
+}
@@ -0,0 +1,123 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { generateKeyPair } from '@stablelib/ed25519';
+import { Frame, MsgType, decodeTopic } from '../shared/protocol';
+import { PubSubConfig } from '../server/config';
+import { PubSubService } from '../server/services/PubSubService';
+import { ServerPeerService } from '../server/services/ServerPeerService';
+import { FakeConnection, quietLogger } from './helpers';
+
+const CONFIG: PubSubConfig = { maxSubscriptionsPerClient: 2, maxTopics: 2, interestTtlMs: 30000 };
+const CLIENT = 'aa'.repeat(32);
+
+interface Update {
+  topic: string;
+  subscribed: boolean;
+  seq: number;
+}
+
+function setup(config: PubSubConfig = CONFIG) {
+  const announced: Update[] = [];
+  // Соседей нет – запоминаем, что ушло бы им
+  const peers = {
+    broadcastToPeers: (frame: Frame) => {
+      const { topic, length } = decodeTopic(frame.payload);
+      const seq = Number(new DataView(frame.payload.buffer, frame.payload.byteOffset).getBigUint64(length + 32, false));
+      announced.push({ topic, subscribed: frame.type === MsgType.SUBSCRIBE, seq });
+      return 0;
+    },
+  } as unknown as ServerPeerService;
+  const server = generateKeyPair().publicKey;
+  return { pubsub: new PubSubService(peers, server, config, quietLogger), announced, server };
+}
+
+test('remote interest expires unless the relay re-announces it', (t) => {
+  t.mock.timers.enable({ apis: ['setInterval', 'Date'], now: 1000000 });
+  const { pubsub } = setup();
+  const peer = new FakeConnection();
+  const origin = generateKeyPair().publicKey;
+  pubsub.start();
+
+  pubsub.handlePeerUpdate(peer, 'news', true, origin, 1);
+  assert.equal(pubsub.hasRemoteInterest('news'), true);
+
+  t.mock.timers.tick(20000);
+  pubsub.handlePeerUpdate(peer, 'news', true, origin, 2);
+  t.mock.timers.tick(20000);
+  assert.equal(pubsub.hasRemoteInterest('news'), true);
+
+  t.mock.timers.tick(10001);
+  assert.equal(pubsub.hasRemoteInterest('news'), false);
+  pubsub.stop();
+});
+
+test('an older seq does not override a newer state', () => {
+  const { pubsub } = setup();
+  const peer = new FakeConnection();
+  const origin = generateKeyPair().publicKey;
+
+  pubsub.handlePeerUpdate(peer, 'news', true, origin, 5);
+  pubsub.handlePeerUpdate(peer, 'news', false, origin, 4);
+  assert.equal(pubsub.hasRemoteInterest('news'), true);
+
+  pubsub.handlePeerUpdate(peer, 'news', false, origin, 6);
+  pubsub.handlePeerUpdate(peer, 'news', true, origin, 5);
+  assert.equal(pubsub.hasRemoteInterest('news'), false);
+});
+
+test('expired entries free space in the topic table', (t) => {
+  t.mock.timers.enable({ apis: ['setInterval', 'Date'], now: 1000000 });
+  const { pubsub } = setup();
+  const peer = new FakeConnection();
+  const origin = generateKeyPair().publicKey;
+  pubsub.start();
+
+  pubsub.handlePeerUpdate(peer, 'a', true, origin, 1);
+  pubsub.handlePeerUpdate(peer, 'b', true, origin, 1);
+  pubsub.handlePeerUpdate(peer, 'c', true, origin, 1);
+  assert.equal(pubsub.hasRemoteInterest('c'), false);
+
+  t.mock.timers.tick(40000);
+  pubsub.handlePeerUpdate(peer, 'c', true, origin, 2);
+  assert.equal(pubsub.hasRemoteInterest('c'), true);
+  pubsub.stop();
+});
+
+test('own subscriptions are re-announced with a growing seq until the last subscriber leaves', (t) => {
+  t.mock.timers.enable({ apis: ['setInterval', 'Date'], now: 1000000 });
+  const { pubsub, announced } = setup();
+  pubsub.start();
+
+  assert.equal(pubsub.subscribe(CLIENT, 'news'), true);
+  t.mock.timers.tick(10000);
+  t.mock.timers.tick(10000);
+  assert.deepEqual(announced.map(u => [u.topic, u.subscribed]), [['news', true], ['news', true], ['news', true]]);
+  assert.ok(announced[0]!.seq < announced[1]!.seq && announced[1]!.seq < announced[2]!.seq);
+
+  pubsub.removeClient(CLIENT);
+  t.mock.timers.tick(10000);
+  assert.deepEqual(announced.slice(3).map(u => [u.topic, u.subscribed]), [['news', false]]);
+  pubsub.stop();
+});
+
+test('subscription announced for this relay before a restart is corrected', () => {
+  const { pubsub, announced, server } = setup();
+  // Сеть помнит нашу подписку с seq из будущего относительно нового запуска
+  const staleSeq = Date.now() + 60000;
+  pubsub.handlePeerUpdate(new FakeConnection(), 'news', true, server, staleSeq);
+
+  assert.equal(announced.length, 1);
+  assert.equal(announced[0]!.subscribed, false);
+  assert.ok(announced[0]!.seq > staleSeq);
+  assert.equal(pubsub.hasRemoteInterest('news'), false);
+});
+
+test('a client subscribes to at most maxSubscriptionsPerClient topics', () => {
+  const { pubsub } = setup();
+  assert.equal(pubsub.subscribe(CLIENT, 'a'), true);
+  assert.equal(pubsub.subscribe(CLIENT, 'b'), true);
+  assert.equal(pubsub.subscribe(CLIENT, 'a'), true);
+  assert.equal(pubsub.subscribe(CLIENT, 'c'), false);
+  pubsub.unsubscribe(CLIENT, 'a');
+  assert.equal(pubsub.subscribe(CLIENT, 'c'), true);
+});
@@ -0,0 +1,86 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { generateKeyPair } from '@stablelib/ed25519';
+import { Frame, MsgType } from '../shared/protocol';
+import { RateLimitsConfig } from '../server/config';
+import { RateLimitService } from '../server/services/RateLimitService';
+import { InMemoryClientRepository } from '../server/repositories/InMemoryClientRepository';
+import { InMemoryServerPeerRepository } from '../server/repositories/InMemoryServerPeerRepository';
+import { FakeConnection, delay, quietLogger } from './helpers';
+
+const LIMITS: RateLimitsConfig = {
+  client: { framesPerSecond: 10, bytesPerSecond: 10000, queriesPerSecond: 1, burstSeconds: 1 },
+  server: { framesPerSecond: 1000, bytesPerSecond: 1000000, queriesPerSecond: 100, burstSeconds: 1 },
+};
+
+function setup() {
+  const clientRepo = new InMemoryClientRepository();
+  const serverRepo = new InMemoryServerPeerRepository();
+  return { clientRepo, serverRepo, limiter: new RateLimitService(LIMITS, clientRepo, serverRepo, quietLogger) };
+}
+
+function frame(payloadBytes = 0): Frame {
+  return { type: MsgType.DATA, payload: new Uint8Array(payloadBytes), senderId: new Uint8Array(32) };
+}
+
+function allowedOutOf(limiter: RateLimitService, connection: FakeConnection, count: number, payloadBytes = 0): number {
+  let allowed = 0;
+  for (let i = 0; i < count; i++) {
+    if (limiter.allowFrame(connection, frame(payloadBytes))) allowed++;
+  }
+  return allowed;
+}
+
+test('frames beyond the burst are refused and the bucket refills over time', async () => {
+  const { limiter } = setup();
+  const connection = new FakeConnection();
+  assert.equal(allowedOutOf(limiter, connection, 15), 10);
+  await delay(250);
+  const refilled = allowedOutOf(limiter, connection, 10);
+  assert.ok(refilled >= 2 && refilled <= 4, `refilled ${refilled}`);
+});
+
+test('bytes are counted with the frame header', () => {
+  const { limiter } = setup();
+  const connection = new FakeConnection();
+  // 120 байт заголовка + 2380 = 2500 байт на кадр: в 10000 помещаются четыре
+  assert.equal(allowedOutOf(limiter, connection, 10, 2380), 4);
+});
+
+test('queries have their own bucket', () => {
+  const { limiter } = setup();
+  const connection = new FakeConnection();
+  assert.equal(limiter.allowQuery(connection), true);
+  assert.equal(limiter.allowQuery(connection), false);
+  assert.equal(limiter.allowFrame(connection, frame()), true);
+});
+
+test('key limits survive a reconnect', () => {
+  const { limiter, clientRepo } = setup();
+  const key = generateKeyPair().publicKey;
+  const first = new FakeConnection();
+  clientRepo.add({ publicKey: key, connection: first, authenticatedAt: new Date() });
+  assert.equal(allowedOutOf(limiter, first, 10), 10);
+
+  const second = new FakeConnection();
+  clientRepo.add({ publicKey: key, connection: second, authenticatedAt: new Date() });
+  assert.equal(limiter.allowFrame(second, frame()), false);
+});
+
+test('inbound peer gets server limits once authenticated, although its handshake was counted as a client', () => {
+  const { limiter, serverRepo } = setup();
+  const connection = new FakeConnection();
+  // Рукопожатие: соединение ещё не в реестре соседей и без peerType
+  assert.equal(limiter.allowFrame(connection, frame()), true);
+
+  connection.peerType = 'server';
+  serverRepo.add({ publicKey: generateKeyPair().publicKey, address: 'unknown', connection });
+  assert.equal(allowedOutOf(limiter, connection, 500), 500);
+});
+
+test('outbound peer uses server limits from the first frame', () => {
+  const { limiter } = setup();
+  const connection = new FakeConnection();
+  connection.peerType = 'server';
+  assert.equal(allowedOutOf(limiter, connection, 500), 500);
+});
@@ -0,0 +1,176 @@
+import { test, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { RelayServer } from '../server/RelayServer';
+import { Config, loadConfig } from '../server/config';
+import { WebSocketConnectionManager } from '../client/sdk/connection-manager';
+import { NodeClient, FileStorage, WsConnectionManager, silentLogger } from '../client/sdk/node';
+import { quietLogger } from './helpers';
+
+// Браузерный WebSocket подменяется сокетом, события которого вызывает сам тест
+class FakeSocket {
+  static readonly OPEN = 1;
+  static instances: FakeSocket[] = [];
+  readyState = 0;
+  binaryType = 'blob';
+  onopen: ((event: unknown) => void) | null = null;
+  onmessage: ((event: unknown) => void) | null = null;
+  onerror: ((event: unknown) => void) | null = null;
+  onclose: ((event: { code: number; reason: string }) => void) | null = null;
+
+  constructor(readonly url: string) {
+    FakeSocket.instances.push(this);
+  }
+
+  send(): void {}
+
+  close(): void {
+    this.closed();
+  }
+
+  opened(): void {
+    this.readyState = 1;
+    this.onopen?.({});
+  }
+
+  failed(): void {
+    this.onerror?.({});
+  }
+
+  closed(code = 1006): void {
+    this.readyState = 3;
+    this.onclose?.({ code, reason: '' });
+  }
+}
+
+test('events of a socket from a superseded connect attempt are ignored', async () => {
+  const globals = globalThis as { WebSocket?: unknown };
+  const original = globals.WebSocket;
+  globals.WebSocket = FakeSocket;
+  try {
+    const manager = new WebSocketConnectionManager(silentLogger);
+    const closes: number[] = [];
+    manager.on('close', code => closes.push(code));
+
+    const first = manager.connect('ws://relay');
+    assert.equal(manager.connect('ws://relay'), first); // повторный вызов – та же попытка
+    const stale = FakeSocket.instances.at(-1)!;
+    stale.failed();
+    await assert.rejects(first);
+
+    const second = manager.connect('ws://relay');
+    const current = FakeSocket.instances.at(-1)!;
+    assert.notEqual(current, stale);
+
+    // Прежний сокет закрывается и даже открывается с опозданием – текущей попытки это не касается
+    stale.closed();
+    stale.opened();
+    assert.deepEqual(closes, []);
+    assert.equal(manager.isConnected(), false);
+
+    current.opened();
+    await second;
+    assert.equal(manager.isConnected(), true);
+
+    current.closed(1001);
+    assert.deepEqual(closes, [1001]);
+    assert.equal(manager.isConnected(), false);
+  } finally {
+    globals.WebSocket = original;
+  }
+});
+
+const PORT_A = 19111;
+const PORT_B = 19112;
+
+const dir = mkdtempSync(join(tmpdir(), 'exvia-reconnect-'));
+const relays = new Map<number, RelayServer>();
+const clients: NodeClient[] = [];
+
+after(async () => {
+  clients.forEach(client => client.disconnect());
+  for (const relay of relays.values()) await relay.stop();
+  rmSync(dir, { recursive: true, force: true });
+});
+
+function relayConfig(port: number): Config {
+  const defaults = loadConfig([], {});
+  return {
+    ...defaults,
+    port,
+    host: '127.0.0.1',
+    publicAddress: `ws://127.0.0.1:${port}`,
+    keyFile: join(dir, `relay-${port}-key.json`),
+    peers: { ...defaults.peers, file: null },
+    heartbeatIntervalMs: 0,
+    monitoring: { ...defaults.monitoring, enabled: false },
+  };
+}
+
+async function startRelay(port: number): Promise<void> {
+  const relay = new RelayServer(relayConfig(port), quietLogger);
+  relays.set(port, relay);
+  await relay.start();
+}
+
+async function stopRelay(port: number): Promise<void> {
+  await relays.get(port)?.stop();
+  relays.delete(port);
+}
+
+// Обрыв соединения без disconnect() клиента – как при падении сети
+async function startClient(name: string, maxAttempts: number) {
+  const transport = new WsConnectionManager(silentLogger);
+  const client = new NodeClient(new FileStorage(join(dir, `${name}.json`)), {
+    logger: silentLogger,
+    connectionManager: transport,
+    reconnect: { initialDelayMs: 20, multiplier: 1, jitter: 0, maxAttempts },
+  });
+  clients.push(client);
+  await client.init();
+  return { client, drop: () => transport.disconnect() };
+}
+
+function waitEvent<T extends unknown[]>(client: NodeClient, event: 'reconnected' | 'error', timeoutMs = 5000): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error(`No ${event} event`)), timeoutMs);
+    client.once(event, (...args: unknown[]) => {
+      clearTimeout(timer);
+      resolve(args as T);
+    });
+  });
+}
+
+test('after a drop the client retries its server, then fails over to the next known one', async () => {
+  await startRelay(PORT_A);
+  await startRelay(PORT_B);
+  const { client, drop } = await startClient('failover', 5);
+  await client.connect(`ws://127.0.0.1:${PORT_A}`);
+  await client.addServer(`ws://127.0.0.1:${PORT_B}`);
+
+  const attempts: string[] = [];
+  client.on('reconnecting', (_attempt, _delay, server) => attempts.push(server));
+  const reconnected = waitEvent<[string]>(client, 'reconnected');
+  await stopRelay(PORT_A);
+  drop();
+
+  assert.deepEqual(await reconnected, [`ws://127.0.0.1:${PORT_B}`]);
+  assert.deepEqual(attempts, [`ws://127.0.0.1:${PORT_A}`, `ws://127.0.0.1:${PORT_B}`]);
+  assert.equal(client.isConnected(), true);
+});
+
+test('client gives up after maxAttempts and reports an error', async () => {
+  const { client, drop } = await startClient('give-up', 2);
+  await client.connect(`ws://127.0.0.1:${PORT_B}`);
+  let attempts = 0;
+  client.on('reconnecting', () => attempts++);
+  const failed = waitEvent<[Error]>(client, 'error');
+  await stopRelay(PORT_B);
+  drop();
+
+  assert.match((await failed)[0].message, /Reconnect failed after 2 attempts/);
+  assert.equal(attempts, 2);
+  assert.equal(client.isConnected(), false);
+});
@@ -0,0 +1,86 @@
+import { test, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { RelayServer } from '../server/RelayServer';
+import { loadConfig } from '../server/config';
+import { loadOrCreateServerKey } from '../server/identity';
+import { NodeClient, FileStorage, silentLogger } from '../client/sdk/node';
+import { quietLogger, toHex } from './helpers';
+
+// Один адрес, за которым сначала один ретранслятор, потом другой – с другим ключом
+
+const PORT = 19121;
+const ADDRESS = `ws://127.0.0.1:${PORT}`;
+
+const dir = mkdtempSync(join(tmpdir(), 'exvia-pinning-'));
+let relay: RelayServer | null = null;
+const clients: NodeClient[] = [];
+
+after(async () => {
+  clients.forEach(client => client.disconnect());
+  await relay?.stop();
+  rmSync(dir, { recursive: true, force: true });
+});
+
+// Ключ ретранслятора создаётся заранее, чтобы знать, какой ключ он предъявит
+async function startRelay(keyName: string): Promise<string> {
+  await relay?.stop();
+  const defaults = loadConfig([], {});
+  const keyFile = join(dir, `${keyName}.json`);
+  const publicKey = loadOrCreateServerKey(keyFile, quietLogger).publicKey;
+  relay = new RelayServer({
+    ...defaults,
+    port: PORT,
+    host: '127.0.0.1',
+    publicAddress: ADDRESS,
+    keyFile,
+    peers: { ...defaults.peers, file: null },
+    heartbeatIntervalMs: 0,
+    monitoring: { ...defaults.monitoring, enabled: false },
+  }, quietLogger);
+  await relay.start();
+  return toHex(publicKey);
+}
+
+test('relay key is pinned on first use and a different key later fails the handshake', async () => {
+  const original = await startRelay('original');
+  const client = new NodeClient(new FileStorage(join(dir, 'client.json')), { logger: silentLogger });
+  clients.push(client);
+  await client.init();
+
+  await client.connect(ADDRESS);
+  const pinned = client.getServerKey();
+  assert.equal(pinned, original);
+  client.disconnect();
+
+  // Тот же ключ – подключение проходит и после перезапуска клиента с того же состояния
+  const restarted = new NodeClient(new FileStorage(join(dir, 'client.json')), { logger: silentLogger });
+  clients.push(restarted);
+  await restarted.init();
+  await restarted.connect(ADDRESS);
+  restarted.disconnect();
+
+  const impostor = await startRelay('impostor');
+  const changes: [string, string, string][] = [];
+  restarted.on('serverKeyChanged', (address, pinnedKey, presentedKey) => changes.push([address, pinnedKey, presentedKey]));
+  await assert.rejects(restarted.connect(ADDRESS), /server key for .* changed/);
+  assert.deepEqual(changes, [[ADDRESS, pinned, impostor]]);
+  assert.equal(restarted.isConnected(), false);
+});
+
+test('forgetServerKey accepts the new key and pins it', async () => {
+  await startRelay('before-rotation');
+  const client = new NodeClient(new FileStorage(join(dir, 'rotating-client.json')), { logger: silentLogger });
+  clients.push(client);
+  await client.init();
+  await client.connect(ADDRESS);
+  client.disconnect();
+
+  const rotated = await startRelay('rotated');
+  await assert.rejects(client.connect(ADDRESS));
+  await client.forgetServerKey(ADDRESS);
+  await client.connect(ADDRESS);
+  assert.equal(client.getServerKey(), rotated);
+});